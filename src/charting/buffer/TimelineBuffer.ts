@@ -0,0 +1,41 @@
+import { HorizontalBarBuffer } from './HorizontalBarBuffer';
+import { ITimelineDataSet } from '../interfaces/datasets/ITimelineDataSet';
+import { TimelineEntry } from '../data/TimelineEntry';
+
+export class TimelineBuffer extends HorizontalBarBuffer {
+    constructor(size: number, dataSetCount: number) {
+        super(size, dataSetCount, false);
+    }
+
+    public feed(data: ITimelineDataSet) {
+        const size = data.getEntryCount() * this.phaseX;
+        const barWidthHalf = this.mBarWidth / 2;
+        const yKey = data.yProperty;
+        for (let i = 0; i < size; i++) {
+            const e = data.getEntryForIndex(i) as TimelineEntry;
+            if (e == null) {
+                continue;
+            }
+
+            const x = data.getEntryXValue(e, i);
+            const start = e.start;
+            // the bar grows from its start towards its end with the phase
+            const end = start + this.phaseY * (e[yKey] - start);
+
+            const bottom = x - barWidthHalf;
+            const top = x + barWidthHalf;
+            let left, right;
+            if (this.mInverted) {
+                left = Math.max(start, end);
+                right = Math.min(start, end);
+            } else {
+                right = Math.max(start, end);
+                left = Math.min(start, end);
+            }
+
+            this.addBar(left, top, right, bottom);
+        }
+
+        this.reset();
+    }
+}
@@ -0,0 +1,41 @@
+import { BarBuffer } from './BarBuffer';
+import { IWaterfallDataSet } from '../interfaces/datasets/IWaterfallDataSet';
+import { WaterfallEntry } from '../data/WaterfallEntry';
+
+export class WaterfallBuffer extends BarBuffer {
+    constructor(size: number, dataSetCount: number) {
+        super(size, dataSetCount, false);
+    }
+
+    public feed(data: IWaterfallDataSet) {
+        const size = data.getEntryCount() * this.phaseX;
+        const barWidthHalf = this.mBarWidth / 2;
+        for (let i = 0; i < size; i++) {
+            const e = data.getEntryForIndex(i) as WaterfallEntry;
+            if (e == null) {
+                continue;
+            }
+
+            const x = data.getEntryXValue(e, i);
+            const start = e.start;
+            // the bar grows from its start towards its end with the phase
+            const end = start + this.phaseY * (e.cumulative - start);
+
+            const left = x - barWidthHalf;
+            const right = x + barWidthHalf;
+            let bottom, top;
+
+            if (this.mInverted) {
+                bottom = Math.max(start, end);
+                top = Math.min(start, end);
+            } else {
+                top = Math.max(start, end);
+                bottom = Math.min(start, end);
+            }
+
+            this.addBar(left, top, right, bottom);
+        }
+
+        this.reset();
+    }
+}
@@ -5,6 +5,8 @@ import { BarEntry } from '../data/BarEntry';
 import { BarDataProvider } from '../interfaces/dataprovider/BarDataProvider';
 import { Entry } from '../data/Entry';
 import { BarDataSet } from '../data/BarDataSet';
+import { BulletDataSet } from '../data/BulletDataSet';
+import { HistogramDataSet } from '../data/HistogramDataSet';
 import { BarHighlighter } from '../highlight/BarHighlighter';
 import { Highlight } from '../highlight/Highlight';
 import { BarChartRenderer } from '../renderer/BarChartRenderer';
@@ -12,11 +14,15 @@ import { Canvas, Paint, RectF } from '@nativescript-community/ui-canvas';
 import { IBarDataSet } from '../interfaces/datasets/IBarDataSet';
 import { Color } from '@nativescript/core';
 import { BaseCustomRenderer } from '../renderer/DataRenderer';
+import { ErrorBarCustomRenderer } from '../renderer/BarLineScatterCandleBubbleRenderer';
 
 const LOG_TAG = 'BarChart';
 
-export interface CustomRenderer extends BaseCustomRenderer {
+export interface CustomRenderer extends BaseCustomRenderer, ErrorBarCustomRenderer {
     drawBar?: (c: Canvas, e: BarEntry, dataSet: IBarDataSet, left: number, top: number, right: number, bottom: number, paint: Paint) => void;
+    drawStem?: (c: Canvas, e: BarEntry, dataSet: IBarDataSet, x1: number, y1: number, x2: number, y2: number, paint: Paint) => void;
+    drawBulletBand?: (c: Canvas, e: BarEntry, dataSet: IBarDataSet, bandIndex: number, left: number, top: number, right: number, bottom: number, paint: Paint) => void;
+    drawBulletTarget?: (c: Canvas, e: BarEntry, dataSet: IBarDataSet, x1: number, y1: number, x2: number, y2: number, paint: Paint) => void;
     drawHighlight?: (c: Canvas, e: Highlight, left: number, top: number, right: number, bottom: number, paint: Paint) => void;
 }
 
@@ -25,7 +31,7 @@ export class BarChart extends BarLineChartBase<Entry, BarDataSet, BarData> imple
     /**
      * flag that indicates whether the highlight should be full-bar oriented, or single-value?
      */
-    protected mHighlightFullBarEnabled ;
+    protected mHighlightFullBarEnabled;
 
     protected mFitBars;
 
@@ -41,6 +47,11 @@ export class BarChart extends BarLineChartBase<Entry, BarDataSet, BarData> imple
 
     private mCustomRenderer: CustomRenderer;
 
+    /**
+     * if set to true, the x-axis labels are placed on the bin edges of the first HistogramDataSet
+     */
+    private mBinEdgeLabelsEnabled = false;
+
     protected init() {
         super.init();
 
@@ -52,20 +63,80 @@ export class BarChart extends BarLineChartBase<Entry, BarDataSet, BarData> imple
         this.getXAxis().setSpaceMax(0.5);
     }
 
+    public onDraw(canvas: Canvas) {
+        if (this.mData !== null && !this.noComputeOnNextDraw) {
+            this.rebinHistograms();
+        }
+        super.onDraw(canvas);
+    }
+
+    /**
+     * Returns the width of the bars of the given DataSet in values. Histogram bars fill their whole bin, bullet bars
+     * are narrower than their bands.
+     *
+     * @param set
+     */
+    protected getBarWidth(set: IBarDataSet) {
+        if (set instanceof BulletDataSet) {
+            return (this.mData.getBarWidth() * set.getValueBarWidthPercent()) / 100;
+        }
+        return set instanceof HistogramDataSet ? set.getBinWidth() : this.mData.getBarWidth();
+    }
+
+    /**
+     * Lets the HistogramDataSets rebin their samples for the visible x range and places the x-axis labels on the bin
+     * edges.
+     */
+    protected rebinHistograms() {
+        const histograms = this.mData.getDataSets().filter((set) => set instanceof HistogramDataSet && set.isVisible()) as HistogramDataSet[];
+        if (histograms.length === 0) {
+            return;
+        }
+        const fromX = this.getLowestVisibleX();
+        const toX = this.getHighestVisibleX();
+        let changed = false;
+        for (const set of histograms) {
+            changed = set.rebin(fromX, toX) || changed;
+        }
+        if (changed) {
+            // the bar buffers are sized on the bin count
+            this.mRenderer.initBuffers();
+            this.mData.notifyDataChanged();
+            this.calcMinMax();
+            this.calculateOffsets();
+        }
+
+        if (this.mBinEdgeLabelsEnabled) {
+            // use a multiple of the bin width so that labels stay on bin edges without overlapping
+            const binWidth = histograms[0].getBinWidth();
+            const labelCount = Math.max(1, this.mXAxis.getLabelCount());
+            this.mXAxis.setForcedInterval(binWidth * Math.max(1, Math.ceil((toX - fromX) / binWidth / labelCount)));
+        }
+    }
+
     protected calcMinMax() {
         if (this.mFitBars) {
-            this.mXAxis.calculate(this.mData.getXMin() - this.mData.getBarWidth() / 2, this.mData.getXMax() + this.mData.getBarWidth() / 2);
+            let xMin = Infinity;
+            let xMax = -Infinity;
+            for (const set of this.mData.getDataSets()) {
+                // the bands of bullet bars fill the whole bar width
+                const barWidth = set instanceof BulletDataSet ? this.mData.getBarWidth() : this.getBarWidth(set);
+                xMin = Math.min(xMin, set.getXMin() - barWidth / 2);
+                xMax = Math.max(xMax, set.getXMax() + barWidth / 2);
+            }
+            this.mXAxis.calculate(xMin, xMax);
         } else {
             this.mXAxis.calculate(this.mData.getXMin(), this.mData.getXMax());
         }
 
         // calculate axis range (min / max) according to provided data
         if (this.mAxisLeft.isEnabled()) {
-            this.mAxisLeft.calculate(this.mData.getYMin(AxisDependency.LEFT), this.mData.getYMax(AxisDependency.LEFT));
+            this.calcLeftAxisMinMax();
         }
         if (this.mAxisRight && this.mAxisRight.isEnabled()) {
             this.mAxisRight.calculate(this.mData.getYMin(AxisDependency.RIGHT), this.mData.getYMax(AxisDependency.RIGHT));
         }
+        this.calcAdditionalYAxesMinMax();
     }
 
     /**
@@ -119,7 +190,7 @@ export class BarChart extends BarLineChartBase<Entry, BarDataSet, BarData> imple
         const x = set.getEntryXValue(e, index);
         const y = e[yKey];
 
-        const barWidth = this.mData.getBarWidth();
+        const barWidth = this.getBarWidth(set);
 
         const left = x - barWidth / 2;
         const right = x + barWidth / 2;
@@ -216,6 +287,21 @@ export class BarChart extends BarLineChartBase<Entry, BarDataSet, BarData> imple
         this.mFitBars = enabled;
     }
 
+    /**
+     * If set to true, the x-axis labels are placed on the bin edges of the first HistogramDataSet, at a multiple of
+     * the bin width depending on the zoom level. This forces the interval of the x-axis, overriding its granularity.
+     * Default: false
+     *
+     * @param enabled
+     */
+    public setBinEdgeLabelsEnabled(enabled: boolean) {
+        this.mBinEdgeLabelsEnabled = enabled;
+    }
+
+    public isBinEdgeLabelsEnabled() {
+        return this.mBinEdgeLabelsEnabled;
+    }
+
     /**
      * set a custom bar renderer
      */
@@ -233,6 +319,7 @@ export class BarChart extends BarLineChartBase<Entry, BarDataSet, BarData> imple
      * Groups all BarDataSet objects this data object holds together by modifying the x-value of their entries.
      * Previously set x-values of entries will be overwritten. Leaves space between bars and groups as specified
      * by the parameters.
+     * On a category x-axis, the categories are centered on the groups.
      * Calls notifyDataSetChanged() afterwards.
      *
      * @param fromX      the starting polet on the x-axis where the grouping should begin
@@ -243,7 +330,13 @@ export class BarChart extends BarLineChartBase<Entry, BarDataSet, BarData> imple
         if (this.getBarData() === null) {
             throw new Error('You need to set data for the chart before grouping bars.');
         } else {
-            this.getBarData().groupBars(fromX, groupSpace, barSpace);
+            const data = this.getBarData();
+            data.groupBars(fromX, groupSpace, barSpace);
+            if (this.mXAxis.isCategoryAxisEnabled()) {
+                // one category per group
+                const groupWidth = data.getGroupWidth(groupSpace, barSpace);
+                this.mXAxis.setCategoryLayout(fromX + groupWidth / 2, groupWidth);
+            }
             this.notifyDataSetChanged();
         }
     }
@@ -2,9 +2,10 @@ import { Canvas, Matrix, Paint } from '@nativescript-community/ui-canvas';
 import { EventData, Observable, Trace, profile } from '@nativescript/core';
 import { getEventOrGestureName } from '@nativescript/core/ui/core/bindable';
 import { GestureTypes } from '@nativescript/core/ui/gestures';
+import { AxisBase } from '../components/AxisBase';
 import { LegendHorizontalAlignment, LegendOrientation, LegendVerticalAlignment } from '../components/Legend';
 import { XAxisPosition } from '../components/XAxis';
-import { AxisDependency, YAxis } from '../components/YAxis';
+import { AxisDependency, AxisId, YAxis } from '../components/YAxis';
 import { BarLineScatterCandleBubbleData } from '../data/BarLineScatterCandleBubbleData';
 import { Entry } from '../data/Entry';
 import { ChartHighlighter } from '../highlight/ChartHighlighter';
@@ -23,6 +24,15 @@ import { Chart } from './Chart';
 
 const LOG_TAG = 'BarLineChartBase';
 
+/**
+ * an additional y-axis with its own transformer and renderer
+ */
+interface AdditionalYAxis {
+    axis: YAxis;
+    transformer: Transformer;
+    renderer: YAxisRenderer;
+}
+
 export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatterCandleBubbleDataSet<U>, T extends BarLineScatterCandleBubbleData<U, D>>
     extends Chart<U, D, T>
     implements BarLineScatterCandleBubbleDataProvider
@@ -124,6 +134,11 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
     protected mLeftAxisTransformer: Transformer;
     protected mRightAxisTransformer: Transformer;
 
+    /**
+     * the additional y-axes, stacked outside of the left and right axes
+     */
+    protected mAdditionalYAxes: AdditionalYAxis[] = [];
+
     protected mXAxisRenderer: XAxisRenderer;
 
     // /** the approximator object used for data filtering */
@@ -191,30 +206,37 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
         const leftLimitEnabled = leftEnabled && this.mAxisLeft.isDrawLimitLinesEnabled();
         const rightLimitEnabled = rightEnabled && this.mAxisRight.isDrawLimitLinesEnabled();
         const xLimitEnabled = xEnabled && this.mXAxis.isDrawLimitLinesEnabled();
+        const additionalAxes = this.mAdditionalYAxes.filter((a) => a.axis.isEnabled());
 
         if (!noComputeOnNextDraw) {
             if (leftEnabled) this.mAxisRendererLeft.computeAxis(this.mAxisLeft.mAxisMinimum, this.mAxisLeft.mAxisMaximum, this.mAxisLeft.isInverted());
 
             if (rightEnabled) this.mAxisRendererRight.computeAxis(this.mAxisRight.mAxisMinimum, this.mAxisRight.mAxisMaximum, this.mAxisRight.isInverted());
 
+            for (const a of additionalAxes) a.renderer.computeAxis(a.axis.mAxisMinimum, a.axis.mAxisMaximum, a.axis.isInverted());
+
             if (xEnabled) this.mXAxisRenderer.computeAxis(this.mXAxis.mAxisMinimum, this.mXAxis.mAxisMaximum, false);
         }
 
         if (xEnabled && this.mXAxis.isDrawGridLinesBehindDataEnabled()) this.mXAxisRenderer.renderGridLines(canvas);
         if (leftEnabled && this.mAxisLeft.isDrawGridLinesBehindDataEnabled()) this.mAxisRendererLeft.renderGridLines(canvas);
         if (rightEnabled && this.mAxisRight.isDrawGridLinesBehindDataEnabled()) this.mAxisRendererRight.renderGridLines(canvas);
+        for (const a of additionalAxes) if (a.axis.isDrawGridLinesBehindDataEnabled()) a.renderer.renderGridLines(canvas);
 
         if (xLimitEnabled && this.mXAxis.isDrawLimitLinesBehindDataEnabled()) this.mXAxisRenderer.renderLimitLines(canvas);
         if (leftLimitEnabled && this.mAxisLeft.isDrawLimitLinesBehindDataEnabled()) this.mAxisRendererLeft.renderLimitLines(canvas);
         if (rightLimitEnabled && this.mAxisRight.isDrawLimitLinesBehindDataEnabled()) this.mAxisRendererRight.renderLimitLines(canvas);
+        for (const a of additionalAxes) if (a.axis.isDrawLimitLinesEnabled() && a.axis.isDrawLimitLinesBehindDataEnabled()) a.renderer.renderLimitLines(canvas);
 
         if (xEnabled) this.mXAxisRenderer.renderAxisLine(canvas);
         if (leftEnabled) this.mAxisRendererLeft.renderAxisLine(canvas);
         if (rightEnabled) this.mAxisRendererRight.renderAxisLine(canvas);
+        for (const a of additionalAxes) a.renderer.renderAxisLine(canvas);
 
         if (xEnabled && this.mXAxis.isDrawLabelsBehindDataEnabled()) this.mXAxisRenderer.renderAxisLabels(canvas);
         if (leftEnabled && this.mAxisLeft.isDrawLabelsBehindDataEnabled()) this.mAxisRendererLeft.renderAxisLabels(canvas);
         if (rightEnabled && this.mAxisRight.isDrawLabelsBehindDataEnabled()) this.mAxisRendererRight.renderAxisLabels(canvas);
+        for (const a of additionalAxes) if (a.axis.isDrawLabelsBehindDataEnabled()) a.renderer.renderAxisLabels(canvas);
 
         // make sure the data cannot be drawn outside the content-rect
         if (this.isClipDataToContentEnabled()) {
@@ -228,6 +250,12 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
         if (xEnabled && !this.mXAxis.isDrawGridLinesBehindDataEnabled()) this.mXAxisRenderer.renderGridLines(canvas);
         if (leftEnabled && !this.mAxisLeft.isDrawGridLinesBehindDataEnabled()) this.mAxisRendererLeft.renderGridLines(canvas);
         if (rightEnabled && !this.mAxisRight.isDrawGridLinesBehindDataEnabled()) this.mAxisRendererRight.renderGridLines(canvas);
+        for (const a of additionalAxes) if (!a.axis.isDrawGridLinesBehindDataEnabled()) a.renderer.renderGridLines(canvas);
+
+        if (xEnabled) this.mXAxisRenderer.renderBreaks(canvas);
+        if (leftEnabled) this.mAxisRendererLeft.renderBreaks(canvas);
+        if (rightEnabled) this.mAxisRendererRight.renderBreaks(canvas);
+        for (const a of additionalAxes) a.renderer.renderBreaks(canvas);
 
         if (!this.clipHighlightToContent && this.isClipDataToContentEnabled()) {
             // restore before drawing highlight
@@ -247,10 +275,12 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
         if (xLimitEnabled && !this.mXAxis.isDrawLimitLinesBehindDataEnabled()) this.mXAxisRenderer.renderLimitLines(canvas);
         if (leftLimitEnabled && !this.mAxisLeft.isDrawLimitLinesBehindDataEnabled()) this.mAxisRendererLeft.renderLimitLines(canvas);
         if (rightLimitEnabled && !this.mAxisRight.isDrawLimitLinesBehindDataEnabled()) this.mAxisRendererRight.renderLimitLines(canvas);
+        for (const a of additionalAxes) if (a.axis.isDrawLimitLinesEnabled() && !a.axis.isDrawLimitLinesBehindDataEnabled()) a.renderer.renderLimitLines(canvas);
 
         if (xEnabled && !this.mXAxis.isDrawLabelsBehindDataEnabled()) this.mXAxisRenderer.renderAxisLabels(canvas);
         if (leftEnabled && !this.mAxisLeft.isDrawLabelsBehindDataEnabled()) this.mAxisRendererLeft.renderAxisLabels(canvas);
         if (rightEnabled && !this.mAxisRight.isDrawLabelsBehindDataEnabled()) this.mAxisRendererRight.renderAxisLabels(canvas);
+        for (const a of additionalAxes) if (!a.axis.isDrawLabelsBehindDataEnabled()) a.renderer.renderAxisLabels(canvas);
 
         if (this.isClipValuesToContentEnabled()) {
             canvas.save();
@@ -290,11 +320,20 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
         if (Trace.isEnabled()) {
             CLog(CLogTypes.info, LOG_TAG, 'Preparing Value-Px Matrix, xmin: ' + this.mXAxis.mAxisMinimum + ', xmax: ' + this.mXAxis.mAxisMaximum + ', xdelta: ' + this.mXAxis.mAxisRange);
         }
+        const xAxis = this.mXAxis;
         if (this.mAxisRight && this.mAxisRight.isEnabled()) {
-            this.mRightAxisTransformer.prepareMatrixValuePx(this.mXAxis.mAxisMinimum, this.mXAxis.mAxisRange, this.mAxisRight.mAxisRange, this.mAxisRight.mAxisMinimum);
+            this.mRightAxisTransformer.setScaleAxes(xAxis, this.mAxisRight);
+            this.mRightAxisTransformer.prepareMatrixValuePx(xAxis.getScaledMinimum(), xAxis.getScaledRange(), this.mAxisRight.getScaledRange(), this.mAxisRight.getScaledMinimum());
         }
-        if ((this.mAxisLeft && this.mAxisLeft.isEnabled()) || this.mXAxis.isEnabled()) {
-            this.mLeftAxisTransformer.prepareMatrixValuePx(this.mXAxis.mAxisMinimum, this.mXAxis.mAxisRange, this.mAxisLeft.mAxisRange, this.mAxisLeft.mAxisMinimum);
+        if ((this.mAxisLeft && this.mAxisLeft.isEnabled()) || xAxis.isEnabled()) {
+            this.mLeftAxisTransformer.setScaleAxes(xAxis, this.mAxisLeft);
+            this.mLeftAxisTransformer.prepareMatrixValuePx(xAxis.getScaledMinimum(), xAxis.getScaledRange(), this.mAxisLeft.getScaledRange(), this.mAxisLeft.getScaledMinimum());
+        }
+        for (const a of this.mAdditionalYAxes) {
+            if (a.axis.isEnabled()) {
+                a.transformer.setScaleAxes(xAxis, a.axis);
+                a.transformer.prepareMatrixValuePx(xAxis.getScaledMinimum(), xAxis.getScaledRange(), a.axis.getScaledRange(), a.axis.getScaledMinimum());
+            }
         }
     }
 
@@ -305,6 +344,11 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
         if ((this.mAxisLeft && this.mAxisLeft.isEnabled()) || this.mXAxis.isEnabled()) {
             this.mLeftAxisTransformer.prepareMatrixOffset(this.mAxisLeft.isInverted());
         }
+        for (const a of this.mAdditionalYAxes) {
+            if (a.axis.isEnabled()) {
+                a.transformer.prepareMatrixOffset(a.axis.isInverted());
+            }
+        }
     }
 
     public notifyDataSetChanged() {
@@ -326,7 +370,9 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
 
         if (this.mRenderer != null) this.mRenderer.initBuffers();
 
+        this.resolveCategoryEntries();
         this.calcMinMax();
+        this.applyAxisDataSetColors();
 
         if (this.mAxisLeft && this.mAxisLeft.isEnabled()) {
             this.mAxisRendererLeft.computeAxis(this.mAxisLeft.mAxisMinimum, this.mAxisLeft.mAxisMaximum, this.mAxisLeft.isInverted());
@@ -334,6 +380,11 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
         if (this.mAxisRight && this.mAxisRight.isEnabled()) {
             this.mAxisRendererRight.computeAxis(this.mAxisRight.mAxisMinimum, this.mAxisRight.mAxisMaximum, this.mAxisRight.isInverted());
         }
+        for (const a of this.mAdditionalYAxes) {
+            if (a.axis.isEnabled()) {
+                a.renderer.computeAxis(a.axis.mAxisMinimum, a.axis.mAxisMaximum, a.axis.isInverted());
+            }
+        }
         if (this.mXAxis.isEnabled()) {
             this.mXAxisRenderer.computeAxis(this.mXAxis.mAxisMinimum, this.mXAxis.mAxisMaximum, false);
         }
@@ -360,12 +411,13 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
         // calculate axis range (min / max) according to provided data
 
         if (this.mAxisLeft && this.mAxisLeft.isEnabled()) {
-            this.mAxisLeft.calculate(this.mData.getYMin(AxisDependency.LEFT), this.mData.getYMax(AxisDependency.LEFT));
+            this.calcLeftAxisMinMax();
         }
 
         if (this.mAxisRight && this.mAxisRight.isEnabled()) {
             this.mAxisRight.calculate(this.mData.getYMin(AxisDependency.RIGHT), this.mData.getYMax(AxisDependency.RIGHT));
         }
+        this.calcAdditionalYAxesMinMax();
 
         this.calculateOffsets();
     }
@@ -375,11 +427,95 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
 
         // calculate axis range (min / max) according to provided data
         if (this.mAxisLeft && this.mAxisLeft.isEnabled()) {
-            this.mAxisLeft.calculate(this.mData.getYMin(AxisDependency.LEFT), this.mData.getYMax(AxisDependency.LEFT));
+            this.calcLeftAxisMinMax();
         }
         if (this.mAxisRight && this.mAxisRight.isEnabled()) {
             this.mAxisRight.calculate(this.mData.getYMin(AxisDependency.RIGHT), this.mData.getYMax(AxisDependency.RIGHT));
         }
+        this.calcAdditionalYAxesMinMax();
+    }
+
+    /**
+     * Replaces the category names used as x-values of entries by the
+     * position of the category on a category x-axis, the names being kept
+     * in the category property of the entries.
+     */
+    protected resolveCategoryEntries() {
+        if (!this.mXAxis.isCategoryAxisEnabled()) {
+            return;
+        }
+        let changed = false;
+        for (const set of this.mData.getDataSets()) {
+            const xKey = set.xProperty;
+            let resolved = false;
+            for (let i = 0; i < set.getEntryCount(); i++) {
+                const e: Entry = set.getEntryForIndex(i);
+                if (e && typeof e[xKey] === 'string') {
+                    e.category = e[xKey];
+                }
+                // the name is resolved again in case the categories changed
+                if (e && e.category != null) {
+                    const position = this.mXAxis.getCategoryPosition(e.category);
+                    if (!Object.is(position, e[xKey])) {
+                        e[xKey] = position;
+                        resolved = true;
+                    }
+                }
+            }
+            if (resolved) {
+                set.calcMinMax();
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.mData.notifyDataChanged();
+        }
+    }
+
+    /**
+     * Calculates the range of the left axis, which also plots the DataSets
+     * bound to an axis id no additional y-axis has.
+     */
+    protected calcLeftAxisMinMax() {
+        const data = this.mData;
+        let min = data.mLeftAxisMin;
+        let max = data.mLeftAxisMax;
+        for (const id of Object.keys(data.mAxisMinMax)) {
+            if (!this.getAdditionalYAxis(id)) {
+                min = Math.min(min, data.mAxisMinMax[id].min);
+                max = Math.max(max, data.mAxisMinMax[id].max);
+            }
+        }
+        if (Number.isFinite(min) && Number.isFinite(max)) {
+            this.mAxisLeft.calculate(min, max);
+        } else {
+            this.mAxisLeft.calculate(data.getYMin(AxisDependency.LEFT), data.getYMax(AxisDependency.LEFT));
+        }
+    }
+
+    /**
+     * Calculates the range of the additional y-axes from the DataSets
+     * plotted against them.
+     */
+    protected calcAdditionalYAxesMinMax() {
+        for (const a of this.mAdditionalYAxes) {
+            if (a.axis.isEnabled()) {
+                const id = a.axis.getAxisId();
+                a.axis.calculate(this.mData.getYMin(id), this.mData.getYMax(id));
+            }
+        }
+    }
+
+    /**
+     * Passes the color of the first visible DataSet plotted against them to
+     * the y-axes, drawn in it when setDrawInDataSetColor() is enabled.
+     */
+    protected applyAxisDataSetColors() {
+        for (const axis of this.getYAxes()) {
+            const id = axis.getAxisId();
+            const set = this.mData.getDataSets().find((s) => s.isVisible() && s.getAxisDependency() === id);
+            axis.setDataSetColor(set ? set.getColor() : null);
+        }
     }
 
     protected calculateLegendOffsets(offsets) {
@@ -450,14 +586,31 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
             let offsetRight = offsetBuffer.right;
             let offsetBottom = offsetBuffer.bottom;
 
-            // offsets for y-labels
+            // offsets for y-labels, additional axes being stacked outside of the left and right ones
+            let stackLeft = 0;
+            let stackRight = 0;
             if (this.mAxisLeft && this.mAxisLeft.needsOffset()) {
-                offsetLeft += this.mAxisLeft.getRequiredWidthSpace(this.mAxisRendererLeft.axisLabelsPaint);
+                stackLeft += this.mAxisLeft.getRequiredWidthSpace(this.mAxisRendererLeft.axisLabelsPaint);
             }
 
             if (this.mAxisRight && this.mAxisRight.needsOffset()) {
-                offsetRight += this.mAxisRight.getRequiredWidthSpace(this.mAxisRendererRight.axisLabelsPaint);
+                stackRight += this.mAxisRight.getRequiredWidthSpace(this.mAxisRendererRight.axisLabelsPaint);
             }
+            for (const a of this.mAdditionalYAxes) {
+                if (!a.axis.needsOffset()) {
+                    continue;
+                }
+                const width = a.axis.getRequiredWidthSpace(a.renderer.axisLabelsPaint);
+                if (a.axis.getAxisDependency() === AxisDependency.LEFT) {
+                    a.axis.setStackOffset(stackLeft);
+                    stackLeft += width;
+                } else {
+                    a.axis.setStackOffset(stackRight);
+                    stackRight += width;
+                }
+            }
+            offsetLeft += stackLeft;
+            offsetRight += stackRight;
 
             if (this.mXAxis.isEnabled() && this.mXAxis.isDrawLabelsEnabled()) {
                 const xLabelHeight = this.mXAxis.mLabelRotatedHeight + this.mXAxis.getYOffset();
@@ -511,7 +664,7 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
      *
      * @return
      */
-    public getTransformer(which?: AxisDependency) {
+    public getTransformer(which?: AxisId) {
         if (which === undefined) {
             if (this.getAxisLeft().isEnabled()) {
                 return this.mLeftAxisTransformer;
@@ -519,7 +672,9 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
             return this.mRightAxisTransformer;
         }
         if (which === AxisDependency.LEFT) return this.mLeftAxisTransformer;
-        else return this.mRightAxisTransformer;
+        else if (which === AxisDependency.RIGHT) return this.mRightAxisTransformer;
+        const additional = this.getAdditionalYAxis(which);
+        return additional ? additional.transformer : this.mLeftAxisTransformer;
     }
 
     // public onTouchEvent( event) {
@@ -666,7 +821,7 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
             this,
             this.getTransformer(axis),
             this.getAxis(axis),
-            this.mXAxis.mAxisRange,
+            this.mXAxis.getScaledRange(),
             scaleX,
             scaleY,
             this.mViewPortHandler.getScaleX(),
@@ -697,7 +852,7 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
             this,
             this.getTransformer(axis),
             this.getAxis(axis),
-            this.mXAxis.mAxisRange,
+            this.mXAxis.getScaledRange(),
             scaleX,
             scaleY,
             this.mViewPortHandler.getScaleX(),
@@ -748,7 +903,7 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
      * @param maxXRange The maximum visible range of x-values.
      */
     public setVisibleXRangeMaximum(maxXRange) {
-        const xScale = this.mXAxis.mAxisRange / maxXRange;
+        const xScale = this.mXAxis.getScaledRange() / maxXRange;
         this.mViewPortHandler.setMinimumScaleX(xScale);
     }
 
@@ -761,7 +916,7 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
      * @param minXRange The minimum visible range of x-values.
      */
     public setVisibleXRangeMinimum(minXRange) {
-        const xScale = this.mXAxis.mAxisRange / minXRange;
+        const xScale = this.mXAxis.getScaledRange() / minXRange;
         this.mViewPortHandler.setMaximumScaleX(xScale);
     }
 
@@ -774,8 +929,8 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
      * @param maxXRange
      */
     public setVisibleXRange(minXRange, maxXRange) {
-        const minScale = this.mXAxis.mAxisRange / minXRange;
-        const maxScale = this.mXAxis.mAxisRange / maxXRange;
+        const minScale = this.mXAxis.getScaledRange() / minXRange;
+        const maxScale = this.mXAxis.getScaledRange() / maxXRange;
         this.mViewPortHandler.setMinMaxScaleX(minScale, maxScale);
     }
 
@@ -838,7 +993,7 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
     public moveViewTo(xValue, yValue, axis) {
         const yInView = this.getAxisRange(axis) / this.mViewPortHandler.getScaleY();
 
-        const job = MoveViewJob.getInstance(this.mViewPortHandler, xValue, yValue + yInView / 2, this.getTransformer(axis), this);
+        const job = MoveViewJob.getInstance(this.mViewPortHandler, xValue, this.offsetValueInScale(this.getAxis(axis), yValue, yInView / 2), this.getTransformer(axis), this);
 
         this.addViewportJob(job);
     }
@@ -858,7 +1013,16 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
 
         const yInView = this.getAxisRange(axis) / this.mViewPortHandler.getScaleY();
 
-        const job = AnimatedMoveViewJob.getInstance(this.mViewPortHandler, xValue, yValue + yInView / 2, this.getTransformer(axis), this, bounds.x, bounds.y, duration);
+        const job = AnimatedMoveViewJob.getInstance(
+            this.mViewPortHandler,
+            xValue,
+            this.offsetValueInScale(this.getAxis(axis), yValue, yInView / 2),
+            this.getTransformer(axis),
+            this,
+            bounds.x,
+            bounds.y,
+            duration
+        );
 
         this.addViewportJob(job);
 
@@ -875,7 +1039,7 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
     public centerViewToY(yValue, axis) {
         const valsInView = this.getAxisRange(axis) / this.mViewPortHandler.getScaleY();
 
-        const job = MoveViewJob.getInstance(this.mViewPortHandler, 0, yValue + valsInView / 2, this.getTransformer(axis), this);
+        const job = MoveViewJob.getInstance(this.mViewPortHandler, 0, this.offsetValueInScale(this.getAxis(axis), yValue, valsInView / 2), this.getTransformer(axis), this);
 
         this.addViewportJob(job);
     }
@@ -891,9 +1055,15 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
      */
     public centerViewTo(xValue, yValue, axis) {
         const yInView = this.getAxisRange(axis) / this.mViewPortHandler.getScaleY();
-        const xInView = this.getXAxis().mAxisRange / this.mViewPortHandler.getScaleX();
+        const xInView = this.getXAxis().getScaledRange() / this.mViewPortHandler.getScaleX();
 
-        const job = MoveViewJob.getInstance(this.mViewPortHandler, xValue - xInView / 2, yValue + yInView / 2, this.getTransformer(axis), this);
+        const job = MoveViewJob.getInstance(
+            this.mViewPortHandler,
+            this.offsetValueInScale(this.mXAxis, xValue, -xInView / 2),
+            this.offsetValueInScale(this.getAxis(axis), yValue, yInView / 2),
+            this.getTransformer(axis),
+            this
+        );
 
         this.addViewportJob(job);
     }
@@ -911,9 +1081,18 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
         const bounds = this.getValuesByTouchPoint(this.mViewPortHandler.contentLeft(), this.mViewPortHandler.contentTop(), axis);
 
         const yInView = this.getAxisRange(axis) / this.mViewPortHandler.getScaleY();
-        const xInView = this.getXAxis().mAxisRange / this.mViewPortHandler.getScaleX();
+        const xInView = this.getXAxis().getScaledRange() / this.mViewPortHandler.getScaleX();
 
-        const job = AnimatedMoveViewJob.getInstance(this.mViewPortHandler, xValue - xInView / 2, yValue + yInView / 2, this.getTransformer(axis), this, bounds.x, bounds.y, duration);
+        const job = AnimatedMoveViewJob.getInstance(
+            this.mViewPortHandler,
+            this.offsetValueInScale(this.mXAxis, xValue, -xInView / 2),
+            this.offsetValueInScale(this.getAxis(axis), yValue, yInView / 2),
+            this.getTransformer(axis),
+            this,
+            bounds.x,
+            bounds.y,
+            duration
+        );
 
         this.addViewportJob(job);
 
@@ -965,14 +1144,27 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
     /** CODE BELOW IS GETTERS AND SETTERS */
 
     /**
-     * Returns the range of the specified axis.
+     * Returns the value at the given distance of the given value, the
+     * distance being expressed in the scale of the given axis.
      *
      * @param axis
+     * @param value
+     * @param delta
      * @return
      */
-    protected getAxisRange(axis) {
-        if (axis === AxisDependency.LEFT) return this.mAxisLeft.mAxisRange;
-        else return this.mAxisRight && this.mAxisRight.mAxisRange;
+    protected offsetValueInScale(axis: AxisBase, value, delta) {
+        return axis.fromScale(axis.toScale(value) + delta);
+    }
+
+    /**
+     * Returns the range of the specified axis, in the scale of the axis.
+     *
+     * @param axis
+     * @return
+     */
+    protected getAxisRange(axis: AxisId) {
+        const yAxis = this.getAxis(axis);
+        return yAxis && yAxis.getScaledRange();
     }
 
     /**
@@ -1509,15 +1701,103 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
      * @param axis
      * @return
      */
-    public getAxis(axis) {
+    public getAxis(axis: AxisId) {
         if (axis === AxisDependency.LEFT) return this.mAxisLeft;
-        else return this.mAxisRight;
+        else if (axis === AxisDependency.RIGHT) return this.mAxisRight;
+        const additional = this.getAdditionalYAxis(axis);
+        return additional ? additional.axis : this.mAxisLeft;
     }
 
-    public isInverted(axis) {
+    public isInverted(axis: AxisId) {
         return this.getAxis(axis).isInverted();
     }
 
+    /**
+     * Adds an additional y-axis on the given side of the chart, stacked
+     * outside of the axes already on that side. DataSets are plotted against
+     * it with setAxisDependency(id). Additional axes draw no grid lines and
+     * are drawn in the color of their first DataSet by default. Returns the
+     * existing axis if there is already one with the given id.
+     *
+     * @param id
+     * @param side
+     * @return
+     */
+    public addYAxis(id: string, side = AxisDependency.RIGHT) {
+        const existing = this.getAdditionalYAxis(id);
+        if (existing) {
+            return existing.axis;
+        }
+        const axis = new YAxis(side, id);
+        axis.setDrawGridLines(false);
+        axis.setDrawInDataSetColor(true);
+        const transformer = this.createYAxisTransformer();
+        this.mAdditionalYAxes.push({ axis, transformer, renderer: this.createYAxisRenderer(axis, transformer) });
+        return axis;
+    }
+
+    /**
+     * Removes the additional y-axis with the given id. DataSets still plotted
+     * against it fall back to the left axis.
+     *
+     * @param id
+     * @return true if the axis was removed
+     */
+    public removeYAxis(id: string) {
+        const index = this.mAdditionalYAxes.findIndex((a) => a.axis.getAxisId() === id);
+        if (index === -1) {
+            return false;
+        }
+        this.mAdditionalYAxes.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Returns the additional y-axes, in the order they were added.
+     *
+     * @return
+     */
+    public getAdditionalYAxes() {
+        return this.mAdditionalYAxes.map((a) => a.axis);
+    }
+
+    /**
+     * Returns all the y-axes of the chart: left, right if created and the
+     * additional ones.
+     *
+     * @return
+     */
+    public getYAxes() {
+        const axes = [this.mAxisLeft];
+        if (this.mAxisRight) {
+            axes.push(this.mAxisRight);
+        }
+        return axes.concat(this.getAdditionalYAxes());
+    }
+
+    /**
+     * Returns the renderer of the additional y-axis with the given id.
+     *
+     * @param id
+     * @return
+     */
+    public getRendererYAxis(id: string) {
+        const additional = this.getAdditionalYAxis(id);
+        return additional ? additional.renderer : null;
+    }
+
+    protected getAdditionalYAxis(id: AxisId) {
+        return this.mAdditionalYAxes.find((a) => a.axis.getAxisId() === id);
+    }
+
+    protected createYAxisTransformer() {
+        return new Transformer(this.mViewPortHandler);
+    }
+
+    protected createYAxisRenderer(axis: YAxis, transformer: Transformer) {
+        return new YAxisRenderer(this.mViewPortHandler, axis, transformer);
+    }
+
     /**
      * If set to true, both x and y axis can be scaled simultaneously with 2 fingers, if false,
      * x and y axis can be scaled separately. default: false
@@ -1633,14 +1913,14 @@ export abstract class BarLineChartBase<U extends Entry, D extends IBarLineScatte
     }
 
     /**
-     * Returns true if either the left or the right or both axes are inverted.
+     * Returns true if any of the enabled y-axes is inverted.
      *
      * @return
      */
     public isAnyAxisInverted() {
         if (this.mAxisLeft.isEnabled() && this.mAxisLeft.isInverted()) return true;
         if (this.mAxisRight && this.mAxisRight.isEnabled() && this.mAxisRight.isInverted()) return true;
-        return false;
+        return this.mAdditionalYAxes.some((a) => a.axis.isEnabled() && a.axis.isInverted());
     }
 
     /**
@@ -0,0 +1,52 @@
+import { Canvas, Paint } from '@nativescript-community/ui-canvas';
+import { BoxPlotData } from '../data/BoxPlotData';
+import { BoxPlotEntry } from '../data/BoxPlotEntry';
+import { Highlight } from '../highlight/Highlight';
+import { BoxPlotHighlighter } from '../highlight/BoxPlotHighlighter';
+import { BoxPlotDataProvider } from '../interfaces/dataprovider/BoxPlotDataProvider';
+import { IBoxPlotDataSet } from '../interfaces/datasets/IBoxPlotDataSet';
+import { BoxPlotChartRenderer } from '../renderer/BoxPlotChartRenderer';
+import { BaseCustomRenderer } from '../renderer/DataRenderer';
+import { BarLineChartBase } from './BarLineChartBase';
+
+export interface CustomRenderer extends BaseCustomRenderer {
+    drawBox?: (c: Canvas, e: BoxPlotEntry, left: number, top: number, right: number, bottom: number, paint: Paint) => void;
+    drawWhiskers?: (c: Canvas, e: BoxPlotEntry, lines: number[], paint: Paint) => void;
+    drawMedian?: (c: Canvas, e: BoxPlotEntry, left: number, y: number, right: number, paint: Paint) => void;
+    drawOutlier?: (c: Canvas, e: BoxPlotEntry, x: number, y: number, paint: Paint) => void;
+    drawHighlight?: (c: Canvas, e: Highlight, set: IBoxPlotDataSet, paint: Paint) => void;
+}
+/**
+ * Statistical chart that draws box-and-whisker plots.
+ */
+export class BoxPlotChart extends BarLineChartBase<BoxPlotEntry, IBoxPlotDataSet, BoxPlotData> implements BoxPlotDataProvider {
+    protected mRenderer: BoxPlotChartRenderer;
+    protected init() {
+        super.init();
+
+        this.mRenderer = new BoxPlotChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+
+        this.setHighlighter(new BoxPlotHighlighter(this));
+
+        this.getXAxis().setSpaceMin(0.5);
+        this.getXAxis().setSpaceMax(0.5);
+    }
+
+    public getBoxPlotData() {
+        return this.mData;
+    }
+
+    protected mCustomRenderer: CustomRenderer;
+    /**
+     * set a custom box plot renderer
+     */
+    public setCustomRenderer(renderer: CustomRenderer) {
+        this.mCustomRenderer = renderer;
+    }
+    /**
+     * get the custom box plot renderer
+     */
+    public getCustomRenderer() {
+        return this.mCustomRenderer;
+    }
+}
@@ -0,0 +1,17 @@
+import { BarChart } from './BarChart';
+
+/**
+ * Chart drawing vertical bullet graphs, one per entry of its BulletDataSet
+ * objects: a performance bar over qualitative bands with a target marker.
+ * Bullets are laid out as categories along the x-axis.
+ */
+export class BulletChart extends BarChart {
+    protected init() {
+        super.init();
+
+        // one bullet per category
+        this.mXAxis.setGranularity(1);
+        this.mXAxis.setDrawGridLines(false);
+        this.setFitBars(true);
+    }
+}
@@ -0,0 +1,126 @@
+import { HeatmapChart } from './HeatmapChart';
+import { XAxisPosition } from '../components/XAxis';
+import { CalendarHeatmapDataSet } from '../data/CalendarHeatmapDataSet';
+import { CalendarHeatmapHighlighter } from '../highlight/CalendarHeatmapHighlighter';
+
+/**
+ * Contribution graph drawing daily values as a calendar: one column per week
+ * and one row per weekday. Its HeatmapData is expected to hold
+ * CalendarHeatmapDataSet objects, the first one giving the layout of the
+ * month labels drawn on the x-axis and of the weekday labels drawn on the
+ * left axis.
+ * <p/>
+ * Tapped cells are highlighted, the highlight of the tap and highlight
+ * events holding the date and the value of the day.
+ */
+export class CalendarHeatmapChart extends HeatmapChart {
+    /**
+     * labels of the months, starting with January
+     */
+    protected mMonthLabels = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+    /**
+     * labels of the weekdays, starting with Sunday
+     */
+    protected mWeekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    protected init() {
+        super.init();
+
+        this.setHighlighter(new CalendarHeatmapHighlighter(this));
+
+        // a label per week, only the weeks starting a month get one
+        const xAxis = this.mXAxis;
+        xAxis.setPosition(XAxisPosition.TOP);
+        xAxis.setDrawGridLines(false);
+        xAxis.setDrawAxisLine(false);
+        xAxis.setForcedInterval(1);
+        xAxis.setValueFormatter({
+            getAxisLabel: (value: number) => this.getMonthLabel(value)
+        });
+
+        // the first day of the week is the top row
+        const yAxis = this.mAxisLeft;
+        yAxis.setInverted(true);
+        yAxis.setDrawGridLines(false);
+        yAxis.setDrawAxisLine(false);
+        yAxis.setSpaceTop(0);
+        yAxis.setSpaceBottom(0);
+        yAxis.setForcedInterval(1);
+        yAxis.setValueFormatter({
+            getAxisLabel: (value: number) => this.getWeekdayLabel(value)
+        });
+    }
+
+    /**
+     * Returns the DataSet giving the layout of the axis labels.
+     */
+    protected getCalendarDataSet() {
+        const set = this.mData && this.mData.getDataSetByIndex(0);
+        return set instanceof CalendarHeatmapDataSet ? set : null;
+    }
+
+    /**
+     * Returns the label of the month starting in the given week, or an empty
+     * string.
+     *
+     * @param week
+     */
+    public getMonthLabel(week: number) {
+        const set = this.getCalendarDataSet();
+        const weekStart = set && set.getDateForCell(week, 0);
+        if (!weekStart) {
+            return '';
+        }
+        for (let i = 0; i < 7; i++) {
+            const day = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i);
+            if (day.getDate() === 1) {
+                return this.mMonthLabels[day.getMonth()] || '';
+            }
+        }
+        return '';
+    }
+
+    /**
+     * Returns the label of the weekday of the given row.
+     *
+     * @param row
+     */
+    public getWeekdayLabel(row: number) {
+        const set = this.getCalendarDataSet();
+        const index = Math.round(row);
+        if (!set || index < 0 || index > 6) {
+            return '';
+        }
+        return this.mWeekdayLabels[(set.getFirstDayOfWeek() + index) % 7] || '';
+    }
+
+    /**
+     * Sets the labels of the months drawn on the x-axis, starting with
+     * January.
+     *
+     * @param labels
+     */
+    public setMonthLabels(labels: string[]) {
+        this.mMonthLabels = labels;
+    }
+
+    public getMonthLabels() {
+        return this.mMonthLabels;
+    }
+
+    /**
+     * Sets the labels of the weekdays drawn on the left axis, starting with
+     * Sunday. Empty labels hide their row label, e.g.
+     * ['', 'Mon', '', 'Wed', '', 'Fri', ''].
+     *
+     * @param labels
+     */
+    public setWeekdayLabels(labels: string[]) {
+        this.mWeekdayLabels = labels;
+    }
+
+    public getWeekdayLabels() {
+        return this.mWeekdayLabels;
+    }
+}
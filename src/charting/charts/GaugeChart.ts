@@ -0,0 +1,393 @@
+import { Canvas, Paint, Path } from '@nativescript-community/ui-canvas';
+import { PieChart, CustomRenderer as PieCustomRenderer } from './PieChart';
+import { Highlight } from '../highlight/Highlight';
+import { GaugeChartRenderer } from '../renderer/GaugeChartRenderer';
+import { Utils } from '../utils/Utils';
+
+export interface CustomRenderer extends PieCustomRenderer {
+    drawNeedle?: (c: Canvas, value: number, needle: Path, paint: Paint) => void;
+}
+
+/**
+ * Gauge (speedometer) chart. The arc covers the range between the minimum and
+ * maximum value and is split into colored bands, one per entry of the PieData:
+ * the y value of an entry is the upper limit of its band, the first band starting
+ * at the minimum. The current value is shown by a needle and in the center text.
+ */
+export class GaugeChart extends PieChart {
+    mRenderer: GaugeChartRenderer;
+
+    /**
+     * the range of the gauge
+     */
+    protected mMinValue = 0;
+    protected mMaxValue = 100;
+
+    /**
+     * the value the needle points to
+     */
+    protected mValue = 0;
+
+    /**
+     * the value the needle animates from
+     */
+    protected mPreviousValue = 0;
+
+    /**
+     * width of the band ring in percent of the radius
+     */
+    protected mBandWidthPercent = 15;
+
+    /**
+     * color of the part of the arc not covered by any band, null to disable
+     */
+    protected mTrackColor: string = '#E0E0E0';
+
+    /**
+     * length of the needle in percent of the radius
+     */
+    protected mNeedleLengthPercent = 80;
+
+    /**
+     * width of the needle at its base, in dp
+     */
+    protected mNeedleWidth = 6;
+
+    protected mDrawNeedle = true;
+
+    /**
+     * number of intervals between major ticks
+     */
+    protected mMajorTickCount = 10;
+
+    /**
+     * number of minor ticks drawn between two major ticks
+     */
+    protected mMinorTickCount = 4;
+
+    /**
+     * length of the major ticks in dp, minor ticks are half as long
+     */
+    protected mTickLength = 10;
+
+    protected mDrawTicks = true;
+
+    protected mDrawTickLabels = true;
+
+    /**
+     * if true and no center text is set, the current value is drawn in the center
+     */
+    protected mDrawValueAsCenterText = true;
+
+    constructor() {
+        super();
+        // defaults need to be applied once all fields are initialized
+        this.mRotateEnabled = false;
+        this.setRotationAngle(135);
+        this.setMaxAngle(270);
+        this.setHoleRadius(100 - this.mBandWidthPercent);
+        this.setDrawEntryLabels(false);
+    }
+
+    protected init() {
+        super.init();
+
+        this.mRenderer = new GaugeChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+    }
+
+    protected getMarkerPosition(highlight: Highlight): number[] {
+        const set = this.mData.getDataSet();
+        const index = highlight.x;
+        const from = index === 0 ? this.mMinValue : set.getEntryForIndex(index - 1)[set.yProperty];
+        const to = set.getEntryForIndex(index)[set.yProperty];
+
+        const p = this.getPosition(this.getCenterCircleBox(), this.getRadius() * (1 - this.mBandWidthPercent / 200), this.getAngleForValue((from + to) / 2));
+        return [p.x, p.y];
+    }
+
+    public getIndexForAngle(angle: number) {
+        const a = Utils.getNormalizedAngle(angle - this.getRotationAngle());
+        if (a > this.mMaxAngle || this.mData == null) {
+            return -1;
+        }
+        const value = this.mMinValue + (a / this.mMaxAngle) * (this.mMaxValue - this.mMinValue);
+
+        const set = this.mData.getDataSet();
+        for (let i = 0; i < set.getEntryCount(); i++) {
+            if (set.getEntryForIndex(i)[set.yProperty] >= value) {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+
+    /**
+     * Returns the absolute angle (in degrees) at which the given value is
+     * drawn on the arc. Values outside of the range are clamped.
+     *
+     * @param value
+     * @return
+     */
+    public getAngleForValue(value: number) {
+        const range = this.mMaxValue - this.mMinValue;
+        const fraction = range === 0 ? 0 : Math.min(1, Math.max(0, (value - this.mMinValue) / range));
+        return this.getRotationAngle() + fraction * this.mMaxAngle;
+    }
+
+    /**
+     * Sets the range of the gauge.
+     * Default: 0, 100
+     *
+     * @param min
+     * @param max
+     */
+    public setRange(min: number, max: number) {
+        this.mMinValue = min;
+        this.mMaxValue = max;
+    }
+
+    public getMinValue() {
+        return this.mMinValue;
+    }
+
+    public getMaxValue() {
+        return this.mMaxValue;
+    }
+
+    /**
+     * Sets the value the needle points to. If a duration is given, the needle
+     * is animated from its current position through the ChartAnimator.
+     *
+     * @param value
+     * @param durationMillis
+     */
+    public setValue(value: number, durationMillis = 0) {
+        this.mPreviousValue = this.getAnimatedValue();
+        this.mValue = value;
+        if (durationMillis > 0) {
+            this.mAnimator.animateY(durationMillis);
+        } else {
+            this.invalidate();
+        }
+    }
+
+    public getValue() {
+        return this.mValue;
+    }
+
+    /**
+     * Returns the value the needle currently points to, taking the running
+     * animation into account.
+     *
+     * @return
+     */
+    public getAnimatedValue() {
+        return this.mPreviousValue + (this.mValue - this.mPreviousValue) * this.mAnimator.getPhaseY();
+    }
+
+    /**
+     * Returns the center text, or the current value if no center text is set
+     * and drawing the value as center text is enabled.
+     *
+     * @return
+     */
+    public getCenterText() {
+        const centerText = super.getCenterText();
+        if (centerText || !this.mDrawValueAsCenterText || this.mData == null) {
+            return centerText;
+        }
+        return this.mData.getDataSet().getValueFormatter().getFormattedValue(this.getAnimatedValue());
+    }
+
+    /**
+     * If enabled and no center text is set, the current value is drawn in the
+     * center of the gauge.
+     * Default: true
+     *
+     * @param enabled
+     */
+    public setDrawValueAsCenterText(enabled: boolean) {
+        this.mDrawValueAsCenterText = enabled;
+    }
+
+    public isDrawValueAsCenterTextEnabled() {
+        return this.mDrawValueAsCenterText;
+    }
+
+    /**
+     * Sets the width of the band ring in percent of the radius.
+     * Default: 15
+     *
+     * @param percent
+     */
+    public setBandWidthPercent(percent: number) {
+        this.mBandWidthPercent = Math.min(100, Math.max(0, percent));
+        this.setHoleRadius(100 - this.mBandWidthPercent);
+    }
+
+    public getBandWidthPercent() {
+        return this.mBandWidthPercent;
+    }
+
+    /**
+     * Sets the color of the part of the arc that is not covered by a band.
+     * Set to null to disable it.
+     *
+     * @param color
+     */
+    public setTrackColor(color: string) {
+        this.mTrackColor = color;
+    }
+
+    public getTrackColor() {
+        return this.mTrackColor;
+    }
+
+    /**
+     * Enables / disables drawing the needle.
+     * Default: true
+     *
+     * @param enabled
+     */
+    public setDrawNeedle(enabled: boolean) {
+        this.mDrawNeedle = enabled;
+    }
+
+    public isDrawNeedleEnabled() {
+        return this.mDrawNeedle;
+    }
+
+    /**
+     * Sets the color of the needle.
+     *
+     * @param color
+     */
+    public setNeedleColor(color) {
+        this.mRenderer.needlePaint.setColor(color);
+    }
+
+    /**
+     * Sets the length of the needle in percent of the radius.
+     * Default: 80
+     *
+     * @param percent
+     */
+    public setNeedleLengthPercent(percent: number) {
+        this.mNeedleLengthPercent = percent;
+    }
+
+    public getNeedleLengthPercent() {
+        return this.mNeedleLengthPercent;
+    }
+
+    /**
+     * Sets the width of the needle at its base, in dp.
+     * Default: 6
+     *
+     * @param width
+     */
+    public setNeedleWidth(width: number) {
+        this.mNeedleWidth = width;
+    }
+
+    public getNeedleWidth() {
+        return this.mNeedleWidth;
+    }
+
+    /**
+     * Sets the number of intervals between the major ticks, and the number
+     * of minor ticks drawn between two major ticks.
+     * Default: 10, 4
+     *
+     * @param major
+     * @param minor
+     */
+    public setTickCount(major: number, minor: number) {
+        this.mMajorTickCount = Math.max(1, Math.round(major));
+        this.mMinorTickCount = Math.max(0, Math.round(minor));
+    }
+
+    public getMajorTickCount() {
+        return this.mMajorTickCount;
+    }
+
+    public getMinorTickCount() {
+        return this.mMinorTickCount;
+    }
+
+    /**
+     * Sets the length of the major ticks in dp, minor ticks are half as long.
+     * Default: 10
+     *
+     * @param length
+     */
+    public setTickLength(length: number) {
+        this.mTickLength = length;
+    }
+
+    public getTickLength() {
+        return this.mTickLength;
+    }
+
+    /**
+     * Enables / disables drawing the tick marks.
+     * Default: true
+     *
+     * @param enabled
+     */
+    public setDrawTicks(enabled: boolean) {
+        this.mDrawTicks = enabled;
+    }
+
+    public isDrawTicksEnabled() {
+        return this.mDrawTicks;
+    }
+
+    /**
+     * Enables / disables drawing the labels of the major ticks.
+     * Default: true
+     *
+     * @param enabled
+     */
+    public setDrawTickLabels(enabled: boolean) {
+        this.mDrawTickLabels = enabled;
+    }
+
+    public isDrawTickLabelsEnabled() {
+        return this.mDrawTickLabels;
+    }
+
+    /**
+     * Sets the color of the tick marks and their labels.
+     *
+     * @param color
+     */
+    public setTickColor(color) {
+        this.mRenderer.tickPaint.setColor(color);
+        this.mRenderer.tickLabelPaint.setColor(color);
+    }
+
+    /**
+     * Sets the size of the tick labels in dp.
+     *
+     * @param size
+     */
+    public setTickLabelTextSize(size: number) {
+        this.mRenderer.tickLabelPaint.setTextSize(size);
+    }
+
+    mCustomRenderer: CustomRenderer;
+    /**
+     * set a custom gauge renderer
+     */
+    public setCustomRenderer(renderer: CustomRenderer) {
+        this.mCustomRenderer = renderer;
+    }
+    /**
+     * get the custom gauge renderer
+     */
+    public getCustomRenderer() {
+        return this.mCustomRenderer;
+    }
+}
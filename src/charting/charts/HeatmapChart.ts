@@ -0,0 +1,49 @@
+import { Canvas, Paint } from '@nativescript-community/ui-canvas';
+import { HeatmapData } from '../data/HeatmapData';
+import { HeatmapEntry } from '../data/HeatmapEntry';
+import { Highlight } from '../highlight/Highlight';
+import { HeatmapHighlighter } from '../highlight/HeatmapHighlighter';
+import { HeatmapDataProvider } from '../interfaces/dataprovider/HeatmapDataProvider';
+import { IHeatmapDataSet } from '../interfaces/datasets/IHeatmapDataSet';
+import { BaseCustomRenderer } from '../renderer/DataRenderer';
+import { HeatmapChartRenderer } from '../renderer/HeatmapChartRenderer';
+import { BarLineChartBase } from './BarLineChartBase';
+
+export interface CustomRenderer extends BaseCustomRenderer {
+    drawCell?: (c: Canvas, e: HeatmapEntry, dataSet: IHeatmapDataSet, left: number, top: number, right: number, bottom: number, paint: Paint) => void;
+    drawHighlight?: (c: Canvas, e: Highlight, left: number, top: number, right: number, bottom: number, paint: Paint) => void;
+}
+
+/**
+ * The HeatmapChart. Draws a matrix of cells colored by their value through a
+ * color scale.
+ */
+export class HeatmapChart extends BarLineChartBase<HeatmapEntry, IHeatmapDataSet, HeatmapData> implements HeatmapDataProvider {
+    protected mRenderer: HeatmapChartRenderer;
+
+    protected init() {
+        super.init();
+
+        this.mRenderer = new HeatmapChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+
+        this.setHighlighter(new HeatmapHighlighter(this));
+    }
+
+    public getHeatmapData() {
+        return this.mData;
+    }
+
+    protected mCustomRenderer: CustomRenderer;
+    /**
+     * set a custom cell renderer
+     */
+    public setCustomRenderer(renderer: CustomRenderer) {
+        this.mCustomRenderer = renderer;
+    }
+    /**
+     * get the custom cell renderer
+     */
+    public getCustomRenderer() {
+        return this.mCustomRenderer;
+    }
+}
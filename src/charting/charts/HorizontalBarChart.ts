@@ -1,5 +1,5 @@
 import { BarChart } from './BarChart';
-import { AxisDependency } from '../components/YAxis';
+import { AxisDependency, YAxis } from '../components/YAxis';
 import { XAxisPosition } from '../components/XAxis';
 import { BarData } from '../data/BarData';
 import { BarEntry } from '../data/BarEntry';
@@ -12,6 +12,7 @@ import { HorizontalBarChartRenderer } from '../renderer/HorizontalBarChartRender
 import { YAxisRendererHorizontalBarChart } from '../renderer/YAxisRendererHorizontalBarChart';
 import { XAxisRendererHorizontalBarChart } from '../renderer/XAxisRendererHorizontalBarChart';
 import { HorizontalViewPortHandler } from '../utils/HorizontalViewPortHandler';
+import { Transformer } from '../utils/Transformer';
 import { TransformerHorizontalBarChart } from '../utils/TransformerHorizontalBarChart';
 import { CLog, CLogTypes, Utils } from '../utils/Utils';
 import { RectF } from '@nativescript-community/ui-canvas';
@@ -53,14 +54,31 @@ export class HorizontalBarChart extends BarChart {
         let offsetRight = offsetBuffer.right;
         let offsetBottom = offsetBuffer.bottom;
 
-        // offsets for y-labels
+        // offsets for y-labels, additional axes being stacked outside of the top and bottom ones
+        let stackTop = 0;
+        let stackBottom = 0;
         if (this.mAxisLeft && this.mAxisLeft.needsOffset()) {
-            offsetTop += this.mAxisLeft.getRequiredHeightSpace(this.mAxisRendererLeft.axisLabelsPaint);
+            stackTop += this.mAxisLeft.getRequiredHeightSpace(this.mAxisRendererLeft.axisLabelsPaint);
         }
 
         if (this.mAxisRight && this.mAxisRight.needsOffset()) {
-            offsetBottom += this.mAxisRight.getRequiredHeightSpace(this.mAxisRendererRight.axisLabelsPaint);
+            stackBottom += this.mAxisRight.getRequiredHeightSpace(this.mAxisRendererRight.axisLabelsPaint);
         }
+        for (const a of this.mAdditionalYAxes) {
+            if (!a.axis.needsOffset()) {
+                continue;
+            }
+            const height = a.axis.getRequiredHeightSpace(a.renderer.axisLabelsPaint);
+            if (a.axis.getAxisDependency() === AxisDependency.LEFT) {
+                a.axis.setStackOffset(stackTop);
+                stackTop += height;
+            } else {
+                a.axis.setStackOffset(stackBottom);
+                stackBottom += height;
+            }
+        }
+        offsetTop += stackTop;
+        offsetBottom += stackBottom;
 
         const xlabelWidth = this.mXAxis.mLabelRotatedWidth;
 
@@ -96,13 +114,29 @@ export class HorizontalBarChart extends BarChart {
 
     protected prepareValuePxMatrix() {
         if (this.mAxisRight && this.mAxisRight.isEnabled()) {
-            this.mRightAxisTransformer.prepareMatrixValuePx(this.mAxisRight.mAxisMinimum, this.mAxisRight.mAxisRange, this.mXAxis.mAxisRange, this.mXAxis.mAxisMinimum);
+            this.mRightAxisTransformer.setScaleAxes(this.mAxisRight, this.mXAxis);
+            this.mRightAxisTransformer.prepareMatrixValuePx(this.mAxisRight.getScaledMinimum(), this.mAxisRight.getScaledRange(), this.mXAxis.getScaledRange(), this.mXAxis.getScaledMinimum());
         }
         if (this.mAxisLeft.isEnabled()) {
-            this.mLeftAxisTransformer.prepareMatrixValuePx(this.mAxisLeft.mAxisMinimum, this.mAxisLeft.mAxisRange, this.mXAxis.mAxisRange, this.mXAxis.mAxisMinimum);
+            this.mLeftAxisTransformer.setScaleAxes(this.mAxisLeft, this.mXAxis);
+            this.mLeftAxisTransformer.prepareMatrixValuePx(this.mAxisLeft.getScaledMinimum(), this.mAxisLeft.getScaledRange(), this.mXAxis.getScaledRange(), this.mXAxis.getScaledMinimum());
+        }
+        for (const a of this.mAdditionalYAxes) {
+            if (a.axis.isEnabled()) {
+                a.transformer.setScaleAxes(a.axis, this.mXAxis);
+                a.transformer.prepareMatrixValuePx(a.axis.getScaledMinimum(), a.axis.getScaledRange(), this.mXAxis.getScaledRange(), this.mXAxis.getScaledMinimum());
+            }
         }
     }
 
+    protected createYAxisTransformer() {
+        return new TransformerHorizontalBarChart(this.mViewPortHandler);
+    }
+
+    protected createYAxisRenderer(axis: YAxis, transformer: Transformer) {
+        return new YAxisRendererHorizontalBarChart(this.mViewPortHandler, axis, transformer);
+    }
+
     protected getMarkerPosition(high: Highlight) {
         return [high.drawY, high.drawX];
     }
@@ -203,18 +237,18 @@ export class HorizontalBarChart extends BarChart {
      */
 
     public setVisibleXRangeMaximum(maxXRange) {
-        const xScale = this.mXAxis.mAxisRange / maxXRange;
+        const xScale = this.mXAxis.getScaledRange() / maxXRange;
         this.mViewPortHandler.setMinimumScaleY(xScale);
     }
 
     public setVisibleXRangeMinimum(minXRange) {
-        const xScale = this.mXAxis.mAxisRange / minXRange;
+        const xScale = this.mXAxis.getScaledRange() / minXRange;
         this.mViewPortHandler.setMaximumScaleY(xScale);
     }
 
     public setVisibleXRange(minXRange, maxXRange) {
-        const minScale = this.mXAxis.mAxisRange / minXRange;
-        const maxScale = this.mXAxis.mAxisRange / maxXRange;
+        const minScale = this.mXAxis.getScaledRange() / minXRange;
+        const maxScale = this.mXAxis.getScaledRange() / maxXRange;
         this.mViewPortHandler.setMinMaxScaleY(minScale, maxScale);
     }
 
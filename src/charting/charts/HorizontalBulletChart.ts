@@ -0,0 +1,17 @@
+import { HorizontalBarChart } from './HorizontalBarChart';
+
+/**
+ * Chart drawing horizontal bullet graphs, one per entry of its BulletDataSet
+ * objects: a performance bar over qualitative bands with a target marker.
+ * Bullets are stacked as categories along the vertical x-axis.
+ */
+export class HorizontalBulletChart extends HorizontalBarChart {
+    protected init() {
+        super.init();
+
+        // one bullet per category
+        this.mXAxis.setGranularity(1);
+        this.mXAxis.setDrawGridLines(false);
+        this.setFitBars(true);
+    }
+}
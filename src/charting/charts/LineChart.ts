@@ -3,12 +3,15 @@ import { Entry } from '../data/Entry';
 import { LineData } from '../data/LineData';
 import { LineDataSet } from '../data/LineDataSet';
 import { Highlight } from '../highlight/Highlight';
+import { LineHighlighter } from '../highlight/LineHighlighter';
 import { LineDataProvider } from '../interfaces/dataprovider/LineDataProvider';
 import { BaseCustomRenderer } from '../renderer/DataRenderer';
+import { ErrorBarCustomRenderer } from '../renderer/BarLineScatterCandleBubbleRenderer';
+import { TrendlineCustomRenderer } from '../renderer/LineScatterCandleRadarRenderer';
 import { LineChartRenderer } from '../renderer/LineChartRenderer';
 import { BarLineChartBase } from './BarLineChartBase';
 
-export interface CustomRenderer extends BaseCustomRenderer {
+export interface CustomRenderer extends BaseCustomRenderer, ErrorBarCustomRenderer, TrendlineCustomRenderer {
     drawLine?: (c: Canvas, line: Path, paint: Paint) => void;
     drawHighlight?: (c: Canvas, e: Highlight, set: LineDataSet, paint: Paint) => void;
 }
@@ -19,6 +22,8 @@ export class LineChart extends BarLineChartBase<Entry, LineDataSet, LineData> im
         super.init();
 
         this.mRenderer = new LineChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+
+        this.setHighlighter(new LineHighlighter(this));
     }
 
     public getLineData() {
@@ -1,4 +1,4 @@
-import { Canvas, Paint } from '@nativescript-community/ui-canvas';
+import { Canvas, Paint, Path } from '@nativescript-community/ui-canvas';
 import { Color, Trace } from '@nativescript/core';
 import { PieRadarChartBase } from './PieRadarChartBase';
 import { AxisDependency, YAxis } from '../components/YAxis';
@@ -17,6 +17,29 @@ const LOG_TAG = 'RadarChart';
 export interface CustomRenderer extends BaseCustomRenderer {
     drawRadar?: (c: Canvas, e: Entry, left: number, top: number, right: number, bottom: number, paint: Paint) => void;
     drawHighlight?: (c: Canvas, e: Highlight, left: number, top: number, right: number, bottom: number, paint: Paint) => void;
+    drawWedge?: (c: Canvas, e: Entry, path: Path, paint: Paint) => void;
+}
+
+/**
+ * enum for the shape of the inner web and of the limit lines
+ */
+export enum RadarWebShape {
+    POLYGON,
+    CIRCLE
+}
+
+/**
+ * enum for the way the DataSets are drawn
+ */
+export enum RadarChartMode {
+    /**
+     * a polygon joining the values of the entries
+     */
+    RADAR,
+    /**
+     * a wedge per entry whose radius is the value (Nightingale rose)
+     */
+    POLAR_AREA
 }
 /**
  * Implementation of the RadarChart, a "spidernet"-like chart. It works best
@@ -56,6 +79,16 @@ export class RadarChart extends PieRadarChartBase<Entry, RadarDataSet, RadarData
      */
     private mDrawWeb = true;
 
+    /**
+     * shape of the inner web and of the limit lines
+     */
+    private mWebShape = RadarWebShape.POLYGON;
+
+    /**
+     * the way the DataSets are drawn
+     */
+    private mChartMode = RadarChartMode.RADAR;
+
     /**
      * modulus that determines how many labels and web-lines are skipped before the next is drawn
      */
@@ -285,6 +318,36 @@ export class RadarChart extends PieRadarChartBase<Entry, RadarDataSet, RadarData
         this.mDrawWeb = enabled;
     }
 
+    /**
+     * Sets the shape of the inner web and of the limit lines: polygons
+     * joining the web lines or circles. Default: POLYGON
+     *
+     * @param shape
+     */
+    public setWebShape(shape: RadarWebShape) {
+        this.mWebShape = shape;
+    }
+
+    public getWebShape() {
+        return this.mWebShape;
+    }
+
+    /**
+     * Sets the way the DataSets are drawn. In POLAR_AREA mode each entry is a
+     * wedge centered on its web line and filled with the DataSet color of
+     * the entry, the web lines being drawn between the wedges.
+     * Default: RADAR
+     *
+     * @param mode
+     */
+    public setChartMode(mode: RadarChartMode) {
+        this.mChartMode = mode;
+    }
+
+    public getChartMode() {
+        return this.mChartMode;
+    }
+
     /**
      * Sets the number of web-lines that should be skipped on chart web before the
      * next one is drawn. This targets the lines that come from the center of the RadarChart.
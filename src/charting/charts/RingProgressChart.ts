@@ -0,0 +1,286 @@
+import { Canvas, Paint, RectF } from '@nativescript-community/ui-canvas';
+import { Color, Trace } from '@nativescript/core';
+import { PieRadarChartBase } from './PieRadarChartBase';
+import { Entry } from '../data/Entry';
+import { RingProgressData } from '../data/RingProgressData';
+import { RingProgressDataSet } from '../data/RingProgressDataSet';
+import { Highlight } from '../highlight/Highlight';
+import { RingProgressHighlighter } from '../highlight/RingProgressHighlighter';
+import { BaseCustomRenderer } from '../renderer/DataRenderer';
+import { RingProgressChartRenderer } from '../renderer/RingProgressChartRenderer';
+import { CLog, CLogTypes } from '../utils/Utils';
+
+const LOG_TAG = 'RingProgressChart';
+
+export interface CustomRenderer extends BaseCustomRenderer {
+    drawRing?: (c: Canvas, e: Entry, box: RectF, startAngle: number, sweepAngle: number, paint: Paint) => void;
+    drawHighlight?: (c: Canvas, e: Highlight, box: RectF, paint: Paint) => void;
+}
+
+/**
+ * Activity rings style chart drawing the progress of each DataSet as a
+ * concentric ring, the first DataSet being the outer ring. Progress over 100%
+ * wraps around the ring, the tip of the overflow lap casting a shadow on the
+ * lap below it.
+ * <p/>
+ * The progress is drawn scaled by the y phase of the ChartAnimator, use
+ * animateY() to animate it.
+ */
+export class RingProgressChart extends PieRadarChartBase<Entry, RingProgressDataSet, RingProgressData> {
+    mRenderer: RingProgressChartRenderer;
+
+    /**
+     * radius of the empty center in percent of the chart radius
+     */
+    protected mHoleRadiusPercent = 30;
+
+    /**
+     * space between two rings, in dp
+     */
+    protected mRingSpacing = 4;
+
+    protected mDrawRoundCaps = true;
+
+    protected mDrawTrack = true;
+
+    protected mDrawOverflowShadow = true;
+
+    protected mOverflowShadowColor: string | Color = '#80000000';
+
+    /**
+     * blur radius of the overflow shadow, in dp
+     */
+    protected mOverflowShadowRadius = 6;
+
+    // for performance tracking
+    private totalTime = 0;
+    private drawCycles = 0;
+
+    constructor() {
+        super();
+        // defaults need to be applied once all fields are initialized
+        this.mRotateEnabled = false;
+        this.setRotationAngle(270);
+    }
+
+    protected init() {
+        super.init();
+
+        this.mRenderer = new RingProgressChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+        this.mXAxis.setEnabled(false);
+
+        this.mHighlighter = new RingProgressHighlighter(this);
+    }
+
+    public onDraw(canvas: Canvas) {
+        const startTime = Date.now();
+        super.onDraw(canvas);
+
+        if (this.mData == null) {
+            return;
+        }
+
+        this.mRenderer.drawData(canvas);
+
+        if (this.valuesToHighlight()) {
+            this.mRenderer.drawHighlighted(canvas, this.mIndicesToHighlight);
+        }
+
+        this.mRenderer.drawExtras(canvas);
+
+        this.mRenderer.drawValues(canvas);
+
+        if (this.mLegendRenderer) {
+            this.mLegendRenderer.renderLegend(canvas);
+        }
+
+        this.drawDescription(canvas);
+        this.drawMarkers(canvas);
+        this.notify({ eventName: 'drawn', object: this });
+        if (Trace.isEnabled()) {
+            const drawtime = Date.now() - startTime;
+            this.totalTime += drawtime;
+            this.drawCycles += 1;
+            const average = this.totalTime / this.drawCycles;
+            CLog(CLogTypes.log, LOG_TAG, 'Drawtime: ' + drawtime + ' ms, average: ' + average + ' ms, cycles: ' + this.drawCycles);
+        }
+    }
+
+    /**
+     * Returns the thickness of the rings in pixels, all rings sharing the
+     * space between the hole and the outer radius.
+     *
+     * @return
+     */
+    public getRingThickness() {
+        const count = this.mData == null ? 0 : this.mData.getDataSetCount();
+        if (count === 0) {
+            return 0;
+        }
+        const radius = this.getRadius();
+        const available = radius - (radius * this.mHoleRadiusPercent) / 100 - this.mRingSpacing * (count - 1);
+        return Math.max(0, available / count);
+    }
+
+    /**
+     * Returns the outer and inner radius of the ring of the DataSet at the
+     * given index.
+     *
+     * @param index
+     * @return
+     */
+    public getRingRadii(index: number) {
+        const thickness = this.getRingThickness();
+        const outer = this.getRadius() - index * (thickness + this.mRingSpacing);
+        return { outer, inner: outer - thickness };
+    }
+
+    /**
+     * Returns the index of the ring at the given distance from the center,
+     * -1 if there is none.
+     *
+     * @param dist
+     * @return
+     */
+    public getRingIndexForDistance(dist: number) {
+        const count = this.mData == null ? 0 : this.mData.getDataSetCount();
+        for (let i = 0; i < count; i++) {
+            const radii = this.getRingRadii(i);
+            if (dist <= radii.outer && dist >= radii.inner) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Rings are not divided into slices, the entry of a ring being picked by
+     * the highlighter from its distance to the center.
+     *
+     * @param angle
+     */
+    public getIndexForAngle(angle: number) {
+        return 0;
+    }
+
+    /**
+     * Sets the radius of the empty center in percent of the chart radius.
+     * Default: 30
+     *
+     * @param percent
+     */
+    public setHoleRadius(percent: number) {
+        this.mHoleRadiusPercent = percent;
+    }
+
+    public getHoleRadius() {
+        return this.mHoleRadiusPercent;
+    }
+
+    /**
+     * Sets the space between two rings, in dp. Default: 4
+     *
+     * @param spacing
+     */
+    public setRingSpacing(spacing: number) {
+        this.mRingSpacing = Math.max(0, spacing);
+    }
+
+    public getRingSpacing() {
+        return this.mRingSpacing;
+    }
+
+    /**
+     * If true, the ends of the progress arcs are rounded. Default: true
+     *
+     * @param enabled
+     */
+    public setDrawRoundCaps(enabled: boolean) {
+        this.mDrawRoundCaps = enabled;
+    }
+
+    public isDrawRoundCapsEnabled() {
+        return this.mDrawRoundCaps;
+    }
+
+    /**
+     * If true, the track of each ring is drawn behind its progress.
+     * Default: true
+     *
+     * @param enabled
+     */
+    public setDrawTrack(enabled: boolean) {
+        this.mDrawTrack = enabled;
+    }
+
+    public isDrawTrackEnabled() {
+        return this.mDrawTrack;
+    }
+
+    /**
+     * If true, the tip of a progress over 100% casts a shadow on the lap
+     * below it. Default: true
+     *
+     * @param enabled
+     */
+    public setDrawOverflowShadow(enabled: boolean) {
+        this.mDrawOverflowShadow = enabled;
+    }
+
+    public isDrawOverflowShadowEnabled() {
+        return this.mDrawOverflowShadow;
+    }
+
+    /**
+     * Sets the color of the overflow shadow. Default: '#80000000'
+     *
+     * @param color
+     */
+    public setOverflowShadowColor(color: string | Color) {
+        this.mOverflowShadowColor = color;
+    }
+
+    public getOverflowShadowColor() {
+        return this.mOverflowShadowColor;
+    }
+
+    /**
+     * Sets the blur radius of the overflow shadow, in dp. Default: 6
+     *
+     * @param radius
+     */
+    public setOverflowShadowRadius(radius: number) {
+        this.mOverflowShadowRadius = radius;
+    }
+
+    public getOverflowShadowRadius() {
+        return this.mOverflowShadowRadius;
+    }
+
+    protected getRequiredLegendOffset() {
+        return this.mLegendRenderer.labelPaint.getTextSize() * 2;
+    }
+
+    protected getRequiredBaseOffset() {
+        return 0;
+    }
+
+    public getRadius() {
+        const content = this.mViewPortHandler.getContentRect();
+        return Math.min(content.width() / 2, content.height() / 2);
+    }
+
+    mCustomRenderer: CustomRenderer;
+    /**
+     * set a custom ring renderer
+     */
+    public setCustomRenderer(renderer: CustomRenderer) {
+        this.mCustomRenderer = renderer;
+    }
+    /**
+     * get the custom ring renderer
+     */
+    public getCustomRenderer() {
+        return this.mCustomRenderer;
+    }
+}
@@ -9,8 +9,10 @@ import { Canvas, Paint } from '@nativescript-community/ui-canvas';
 import { Highlight } from '../highlight/Highlight';
 import { ViewPortHandler } from '../utils/ViewPortHandler';
 import { BaseCustomRenderer } from '../renderer/DataRenderer';
+import { ErrorBarCustomRenderer } from '../renderer/BarLineScatterCandleBubbleRenderer';
+import { TrendlineCustomRenderer } from '../renderer/LineScatterCandleRadarRenderer';
 
-export interface CustomRenderer extends BaseCustomRenderer {
+export interface CustomRenderer extends BaseCustomRenderer, ErrorBarCustomRenderer, TrendlineCustomRenderer {
     drawShape?: (c: Canvas, e: Entry, dataSet: IScatterDataSet, viewPortHandler: ViewPortHandler, x: number, y: number, paint: Paint) => void;
     drawHighlight?: (c: Canvas, e: Highlight, set: IScatterDataSet, paint: Paint) => void;
 }
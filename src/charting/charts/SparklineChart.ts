@@ -0,0 +1,466 @@
+import { Canvas, Paint, RectF } from '@nativescript-community/ui-canvas';
+import { Color, Trace } from '@nativescript/core';
+import { AxisId } from '../components/YAxis';
+import { Entry } from '../data/Entry';
+import { LineData } from '../data/LineData';
+import { LineDataSet } from '../data/LineDataSet';
+import { LineDataProvider } from '../interfaces/dataprovider/LineDataProvider';
+import { ILineDataSet } from '../interfaces/datasets/ILineDataSet';
+import { SparklineChartRenderer } from '../renderer/SparklineChartRenderer';
+import { Transformer } from '../utils/Transformer';
+import { CLog, CLogTypes } from '../utils/Utils';
+import { Chart } from './Chart';
+import { CustomRenderer as LineCustomRenderer } from './LineChart';
+
+const LOG_TAG = 'SparklineChart';
+
+/**
+ * enum for the way the DataSets of a sparkline are drawn
+ */
+export enum SparklineVariant {
+    LINE,
+    /**
+     * line filled down to the baseline
+     */
+    AREA,
+    /**
+     * one bar per entry, from 0 to its value
+     */
+    BAR,
+    /**
+     * one bar of equal height per entry, up for positive values and down for
+     * negative ones, nothing for 0
+     */
+    WIN_LOSS
+}
+
+/**
+ * enum for the entries of a DataSet that can be marked with a dot
+ */
+export enum SparklineMarker {
+    MIN,
+    MAX,
+    LAST
+}
+
+export interface CustomRenderer extends LineCustomRenderer {
+    drawBar?: (c: Canvas, e: Entry, rect: RectF, paint: Paint) => void;
+    drawPointMarker?: (c: Canvas, e: Entry, marker: SparklineMarker, x: number, y: number, radius: number, paint: Paint) => void;
+    drawReferenceBand?: (c: Canvas, rect: RectF, paint: Paint) => void;
+}
+
+/**
+ * Minimal chart drawing small trend lines, meant to be created by the dozen
+ * in list rows. Unlike the LineChart it has no axis, legend, description or
+ * touch handling: the whole LineData is always fitted into the view.
+ */
+export class SparklineChart extends Chart<Entry, LineDataSet, LineData> implements LineDataProvider {
+    mRenderer: SparklineChartRenderer;
+
+    protected mTransformer: Transformer;
+
+    protected mVariant = SparklineVariant.LINE;
+
+    /**
+     * the y range the data is fitted in
+     */
+    protected mYChartMin = 0;
+    protected mYChartMax = 0;
+
+    /**
+     * width of the bars relative to the distance between two entries
+     */
+    protected mBarWidthRatio = 0.8;
+
+    /**
+     * color of the bars of negative values, null to use the DataSet colors
+     */
+    protected mNegativeColor: string | Color = 'red';
+
+    protected mDrawMinMarker = false;
+    protected mDrawMaxMarker = false;
+    protected mDrawLastMarker = false;
+
+    protected mMinMarkerColor: string | Color = 'red';
+    protected mMaxMarkerColor: string | Color = 'green';
+
+    /**
+     * color of the last point marker, null to use the DataSet color
+     */
+    protected mLastMarkerColor: string | Color = null;
+
+    protected mMarkerRadius = 2;
+
+    /**
+     * range of y values highlighted behind the data, null to disable
+     */
+    protected mReferenceBandLow: number = null;
+    protected mReferenceBandHigh: number = null;
+
+    /**
+     * minimum padding around the data, so that the markers are not clipped
+     */
+    protected mMinOffset = 3;
+
+    protected init() {
+        super.init();
+
+        this.mTransformer = new Transformer(this.mViewPortHandler);
+
+        this.mRenderer = new SparklineChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+    }
+
+    public onDraw(canvas: Canvas) {
+        super.onDraw(canvas);
+        this.noComputeOnNextDraw = false;
+        if (this.mData === null) return;
+
+        this.mRenderer.drawData(canvas);
+
+        if (this.valuesToHighlight()) {
+            this.mRenderer.drawHighlighted(canvas, this.mIndicesToHighlight);
+        }
+
+        this.mRenderer.drawExtras(canvas);
+    }
+
+    public notifyDataSetChanged() {
+        if (this.mData == null || !this.mViewPortHandler.hasChartDimens()) {
+            if (Trace.isEnabled()) {
+                CLog(CLogTypes.info, LOG_TAG, 'Preparing... DATA NOT SET OR NOT SIZED YET.');
+            }
+            return;
+        }
+
+        this.mRenderer.initBuffers();
+
+        this.calcMinMax();
+
+        this.calculateOffsets();
+        this.invalidate();
+    }
+
+    protected calcMinMax() {
+        const data = this.mData;
+
+        // bars need half a bar of room on both sides
+        let xSpace = 0;
+        if (this.isBarVariant()) {
+            for (const set of data.getDataSets()) {
+                xSpace = Math.max(xSpace, this.getBarWidth(set) / 2);
+            }
+        }
+        this.mXAxis.calculate(data.getXMin() - xSpace, data.getXMax() + xSpace);
+
+        let min: number;
+        let max: number;
+        if (this.mVariant === SparklineVariant.WIN_LOSS) {
+            min = -1;
+            max = 1;
+        } else {
+            min = data.getYMin();
+            max = data.getYMax();
+            if (this.mVariant === SparklineVariant.BAR) {
+                // bars start at 0
+                min = Math.min(min, 0);
+                max = Math.max(max, 0);
+            }
+            if (this.mReferenceBandLow !== null && this.mReferenceBandHigh !== null) {
+                min = Math.min(min, this.mReferenceBandLow);
+                max = Math.max(max, this.mReferenceBandHigh);
+            }
+            if (!Number.isFinite(min) || !Number.isFinite(max)) {
+                min = 0;
+                max = 0;
+            }
+            // in case all values are equal
+            if (min === max) {
+                min -= 1;
+                max += 1;
+            }
+        }
+        this.mYChartMin = min;
+        this.mYChartMax = max;
+    }
+
+    public calculateOffsets(force = true) {
+        if (this.mOffsetsCalculated && !force) {
+            return;
+        }
+        this.mOffsetsCalculated = true;
+
+        const minOffset = Math.max(this.mMinOffset, this.mMarkerRadius + 1);
+        this.mViewPortHandler.restrainViewPort(
+            minOffset + this.getExtraLeftOffset(),
+            minOffset + this.getExtraTopOffset(),
+            minOffset + this.getExtraRightOffset(),
+            minOffset + this.getExtraBottomOffset()
+        );
+
+        this.mTransformer.prepareMatrixOffset(false);
+        this.mTransformer.prepareMatrixValuePx(this.mXAxis.mAxisMinimum, this.mXAxis.mAxisRange, this.mYChartMax - this.mYChartMin, this.mYChartMin);
+    }
+
+    /**
+     * Returns the Transformer of the chart. Sparklines have a single scale
+     * shared by both axis dependencies.
+     *
+     * @return
+     */
+    public getTransformer(which?: AxisId) {
+        return this.mTransformer;
+    }
+
+    /**
+     * Sparklines have no axis.
+     */
+    public getAxis(dependency: AxisId) {
+        return null;
+    }
+
+    public isInverted(axis: AxisId) {
+        return false;
+    }
+
+    public getLowestVisibleX() {
+        return this.getXChartMin();
+    }
+
+    public getHighestVisibleX() {
+        return this.getXChartMax();
+    }
+
+    public getYChartMin() {
+        return this.mYChartMin;
+    }
+
+    public getYChartMax() {
+        return this.mYChartMax;
+    }
+
+    /**
+     * Sparklines never draw values.
+     */
+    public getMaxVisibleCount() {
+        return 0;
+    }
+
+    public getLineData() {
+        return this.mData;
+    }
+
+    /**
+     * Sets the way the DataSets are drawn.
+     * Default: LINE
+     *
+     * @param variant
+     */
+    public setVariant(variant: SparklineVariant) {
+        this.mVariant = variant;
+        this.notifyDataSetChanged();
+    }
+
+    public getVariant() {
+        return this.mVariant;
+    }
+
+    /**
+     * Returns true if the DataSets are drawn as bars.
+     */
+    public isBarVariant() {
+        return this.mVariant === SparklineVariant.BAR || this.mVariant === SparklineVariant.WIN_LOSS;
+    }
+
+    /**
+     * Sets the width of the bars relative to the distance between two
+     * entries, between 0 and 1.
+     * Default: 0.8
+     *
+     * @param ratio
+     */
+    public setBarWidthRatio(ratio: number) {
+        this.mBarWidthRatio = Math.min(1, Math.max(0, ratio));
+    }
+
+    public getBarWidthRatio() {
+        return this.mBarWidthRatio;
+    }
+
+    /**
+     * Returns the width of the bars of the given DataSet in x values.
+     *
+     * @param dataSet
+     */
+    public getBarWidth(dataSet: ILineDataSet) {
+        const count = dataSet.getEntryCount();
+        const spacing = count > 1 ? (dataSet.getXMax() - dataSet.getXMin()) / (count - 1) : 1;
+        return (spacing || 1) * this.mBarWidthRatio;
+    }
+
+    /**
+     * Sets the color of the bars of negative values, null to use the DataSet
+     * colors.
+     * Default: red
+     *
+     * @param color
+     */
+    public setNegativeColor(color: string | Color) {
+        this.mNegativeColor = color;
+    }
+
+    public getNegativeColor() {
+        return this.mNegativeColor;
+    }
+
+    /**
+     * Enables / disables the dot marking the entry with the lowest value.
+     * Default: false
+     *
+     * @param enabled
+     */
+    public setDrawMinMarker(enabled: boolean) {
+        this.mDrawMinMarker = enabled;
+    }
+
+    public isDrawMinMarkerEnabled() {
+        return this.mDrawMinMarker;
+    }
+
+    /**
+     * Enables / disables the dot marking the entry with the highest value.
+     * Default: false
+     *
+     * @param enabled
+     */
+    public setDrawMaxMarker(enabled: boolean) {
+        this.mDrawMaxMarker = enabled;
+    }
+
+    public isDrawMaxMarkerEnabled() {
+        return this.mDrawMaxMarker;
+    }
+
+    /**
+     * Enables / disables the dot marking the last entry.
+     * Default: false
+     *
+     * @param enabled
+     */
+    public setDrawLastMarker(enabled: boolean) {
+        this.mDrawLastMarker = enabled;
+    }
+
+    public isDrawLastMarkerEnabled() {
+        return this.mDrawLastMarker;
+    }
+
+    /**
+     * Sets the colors of the min, max and last point markers. A null last
+     * marker color uses the DataSet color.
+     *
+     * @param min
+     * @param max
+     * @param last
+     */
+    public setMarkerColors(min: string | Color, max: string | Color, last: string | Color = null) {
+        this.mMinMarkerColor = min;
+        this.mMaxMarkerColor = max;
+        this.mLastMarkerColor = last;
+    }
+
+    /**
+     * Returns the color of the given point marker, null to use the DataSet
+     * color.
+     *
+     * @param marker
+     */
+    public getMarkerColor(marker: SparklineMarker) {
+        switch (marker) {
+            case SparklineMarker.MIN:
+                return this.mMinMarkerColor;
+            case SparklineMarker.MAX:
+                return this.mMaxMarkerColor;
+            default:
+                return this.mLastMarkerColor;
+        }
+    }
+
+    /**
+     * Sets the radius of the point markers in dp.
+     * Default: 2
+     *
+     * @param radius
+     */
+    public setMarkerRadius(radius: number) {
+        this.mMarkerRadius = radius;
+        this.mOffsetsCalculated = false;
+    }
+
+    public getMarkerRadius() {
+        return this.mMarkerRadius;
+    }
+
+    /**
+     * Sets the range of y values highlighted behind the data, for example a
+     * normal range. Pass null to remove it.
+     *
+     * @param low
+     * @param high
+     */
+    public setReferenceBand(low: number, high: number) {
+        if (low === null || high === null || low === undefined || high === undefined) {
+            this.mReferenceBandLow = null;
+            this.mReferenceBandHigh = null;
+        } else {
+            this.mReferenceBandLow = Math.min(low, high);
+            this.mReferenceBandHigh = Math.max(low, high);
+        }
+        this.notifyDataSetChanged();
+    }
+
+    public getReferenceBandLow() {
+        return this.mReferenceBandLow;
+    }
+
+    public getReferenceBandHigh() {
+        return this.mReferenceBandHigh;
+    }
+
+    /**
+     * Sets the color of the reference band.
+     *
+     * @param color
+     */
+    public setReferenceBandColor(color: string | Color) {
+        this.mRenderer.referenceBandPaint.setColor(color);
+    }
+
+    /**
+     * Sets the minimum padding around the data in dp.
+     * Default: 3
+     *
+     * @param minOffset
+     */
+    public setMinOffset(minOffset: number) {
+        this.mMinOffset = minOffset;
+        this.mOffsetsCalculated = false;
+    }
+
+    public getMinOffset() {
+        return this.mMinOffset;
+    }
+
+    mCustomRenderer: CustomRenderer;
+    /**
+     * set a custom sparkline renderer
+     */
+    public setCustomRenderer(renderer: CustomRenderer) {
+        this.mCustomRenderer = renderer;
+    }
+    /**
+     * get the custom sparkline renderer
+     */
+    public getCustomRenderer() {
+        return this.mCustomRenderer;
+    }
+}
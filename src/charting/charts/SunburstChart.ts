@@ -0,0 +1,220 @@
+import { PieChart } from './PieChart';
+import { SunburstEntry } from '../data/SunburstEntry';
+import { Highlight } from '../highlight/Highlight';
+import { SunburstHighlight, SunburstHighlighter } from '../highlight/SunburstHighlighter';
+import { SunburstChartRenderer } from '../renderer/SunburstChartRenderer';
+import { Utils } from '../utils/Utils';
+
+/**
+ * Layout of one node of the sunburst hierarchy.
+ */
+export interface SunburstNode {
+    entry: SunburstEntry;
+
+    /**
+     * depth of the node, 0 being the inner ring
+     */
+    ring: number;
+
+    /**
+     * indices of the node and its ancestors, starting with the index of the
+     * root entry in the DataSet
+     */
+    path: number[];
+
+    /**
+     * value of the node (sum of its children for inner nodes)
+     */
+    value: number;
+
+    /**
+     * angle at which the node starts, relative to the rotation angle
+     */
+    startAngle: number;
+
+    sweepAngle: number;
+}
+
+/**
+ * Multi-ring pie chart drawing a hierarchy of SunburstEntry objects. The
+ * entries of the PieDataSet make the inner ring, their children the next
+ * ring and so on.
+ */
+export class SunburstChart extends PieChart {
+    mRenderer: SunburstChartRenderer;
+
+    /**
+     * layout of all nodes, ordered by ring
+     */
+    protected mNodes: SunburstNode[] = [];
+
+    protected mRingCount = 0;
+
+    protected init() {
+        super.init();
+
+        this.mRenderer = new SunburstChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+
+        this.mHighlighter = new SunburstHighlighter(this);
+    }
+
+    protected calcMinMax() {
+        this.calcNodes();
+    }
+
+    /**
+     * Returns the value of the given node, which is the sum of its children
+     * for inner nodes.
+     *
+     * @param e
+     * @param yKey
+     */
+    protected getNodeValue(e: SunburstEntry, yKey: string): number {
+        if (e.children && e.children.length > 0) {
+            return e.children.reduce((sum, child) => sum + this.getNodeValue(child, yKey), 0);
+        }
+        return Math.abs(e[yKey]) || 0;
+    }
+
+    /**
+     * calculates the layout of all the nodes of the hierarchy
+     */
+    protected calcNodes() {
+        this.mNodes = [];
+        this.mRingCount = 0;
+
+        const set = this.mData.getDataSet();
+        if (set == null) {
+            return;
+        }
+        const yKey = set.yProperty;
+        const roots: SunburstEntry[] = [];
+        for (let i = 0; i < set.getEntryCount(); i++) {
+            roots.push(set.getEntryForIndex(i));
+        }
+
+        const layout = (entries: SunburstEntry[], ring: number, parentPath: number[], startAngle: number, sweepAngle: number) => {
+            const values = entries.map((e) => this.getNodeValue(e, yKey));
+            const sum = values.reduce((a, b) => a + b, 0);
+            if (sum <= 0) {
+                return;
+            }
+            this.mRingCount = Math.max(this.mRingCount, ring + 1);
+
+            let angle = startAngle;
+            for (let i = 0; i < entries.length; i++) {
+                const e = entries[i];
+                const sweep = (values[i] / sum) * sweepAngle;
+                const node: SunburstNode = { entry: e, ring, path: parentPath.concat(i), value: values[i], startAngle: angle, sweepAngle: sweep };
+                this.mNodes.push(node);
+                if (e.children && e.children.length > 0) {
+                    layout(e.children, ring + 1, node.path, angle, sweep);
+                }
+                angle += sweep;
+            }
+        };
+        layout(roots, 0, [], 0, this.mMaxAngle);
+
+        // sort by ring so that drawing and lookups go from the center outwards
+        this.mNodes.sort((a, b) => a.ring - b.ring);
+    }
+
+    /**
+     * Returns the layout of all the nodes, ordered by ring.
+     *
+     * @return
+     */
+    public getNodes() {
+        return this.mNodes;
+    }
+
+    /**
+     * Returns the number of rings, i.e. the depth of the hierarchy.
+     *
+     * @return
+     */
+    public getRingCount() {
+        return this.mRingCount;
+    }
+
+    /**
+     * Returns the node at the given path of indices, or null.
+     *
+     * @param path
+     */
+    public getNodeForPath(path: number[]) {
+        return this.mNodes.find((n) => n.path.length === path.length && n.path.every((index, i) => index === path[i])) || null;
+    }
+
+    /**
+     * Returns the inner radius of the given ring in pixels.
+     *
+     * @param ring
+     */
+    public getRingInnerRadius(ring: number) {
+        const radius = this.getRadius();
+        const holeRadius = this.isDrawHoleEnabled() ? radius * (this.getHoleRadius() / 100) : 0;
+        return holeRadius + ((radius - holeRadius) / Math.max(1, this.mRingCount)) * ring;
+    }
+
+    /**
+     * Returns the outer radius of the given ring in pixels.
+     *
+     * @param ring
+     */
+    public getRingOuterRadius(ring: number) {
+        return this.getRingInnerRadius(ring + 1);
+    }
+
+    /**
+     * Returns the ring at the given distance from the center, -1 if the
+     * distance is inside the hole or outside the chart.
+     *
+     * @param distance
+     */
+    public getRingForDistance(distance: number) {
+        for (let ring = 0; ring < this.mRingCount; ring++) {
+            if (distance >= this.getRingInnerRadius(ring) && distance <= this.getRingOuterRadius(ring)) {
+                return ring;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Returns the node of the given ring at the given angle, or null.
+     *
+     * @param ring
+     * @param angle
+     */
+    public getNodeForAngle(ring: number, angle: number) {
+        const a = Utils.getNormalizedAngle(angle - this.getRotationAngle());
+        return this.mNodes.find((n) => n.ring === ring && a >= n.startAngle && a < n.startAngle + n.sweepAngle) || null;
+    }
+
+    public getIndexForAngle(angle: number) {
+        const node = this.getNodeForAngle(0, angle);
+        return node ? node.path[0] : -1;
+    }
+
+    protected getMarkerPosition(highlight: SunburstHighlight): number[] {
+        const node = highlight.path ? this.getNodeForPath(highlight.path) : this.getNodeForPath([highlight.x]);
+        if (node == null) {
+            return [0, 0];
+        }
+        const phaseY = this.mAnimator.getPhaseY();
+        const r = (this.getRingInnerRadius(node.ring) + this.getRingOuterRadius(node.ring)) / 2;
+        const p = this.getPosition(this.getCenterCircleBox(), r, this.getRotationAngle() + (node.startAngle + node.sweepAngle / 2) * phaseY);
+        return [p.x, p.y];
+    }
+
+    /**
+     * Returns the node referenced by the given highlight.
+     *
+     * @param highlight
+     */
+    public getNodeForHighlight(highlight: Highlight) {
+        const path = (highlight as SunburstHighlight).path;
+        return this.getNodeForPath(path || [highlight.x]);
+    }
+}
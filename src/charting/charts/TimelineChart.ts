@@ -0,0 +1,172 @@
+import { Canvas, Paint, Path, RectF } from '@nativescript-community/ui-canvas';
+import { Color } from '@nativescript/core';
+import { CustomRenderer as BarCustomRenderer } from './BarChart';
+import { HorizontalBarChart } from './HorizontalBarChart';
+import { TimelineEntry } from '../data/TimelineEntry';
+import { TimelineHighlighter } from '../highlight/TimelineHighlighter';
+import { TimelineChartRenderer } from '../renderer/TimelineChartRenderer';
+
+export interface CustomRenderer extends BarCustomRenderer {
+    drawDependency?: (c: Canvas, from: TimelineEntry, to: TimelineEntry, line: Path, head: Path, paint: Paint) => void;
+    drawNowLine?: (c: Canvas, x: number, top: number, bottom: number, paint: Paint) => void;
+}
+
+/**
+ * Gantt chart drawing tasks as floating horizontal bars from their start to
+ * their end, one row per category. Its BarData is expected to hold
+ * TimelineDataSet objects.
+ */
+export class TimelineChart extends HorizontalBarChart {
+    mRenderer: TimelineChartRenderer;
+
+    /**
+     * labels of the rows, drawn on the left axis
+     */
+    protected mCategories: string[] = null;
+
+    /**
+     * position of the "now" marker on the time axis, null to hide it
+     */
+    protected mNowValue: number = null;
+
+    /**
+     * if true, arrows are drawn between dependent tasks
+     */
+    protected mDrawDependencies = true;
+
+    protected init() {
+        super.init();
+
+        this.mRenderer = new TimelineChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+
+        this.setHighlighter(new TimelineHighlighter(this));
+    }
+
+    /**
+     * Sets the labels of the rows, drawn on the left axis. The row of a task
+     * is the index of its category.
+     *
+     * @param categories
+     */
+    public setCategories(categories: string[]) {
+        this.mCategories = categories;
+        const xAxis = this.getXAxis();
+        xAxis.setGranularity(1);
+        xAxis.setValueFormatter({
+            getAxisLabel: (value: number) => {
+                const categories = this.mCategories;
+                const index = Math.round(value);
+                return categories && index >= 0 && index < categories.length ? categories[index] : '';
+            }
+        });
+    }
+
+    public getCategories() {
+        return this.mCategories;
+    }
+
+    /**
+     * Sets the position of the "now" marker line on the time axis, null to
+     * hide it.
+     *
+     * @param value
+     */
+    public setNowValue(value: number) {
+        this.mNowValue = value;
+        this.invalidate();
+    }
+
+    public getNowValue() {
+        return this.mNowValue;
+    }
+
+    /**
+     * Sets the color of the "now" marker line.
+     *
+     * @param color
+     */
+    public setNowLineColor(color: string | Color) {
+        this.mRenderer.nowLinePaint.setColor(color);
+    }
+
+    /**
+     * Sets the width of the "now" marker line in pixels.
+     *
+     * @param width
+     */
+    public setNowLineWidth(width: number) {
+        this.mRenderer.nowLinePaint.setStrokeWidth(width);
+    }
+
+    /**
+     * Enables / disables the arrows drawn from the end of a task to the
+     * start of the tasks depending on it.
+     * Default: true
+     *
+     * @param enabled
+     */
+    public setDrawDependencies(enabled: boolean) {
+        this.mDrawDependencies = enabled;
+    }
+
+    public isDrawDependenciesEnabled() {
+        return this.mDrawDependencies;
+    }
+
+    /**
+     * Sets the color of the dependency arrows.
+     *
+     * @param color
+     */
+    public setDependencyColor(color: string | Color) {
+        this.mRenderer.dependencyPaint.setColor(color);
+    }
+
+    /**
+     * Sets the width of the dependency arrows in pixels.
+     *
+     * @param width
+     */
+    public setDependencyLineWidth(width: number) {
+        this.mRenderer.dependencyPaint.setStrokeWidth(width);
+    }
+
+    /**
+     * Returns the bounding box of the specified Entry in the specified DataSet. Returns null if the Entry could not be
+     * found in the charts data.
+     *
+     * @param e
+     * @return
+     */
+    public getBarBounds(e: TimelineEntry): RectF {
+        const { set, index } = this.mData.getDataSetAndIndexForEntry(e);
+        if (set === null) {
+            return new RectF(Number.MIN_VALUE, Number.MIN_VALUE, Number.MIN_VALUE, Number.MIN_VALUE);
+        }
+
+        const x = set.getEntryXValue(e, index);
+        const barWidth = this.mData.getBarWidth();
+
+        const top = x - barWidth / 2;
+        const bottom = x + barWidth / 2;
+        const left = Math.min(e.start, e[set.yProperty]);
+        const right = Math.max(e.start, e[set.yProperty]);
+
+        const outputRect = new RectF(left, top, right, bottom);
+        this.getTransformer(set.getAxisDependency()).rectValueToPixel(outputRect);
+        return outputRect;
+    }
+
+    /**
+     * set a custom timeline renderer
+     */
+    public setCustomRenderer(renderer: CustomRenderer) {
+        super.setCustomRenderer(renderer);
+    }
+    /**
+     * get the custom timeline renderer
+     */
+    public getCustomRenderer(): CustomRenderer {
+        return super.getCustomRenderer();
+    }
+}
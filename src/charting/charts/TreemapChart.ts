@@ -0,0 +1,781 @@
+import { Canvas, Paint, RectF } from '@nativescript-community/ui-canvas';
+import { Color, EventData, Observable } from '@nativescript/core';
+import { getEventOrGestureName } from '@nativescript/core/ui/core/bindable';
+import { GestureTypes } from '@nativescript/core/ui/gestures';
+import { PieData } from '../data/PieData';
+import { PieDataSet } from '../data/PieDataSet';
+import { TreemapEntry } from '../data/TreemapEntry';
+import { Highlight } from '../highlight/Highlight';
+import { TreemapHighlight, TreemapHighlighter } from '../highlight/TreemapHighlighter';
+import { TreemapChartTouchListener } from '../listener/TreemapChartTouchListener';
+import { BaseCustomRenderer } from '../renderer/DataRenderer';
+import { TreemapChartRenderer } from '../renderer/TreemapChartRenderer';
+import { IColorScale } from '../utils/colorscale/IColorScale';
+import { LinearColorScale } from '../utils/colorscale/LinearColorScale';
+import { Utils } from '../utils/Utils';
+import { Chart } from './Chart';
+
+/**
+ * enum for the way the nodes of a treemap are colored
+ */
+export enum TreemapColorMode {
+    /**
+     * nodes take the DataSet color of their top level ancestor
+     */
+    GROUP,
+    /**
+     * leaves are colored by their value through the color scale
+     */
+    VALUE
+}
+
+/**
+ * Layout of one node of the treemap hierarchy, in pixels.
+ */
+export interface TreemapNode {
+    entry: TreemapEntry;
+
+    /**
+     * depth of the node below the displayed root, 0 being the top level
+     */
+    depth: number;
+
+    /**
+     * indices of the node and its ancestors, starting with the index of the
+     * root entry in the DataSet
+     */
+    path: number[];
+
+    /**
+     * value of the node (sum of its children for inner nodes)
+     */
+    value: number;
+
+    /**
+     * true if the children of the node are laid out inside it
+     */
+    expanded: boolean;
+
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+export interface CustomRenderer extends BaseCustomRenderer {
+    drawNode?: (c: Canvas, node: TreemapNode, rect: RectF, paint: Paint) => void;
+    drawHighlight?: (c: Canvas, e: Highlight, rect: RectF, paint: Paint) => void;
+}
+
+/**
+ * Chart drawing a hierarchy of TreemapEntry objects as nested rectangles
+ * whose areas are proportional to their values, laid out with the squarified
+ * algorithm. The entries of the PieDataSet make the top level. Tapping a
+ * node can drill down into it.
+ */
+export class TreemapChart extends Chart<TreemapEntry, PieDataSet, PieData> {
+    mRenderer: TreemapChartRenderer;
+
+    protected mChartTouchListener: TreemapChartTouchListener;
+
+    /**
+     * layout of the displayed nodes, parents before their children
+     */
+    protected mNodes: TreemapNode[] = [];
+
+    /**
+     * path of the node the chart is zoomed into, empty for the whole
+     * hierarchy
+     */
+    protected mRootPath: number[] = [];
+
+    protected mColorMode = TreemapColorMode.GROUP;
+
+    protected mColorScale: IColorScale = new LinearColorScale();
+
+    /**
+     * color of the expanded nodes with the VALUE color mode
+     */
+    protected mGroupColor: string | Color = '#9E9E9E';
+
+    /**
+     * range of the values of the displayed leaves, used by the color scale
+     */
+    protected mLeafValueMin = 0;
+    protected mLeafValueMax = 0;
+
+    /**
+     * space between a node and its children, in dp
+     */
+    protected mNodePadding = 2;
+
+    /**
+     * height of the label strip at the top of expanded nodes in dp, 0 to
+     * disable
+     */
+    protected mHeaderHeight = 16;
+
+    /**
+     * number of levels laid out below the displayed root
+     */
+    protected mMaxDepth = Infinity;
+
+    protected mDrawLabels = true;
+
+    protected mDrillDownEnabled = false;
+
+    /**
+     * duration of the drill down animation in ms
+     */
+    protected mZoomDuration = 300;
+
+    /**
+     * maps the new layout to the previous one while the drill down animation
+     * runs, null when there is nothing to animate
+     */
+    protected mZoomTransform: { scaleX: number; scaleY: number; translateX: number; translateY: number } = null;
+
+    protected init() {
+        super.init();
+
+        this.mRenderer = new TreemapChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+
+        this.mHighlighter = new TreemapHighlighter(this);
+    }
+
+    getOrCreateTouchListener() {
+        if (!this.mChartTouchListener) {
+            this.mChartTouchListener = new TreemapChartTouchListener(this);
+            if (!!this.nativeViewProtected) {
+                this.mChartTouchListener.init();
+            }
+        }
+        return this.mChartTouchListener;
+    }
+
+    public onDraw(canvas: Canvas) {
+        super.onDraw(canvas);
+
+        if (this.mData == null) {
+            return;
+        }
+
+        this.mRenderer.drawData(canvas);
+
+        if (this.valuesToHighlight()) {
+            this.mRenderer.drawHighlighted(canvas, this.mIndicesToHighlight);
+        }
+
+        this.mRenderer.drawExtras(canvas);
+
+        this.mRenderer.drawValues(canvas);
+
+        this.drawDescription(canvas);
+        this.drawMarkers(canvas);
+
+        // the drill down animation is over
+        if (this.mZoomTransform && this.mAnimator.getPhaseX() >= 1) {
+            this.mZoomTransform = null;
+        }
+    }
+
+    public notifyDataSetChanged() {
+        if (this.mData == null) {
+            return;
+        }
+
+        this.calculateOffsets();
+        this.invalidate();
+    }
+
+    public calculateOffsets(force = true) {
+        if (this.mOffsetsCalculated && !force) {
+            return;
+        }
+        this.mOffsetsCalculated = true;
+        this.mViewPortHandler.restrainViewPort(this.getExtraLeftOffset(), this.getExtraTopOffset(), this.getExtraRightOffset(), this.getExtraBottomOffset());
+
+        if (this.mData != null) {
+            this.calcMinMax();
+        }
+    }
+
+    protected calcMinMax() {
+        this.calcNodes();
+    }
+
+    /**
+     * Returns the value of the given node, which is the sum of its children
+     * for inner nodes.
+     *
+     * @param e
+     * @param yKey
+     */
+    protected getNodeValue(e: TreemapEntry, yKey: string): number {
+        if (e.children && e.children.length > 0) {
+            return e.children.reduce((sum, child) => sum + this.getNodeValue(child, yKey), 0);
+        }
+        return Math.abs(e[yKey]) || 0;
+    }
+
+    /**
+     * Returns the entries from the root to the node at the given path, or
+     * null if the path does not exist.
+     *
+     * @param path
+     */
+    public getEntriesForPath(path: number[]) {
+        const set = this.mData.getDataSet();
+        const entries: TreemapEntry[] = [];
+        let children: TreemapEntry[] = null;
+        for (let i = 0; i < path.length; i++) {
+            const e = i === 0 ? set.getEntryForIndex(path[i]) : children && children[path[i]];
+            if (!e) {
+                return null;
+            }
+            entries.push(e);
+            children = e.children;
+        }
+        return entries;
+    }
+
+    /**
+     * Returns the rectangles of the given values laid out in the given
+     * rectangle with the squarified algorithm, as [left, top, right, bottom]
+     * tuples in the order of the values.
+     *
+     * @param values
+     * @param left
+     * @param top
+     * @param right
+     * @param bottom
+     */
+    protected squarify(values: number[], left: number, top: number, right: number, bottom: number) {
+        const result: number[][] = values.map(() => [left, top, left, top]);
+        const sum = values.reduce((a, b) => a + b, 0);
+        if (sum <= 0 || right <= left || bottom <= top) {
+            return result;
+        }
+
+        // lay out the biggest nodes first, areas in pixels
+        const scale = ((right - left) * (bottom - top)) / sum;
+        const order = values.map((v, i) => i).sort((a, b) => values[b] - values[a]);
+        const areas = order.map((i) => values[i] * scale);
+
+        // the worst aspect ratio of a row of the given areas along a side
+        const worst = (sum: number, min: number, max: number, side: number) => {
+            const s2 = sum * sum;
+            const w2 = side * side;
+            return Math.max((w2 * max) / s2, s2 / (w2 * min));
+        };
+
+        let start = 0;
+        while (start < areas.length) {
+            const width = right - left;
+            const height = bottom - top;
+            const side = Math.min(width, height);
+
+            // grow the row while it improves the aspect ratios
+            let end = start + 1;
+            let rowSum = areas[start];
+            let rowMin = areas[start];
+            let rowMax = areas[start];
+            while (end < areas.length && areas[end] > 0) {
+                const area = areas[end];
+                if (worst(rowSum + area, Math.min(rowMin, area), Math.max(rowMax, area), side) > worst(rowSum, rowMin, rowMax, side)) {
+                    break;
+                }
+                rowSum += area;
+                rowMin = Math.min(rowMin, area);
+                rowMax = Math.max(rowMax, area);
+                end++;
+            }
+
+            // lay out the row along the shortest side of the remaining space
+            if (width >= height) {
+                const rowWidth = height > 0 ? rowSum / height : 0;
+                let y = top;
+                for (let i = start; i < end; i++) {
+                    const h = rowWidth > 0 ? areas[i] / rowWidth : 0;
+                    result[order[i]] = [left, y, left + rowWidth, y + h];
+                    y += h;
+                }
+                left += rowWidth;
+            } else {
+                const rowHeight = width > 0 ? rowSum / width : 0;
+                let x = left;
+                for (let i = start; i < end; i++) {
+                    const w = rowHeight > 0 ? areas[i] / rowHeight : 0;
+                    result[order[i]] = [x, top, x + w, top + rowHeight];
+                    x += w;
+                }
+                top += rowHeight;
+            }
+            start = end;
+        }
+        return result;
+    }
+
+    /**
+     * calculates the layout of the nodes below the displayed root
+     */
+    protected calcNodes() {
+        this.mNodes = [];
+        this.mLeafValueMin = Infinity;
+        this.mLeafValueMax = -Infinity;
+
+        const set = this.mData.getDataSet();
+        if (set == null) {
+            return;
+        }
+        const yKey = set.yProperty;
+
+        let roots: TreemapEntry[];
+        if (this.mRootPath.length === 0) {
+            roots = [];
+            for (let i = 0; i < set.getEntryCount(); i++) {
+                roots.push(set.getEntryForIndex(i));
+            }
+        } else {
+            const entries = this.getEntriesForPath(this.mRootPath);
+            if (!entries) {
+                // the data changed, show the whole hierarchy again
+                this.mRootPath = [];
+                this.calcNodes();
+                return;
+            }
+            roots = entries[entries.length - 1].children || [];
+        }
+
+        const padding = this.mNodePadding;
+        const layout = (entries: TreemapEntry[], depth: number, parentPath: number[], left: number, top: number, right: number, bottom: number) => {
+            const values = entries.map((e) => this.getNodeValue(e, yKey));
+            const rects = this.squarify(values, left, top, right, bottom);
+
+            for (let i = 0; i < entries.length; i++) {
+                const e = entries[i];
+                const [l, t, r, b] = rects[i];
+                if (values[i] <= 0) {
+                    continue;
+                }
+                const node: TreemapNode = { entry: e, depth, path: parentPath.concat(i), value: values[i], expanded: false, left: l, top: t, right: r, bottom: b };
+                this.mNodes.push(node);
+
+                // children are only laid out when they have room left
+                const header = this.mDrawLabels && e.label ? this.mHeaderHeight : 0;
+                const innerTop = t + Math.max(padding, header);
+                if (e.children && e.children.length > 0 && depth + 1 < this.mMaxDepth && r - l > 2 * padding && b - padding > innerTop) {
+                    node.expanded = true;
+                    layout(e.children, depth + 1, node.path, l + padding, innerTop, r - padding, b - padding);
+                } else {
+                    this.mLeafValueMin = Math.min(this.mLeafValueMin, values[i]);
+                    this.mLeafValueMax = Math.max(this.mLeafValueMax, values[i]);
+                }
+            }
+        };
+        const content = this.mViewPortHandler.getContentRect();
+        layout(roots, 0, this.mRootPath, content.left, content.top, content.right, content.bottom);
+    }
+
+    /**
+     * Returns the layout of the displayed nodes, parents before their
+     * children.
+     *
+     * @return
+     */
+    public getNodes() {
+        return this.mNodes;
+    }
+
+    /**
+     * Returns the displayed node at the given path of indices, or null.
+     *
+     * @param path
+     */
+    public getNodeForPath(path: number[]) {
+        return this.mNodes.find((n) => n.path.length === path.length && n.path.every((index, i) => index === path[i])) || null;
+    }
+
+    /**
+     * Returns the node referenced by the given highlight.
+     *
+     * @param highlight
+     */
+    public getNodeForHighlight(highlight: Highlight) {
+        const path = (highlight as TreemapHighlight).path;
+        return this.getNodeForPath(path || [highlight.x]);
+    }
+
+    /**
+     * Returns the deepest displayed node at the given point in pixels, or
+     * null.
+     *
+     * @param x
+     * @param y
+     */
+    public getNodeForPoint(x: number, y: number) {
+        const rect = Utils.getTempRectF();
+        for (let i = this.mNodes.length - 1; i >= 0; i--) {
+            const node = this.mNodes[i];
+            this.getNodeRect(node, rect);
+            if (x >= rect.left && x < rect.right && y >= rect.top && y < rect.bottom) {
+                return node;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Sets the drawn rectangle of the given node to the given rect, taking
+     * the running drill down animation into account.
+     *
+     * @param node
+     * @param outputRect
+     */
+    public getNodeRect(node: TreemapNode, outputRect: RectF) {
+        const zoom = this.mZoomTransform;
+        const phase = this.mAnimator.getPhaseX();
+        if (zoom && phase < 1) {
+            const fromLeft = node.left * zoom.scaleX + zoom.translateX;
+            const fromTop = node.top * zoom.scaleY + zoom.translateY;
+            const fromRight = node.right * zoom.scaleX + zoom.translateX;
+            const fromBottom = node.bottom * zoom.scaleY + zoom.translateY;
+            outputRect.set(
+                fromLeft + (node.left - fromLeft) * phase,
+                fromTop + (node.top - fromTop) * phase,
+                fromRight + (node.right - fromRight) * phase,
+                fromBottom + (node.bottom - fromBottom) * phase
+            );
+        } else {
+            outputRect.set(node.left, node.top, node.right, node.bottom);
+        }
+        return outputRect;
+    }
+
+    /**
+     * Returns the fill color of the given node according to the color mode.
+     *
+     * @param node
+     */
+    public getNodeColor(node: TreemapNode) {
+        const set = this.mData.getDataSet();
+        if (this.mColorMode === TreemapColorMode.VALUE) {
+            if (node.expanded) {
+                return this.mGroupColor;
+            }
+            return this.mColorScale.getColor(node.value, this.mLeafValueMin, this.mLeafValueMax);
+        }
+        return set.getColor(node.path[this.mRootPath.length]);
+    }
+
+    /**
+     * Returns the path of the node the chart is zoomed into, empty for the
+     * whole hierarchy.
+     */
+    public getRootPath() {
+        return this.mRootPath;
+    }
+
+    /**
+     * Zooms into the node at the given path, or out of the current one if it
+     * is an ancestor. An empty path shows the whole hierarchy again.
+     *
+     * @param path
+     * @param durationMillis duration of the animation, 0 to disable it
+     */
+    public zoomToPath(path: number[], durationMillis = this.mZoomDuration) {
+        const previousPath = this.mRootPath;
+        const isPrefix = (prefix: number[], of: number[]) => prefix.length <= of.length && prefix.every((index, i) => index === of[i]);
+        const content = this.mViewPortHandler.getContentRect();
+
+        // the rectangle shown as the whole content before (zoom in) or after (zoom out)
+        let zoomedIn = true;
+        let node = isPrefix(previousPath, path) ? this.getNodeForPath(path) : null;
+
+        this.mRootPath = path.slice();
+        this.calcNodes();
+
+        if (!node && isPrefix(path, previousPath)) {
+            zoomedIn = false;
+            node = this.getNodeForPath(previousPath);
+        }
+
+        this.mZoomTransform = null;
+        if (node && durationMillis > 0 && node.right > node.left && node.bottom > node.top) {
+            const nodeWidth = node.right - node.left;
+            const nodeHeight = node.bottom - node.top;
+            if (zoomedIn) {
+                // the new layout starts squeezed into the previous node rectangle
+                const scaleX = nodeWidth / content.width();
+                const scaleY = nodeHeight / content.height();
+                this.mZoomTransform = { scaleX, scaleY, translateX: node.left - content.left * scaleX, translateY: node.top - content.top * scaleY };
+            } else {
+                // the new layout starts with the previous root filling the content
+                const scaleX = content.width() / nodeWidth;
+                const scaleY = content.height() / nodeHeight;
+                this.mZoomTransform = { scaleX, scaleY, translateX: content.left - node.left * scaleX, translateY: content.top - node.top * scaleY };
+            }
+        }
+
+        this.mIndicesToHighlight = null;
+        if (this.mChartTouchListener) {
+            this.mChartTouchListener.setLastHighlighted(null);
+        }
+
+        if (this.hasListeners('zoom')) {
+            this.notify({ eventName: 'zoom', object: this, path: this.mRootPath });
+        }
+
+        if (this.mZoomTransform) {
+            this.mAnimator.animateX(durationMillis);
+        } else {
+            this.invalidate();
+        }
+    }
+
+    /**
+     * Zooms one level down towards the node at the given path. Returns false
+     * if the path is not below the displayed root or leads to a leaf.
+     *
+     * @param path
+     */
+    public drillDown(path: number[]) {
+        const root = this.mRootPath;
+        if (!path || path.length <= root.length || !root.every((index, i) => index === path[i])) {
+            return false;
+        }
+        const target = path.slice(0, root.length + 1);
+        const entries = this.getEntriesForPath(target);
+        const e = entries && entries[entries.length - 1];
+        if (!e || !e.children || e.children.length === 0) {
+            return false;
+        }
+        this.zoomToPath(target);
+        return true;
+    }
+
+    /**
+     * Zooms one level up. Returns false if the whole hierarchy is already
+     * shown.
+     */
+    public drillUp() {
+        if (this.mRootPath.length === 0) {
+            return false;
+        }
+        this.zoomToPath(this.mRootPath.slice(0, -1));
+        return true;
+    }
+
+    /**
+     * Enables / disables zooming into a node by tapping it.
+     * Default: false
+     *
+     * @param enabled
+     */
+    public setDrillDownEnabled(enabled: boolean) {
+        this.mDrillDownEnabled = enabled;
+        if (enabled) {
+            this.getOrCreateTouchListener().setTap(true);
+        } else if (this.mChartTouchListener && !this.isHighlightPerTapEnabled()) {
+            this.mChartTouchListener.setTap(false);
+        }
+    }
+
+    public isDrillDownEnabled() {
+        return this.mDrillDownEnabled;
+    }
+
+    /**
+     * Sets the duration of the drill down animation in ms, 0 to disable it.
+     * Default: 300
+     *
+     * @param durationMillis
+     */
+    public setZoomDuration(durationMillis: number) {
+        this.mZoomDuration = durationMillis;
+    }
+
+    public getZoomDuration() {
+        return this.mZoomDuration;
+    }
+
+    public setHighlightPerTapEnabled(enabled) {
+        super.setHighlightPerTapEnabled(enabled);
+        if (enabled) {
+            this.getOrCreateTouchListener().setTap(true);
+        } else if (this.mChartTouchListener && !this.mDrillDownEnabled) {
+            this.mChartTouchListener.setTap(false);
+        }
+    }
+
+    /**
+     * Sets the way the nodes are colored.
+     * Default: GROUP
+     *
+     * @param mode
+     */
+    public setColorMode(mode: TreemapColorMode) {
+        this.mColorMode = mode;
+    }
+
+    public getColorMode() {
+        return this.mColorMode;
+    }
+
+    /**
+     * Sets the color scale used to color the leaves with the VALUE color
+     * mode.
+     * Default: a LinearColorScale
+     *
+     * @param scale
+     */
+    public setColorScale(scale: IColorScale) {
+        this.mColorScale = scale;
+    }
+
+    public getColorScale() {
+        return this.mColorScale;
+    }
+
+    /**
+     * Sets the color of the expanded nodes with the VALUE color mode.
+     *
+     * @param color
+     */
+    public setGroupColor(color: string | Color) {
+        this.mGroupColor = color;
+    }
+
+    public getGroupColor() {
+        return this.mGroupColor;
+    }
+
+    /**
+     * Sets the space between a node and its children in dp.
+     * Default: 2
+     *
+     * @param padding
+     */
+    public setNodePadding(padding: number) {
+        this.mNodePadding = Math.max(0, padding);
+        this.mOffsetsCalculated = false;
+    }
+
+    public getNodePadding() {
+        return this.mNodePadding;
+    }
+
+    /**
+     * Sets the height of the label strip at the top of the nodes whose
+     * children are displayed, in dp. 0 disables it.
+     * Default: 16
+     *
+     * @param height
+     */
+    public setHeaderHeight(height: number) {
+        this.mHeaderHeight = Math.max(0, height);
+        this.mOffsetsCalculated = false;
+    }
+
+    public getHeaderHeight() {
+        return this.mHeaderHeight;
+    }
+
+    /**
+     * Sets the number of levels displayed below the current root.
+     * Default: all
+     *
+     * @param depth
+     */
+    public setMaxDepth(depth: number) {
+        this.mMaxDepth = Math.max(1, depth);
+        this.mOffsetsCalculated = false;
+    }
+
+    public getMaxDepth() {
+        return this.mMaxDepth;
+    }
+
+    /**
+     * Enables / disables drawing the labels of the nodes.
+     * Default: true
+     *
+     * @param enabled
+     */
+    public setDrawLabels(enabled: boolean) {
+        this.mDrawLabels = enabled;
+        this.mOffsetsCalculated = false;
+    }
+
+    public isDrawLabelsEnabled() {
+        return this.mDrawLabels;
+    }
+
+    public getMaxVisibleCount() {
+        return this.mData.getEntryCount();
+    }
+
+    public getYChartMax() {
+        return 0;
+    }
+
+    public getYChartMin() {
+        return 0;
+    }
+
+    mCustomRenderer: CustomRenderer;
+    /**
+     * set a custom treemap renderer
+     */
+    public setCustomRenderer(renderer: CustomRenderer) {
+        this.mCustomRenderer = renderer;
+    }
+    /**
+     * get the custom treemap renderer
+     */
+    public getCustomRenderer() {
+        return this.mCustomRenderer;
+    }
+
+    public addEventListener(arg: string | GestureTypes, callback: (data: EventData) => void, thisArg?: any) {
+        if (typeof arg === 'number') {
+            arg = GestureTypes[arg];
+        }
+        if (typeof arg === 'string') {
+            arg = getEventOrGestureName(arg);
+            const events = arg.split(',');
+            if (events.length > 0) {
+                for (let i = 0; i < events.length; i++) {
+                    const evt = events[i].trim();
+                    if (arg === 'tap') {
+                        this.getOrCreateTouchListener().setTap(true);
+                    }
+                    Observable.prototype.addEventListener.call(this, evt, callback, thisArg);
+                }
+            } else {
+                Observable.prototype.addEventListener.call(this, arg, callback, thisArg);
+            }
+        }
+    }
+
+    public removeEventListener(arg: string | GestureTypes, callback?: any, thisArg?: any) {
+        if (typeof arg === 'number') {
+            arg = GestureTypes[arg];
+        }
+        if (typeof arg === 'string') {
+            arg = getEventOrGestureName(arg);
+            const events = arg.split(',');
+            if (events.length > 0) {
+                for (let i = 0; i < events.length; i++) {
+                    const evt = events[i].trim();
+                    if (arg === 'tap' && !this.isHighlightPerTapEnabled() && !this.mDrillDownEnabled) {
+                        this.getOrCreateTouchListener().setTap(false);
+                    }
+                    Observable.prototype.removeEventListener.call(this, evt, callback, thisArg);
+                }
+            } else {
+                Observable.prototype.removeEventListener.call(this, arg, callback, thisArg);
+            }
+        }
+    }
+}
@@ -0,0 +1,48 @@
+import { RectF } from '@nativescript-community/ui-canvas';
+import { BarChart } from './BarChart';
+import { WaterfallEntry } from '../data/WaterfallEntry';
+import { WaterfallHighlighter } from '../highlight/WaterfallHighlighter';
+import { WaterfallChartRenderer } from '../renderer/WaterfallChartRenderer';
+
+/**
+ * Chart drawing floating bars from signed deltas (bridge chart). Its BarData is
+ * expected to hold WaterfallDataSet objects.
+ */
+export class WaterfallChart extends BarChart {
+    protected mRenderer: WaterfallChartRenderer;
+
+    protected init() {
+        super.init();
+
+        this.mRenderer = new WaterfallChartRenderer(this, this.mAnimator, this.mViewPortHandler);
+
+        this.setHighlighter(new WaterfallHighlighter(this));
+    }
+
+    /**
+     * Returns the bounding box of the specified Entry in the specified DataSet. Returns null if the Entry could not be
+     * found in the charts data.
+     *
+     * @param e
+     * @return
+     */
+    public getBarBounds(e: WaterfallEntry): RectF {
+        // WARNING: wont work if index is used as xKey(xKey not set)
+        const { set, index } = this.mData.getDataSetAndIndexForEntry(e);
+        if (set === null) {
+            return new RectF(Number.MIN_VALUE, Number.MIN_VALUE, Number.MIN_VALUE, Number.MIN_VALUE);
+        }
+
+        const x = set.getEntryXValue(e, index);
+        const barWidth = this.mData.getBarWidth();
+
+        const left = x - barWidth / 2;
+        const right = x + barWidth / 2;
+        const top = Math.max(e.start, e.cumulative);
+        const bottom = Math.min(e.start, e.cumulative);
+
+        const outputRect = new RectF(left, top, right, bottom);
+        this.getTransformer(set.getAxisDependency()).rectValueToPixel(outputRect);
+        return outputRect;
+    }
+}
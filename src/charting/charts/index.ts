@@ -7,6 +7,18 @@ export { ScatterChart } from './ScatterChart';
 export { BubbleChart } from './BubbleChart';
 export { CandleStickChart } from './CandleStickChart';
 export { CombinedChart } from './CombinedChart';
+export { WaterfallChart } from './WaterfallChart';
+export { HeatmapChart } from './HeatmapChart';
+export { GaugeChart } from './GaugeChart';
+export { SunburstChart } from './SunburstChart';
+export { BoxPlotChart } from './BoxPlotChart';
+export { TimelineChart } from './TimelineChart';
+export { SparklineChart } from './SparklineChart';
+export { TreemapChart } from './TreemapChart';
+export { RingProgressChart } from './RingProgressChart';
+export { BulletChart } from './BulletChart';
+export { HorizontalBulletChart } from './HorizontalBulletChart';
+export { CalendarHeatmapChart } from './CalendarHeatmapChart';
 import { install as installGestures } from '@nativescript-community/gesturehandler';
 
 export { ChartTraceCategory } from '../utils/Utils';
@@ -1,4 +1,5 @@
 import { Align, DashPathEffect, parseDashEffect } from '@nativescript-community/ui-canvas';
+import { Color } from '@nativescript/core';
 import { ComponentBase } from './ComponentBase';
 import { LimitLine } from './LimitLine';
 import { DefaultAxisValueFormatter } from '../formatter/DefaultAxisValueFormatter';
@@ -6,6 +7,14 @@ import { IAxisValueFormatter } from '../formatter/IAxisValueFormatter';
 import { ValueFormatter } from '../formatter/ValueFormatter';
 import { CustomRenderer } from '../renderer/AxisRenderer';
 
+/**
+ * range of values collapsed by an axis break
+ */
+export interface AxisBreak {
+    from: number;
+    to: number;
+}
+
 /**
  * Base-class of all axes (previously called labels).
  *
@@ -153,6 +162,36 @@ export abstract class AxisBase extends ComponentBase {
      */
     protected mSpaceMax = 0;
 
+    /**
+     * flag indicating the axis uses a logarithmic scale
+     */
+    protected mLogScaleEnabled = false;
+
+    /**
+     * base of the logarithmic scale
+     */
+    protected mLogBase = 10;
+
+    /**
+     * flag indicating the minor ticks between two powers of the base are added on a logarithmic scale
+     */
+    protected mLogMinorTicksEnabled = true;
+
+    /**
+     * value ranges collapsed on the axis, sorted and not overlapping
+     */
+    protected mBreaks: AxisBreak[] = [];
+
+    /**
+     * space between the two zigzag lines of a break marker, in dp
+     */
+    protected mBreakMarkerSpace = 6;
+
+    /**
+     * color filling the space between the two zigzag lines of a break marker
+     */
+    protected mBreakMarkerFillColor: string | Color = 'white';
+
     /**
      * flag indicating that the axis-min value has been customized
      */
@@ -828,6 +867,10 @@ export abstract class AxisBase extends ComponentBase {
      * @param dataMax the max value according to chart data
      */
     public calculate(dataMin, dataMax) {
+        if (this.mLogScaleEnabled) {
+            this.calculateLogScale(dataMin, dataMax);
+            return;
+        }
         // if custom, use value as is, else use data value
         let min = this.mCustomAxisMin ? this.mAxisMinimum : dataMin - this.mSpaceMin;
         let max = this.mCustomAxisMax ? this.mAxisMaximum : dataMax + this.mSpaceMax;
@@ -889,6 +932,297 @@ export abstract class AxisBase extends ComponentBase {
         this.mSpaceMax = spaceMax;
     }
 
+    /**
+     * Enables a logarithmic scale of the given base for this axis. The axis
+     * then starts and ends on powers of the base, labels being placed on
+     * each power of the base. Values lower or equal to 0 can't be placed on
+     * such a scale and are drawn at the minimum of the axis. Default: false
+     *
+     * @param enabled
+     * @param base
+     */
+    public setLogScale(enabled: boolean, base = 10) {
+        this.mLogScaleEnabled = enabled;
+        if (base > 1) {
+            this.mLogBase = base;
+        }
+    }
+
+    public isLogScaleEnabled() {
+        return this.mLogScaleEnabled;
+    }
+
+    public getLogBase() {
+        return this.mLogBase;
+    }
+
+    /**
+     * If true, unlabeled entries are added on a logarithmic scale for each
+     * multiple of a power of the base (2, 3, ... 9 times a power of 10),
+     * drawn as minor grid lines. Default: true
+     *
+     * @param enabled
+     */
+    public setLogMinorTicksEnabled(enabled: boolean) {
+        this.mLogMinorTicksEnabled = enabled;
+    }
+
+    public isLogMinorTicksEnabled() {
+        return this.mLogMinorTicksEnabled;
+    }
+
+    /**
+     * Collapses the given range of values on the axis, a zigzag marker being
+     * drawn across the content where the range was. Values within the range
+     * are drawn at the marker. Ranges overlapping existing breaks are merged
+     * with them.
+     *
+     * @param from
+     * @param to
+     */
+    public addBreak(from: number, to: number) {
+        if (from > to) {
+            [from, to] = [to, from];
+        }
+        if (!(to > from)) {
+            return;
+        }
+        const breaks: AxisBreak[] = [];
+        for (const b of this.mBreaks) {
+            if (b.to < from || b.from > to) {
+                breaks.push(b);
+            } else {
+                from = Math.min(from, b.from);
+                to = Math.max(to, b.to);
+            }
+        }
+        breaks.push({ from, to });
+        this.mBreaks = breaks.sort((a, b) => a.from - b.from);
+    }
+
+    public removeAllBreaks() {
+        this.mBreaks = [];
+    }
+
+    public getBreaks() {
+        return this.mBreaks;
+    }
+
+    /**
+     * Returns true if the given value is strictly within a break.
+     *
+     * @param value
+     */
+    public isInBreak(value: number) {
+        return this.mBreaks.some((b) => value > b.from && value < b.to);
+    }
+
+    /**
+     * Returns true if the given value is on the end of a break, which is
+     * drawn at the same position as its start. Ticks are only placed on the
+     * start so that their labels do not overlap.
+     *
+     * @param value
+     */
+    public isBreakEnd(value: number) {
+        // the epsilon absorbs rounding errors of the tick computation
+        return this.mBreaks.some((b) => Math.abs(value - b.to) <= 1e-9 * Math.max(1, Math.abs(b.to)));
+    }
+
+    /**
+     * Returns the ranges of values between the given ones which are not
+     * collapsed by a break.
+     *
+     * @param min
+     * @param max
+     */
+    public getSegments(min: number, max: number) {
+        const segments: [number, number][] = [];
+        let start = min;
+        for (const b of this.mBreaks) {
+            if (b.to <= start) {
+                continue;
+            }
+            if (b.from >= max) {
+                break;
+            }
+            if (b.from > start) {
+                segments.push([start, b.from]);
+            }
+            start = b.to;
+        }
+        if (start < max) {
+            segments.push([start, max]);
+        }
+        return segments;
+    }
+
+    /**
+     * Returns the length of the values collapsed by breaks between the
+     * given ones.
+     *
+     * @param min
+     * @param max
+     */
+    public getCollapsedLength(min: number, max: number) {
+        let length = 0;
+        for (const b of this.mBreaks) {
+            length += Math.max(0, Math.min(max, b.to) - Math.max(min, b.from));
+        }
+        return length;
+    }
+
+    /**
+     * Sets the space between the two zigzag lines of the break markers, in
+     * dp. Default: 6
+     *
+     * @param space
+     */
+    public setBreakMarkerSpace(space: number) {
+        this.mBreakMarkerSpace = space;
+    }
+
+    public getBreakMarkerSpace() {
+        return this.mBreakMarkerSpace;
+    }
+
+    /**
+     * Sets the color filling the space between the two zigzag lines of the
+     * break markers, usually the background color of the chart.
+     * Default: 'white'
+     *
+     * @param color
+     */
+    public setBreakMarkerFillColor(color: string | Color) {
+        this.mBreakMarkerFillColor = color;
+    }
+
+    public getBreakMarkerFillColor() {
+        return this.mBreakMarkerFillColor;
+    }
+
+    /**
+     * Returns true if the values of the axis need to be converted to its
+     * scale: when the logarithmic scale is enabled or when it has breaks.
+     */
+    public isScaled() {
+        return this.mLogScaleEnabled || this.mBreaks.length > 0;
+    }
+
+    protected toLogScale(value: number) {
+        if (!this.mLogScaleEnabled) {
+            return value;
+        }
+        return Math.log(value > 0 ? value : this.mAxisMinimum) / Math.log(this.mLogBase);
+    }
+
+    /**
+     * Converts the given value to the scale of the axis, which is its
+     * logarithm when the logarithmic scale is enabled. Values lower or equal
+     * to 0 are clamped to the minimum of the axis. The ranges collapsed by
+     * breaks are then removed.
+     *
+     * @param value
+     */
+    public toScale(value: number) {
+        let scaled = this.toLogScale(value);
+        let shift = 0;
+        for (const b of this.mBreaks) {
+            const from = this.toLogScale(b.from);
+            const to = this.toLogScale(b.to);
+            if (scaled >= to) {
+                shift += to - from;
+            } else {
+                if (scaled > from) {
+                    scaled = from;
+                }
+                break;
+            }
+        }
+        return scaled - shift;
+    }
+
+    /**
+     * Converts the given value from the scale of the axis back to a value.
+     * Values on a break are converted to its start.
+     *
+     * @param value
+     */
+    public fromScale(value: number) {
+        for (const b of this.mBreaks) {
+            const from = this.toLogScale(b.from);
+            if (value <= from) {
+                break;
+            }
+            value += this.toLogScale(b.to) - from;
+        }
+        return this.mLogScaleEnabled ? Math.pow(this.mLogBase, value) : value;
+    }
+
+    /**
+     * Returns the minimum of the axis in the scale of the axis.
+     */
+    public getScaledMinimum() {
+        return this.toScale(this.mAxisMinimum);
+    }
+
+    /**
+     * Returns the range of the axis in the scale of the axis, which is the
+     * number of powers of the base it covers when the logarithmic scale is
+     * enabled, without the ranges collapsed by breaks.
+     */
+    public getScaledRange() {
+        if (!this.mLogScaleEnabled) {
+            return this.mAxisRange - this.getCollapsedLength(this.mAxisMinimum, this.mAxisMinimum + this.mAxisRange);
+        }
+        return this.toScale(this.mAxisMaximum) - this.toScale(this.mAxisMinimum);
+    }
+
+    /**
+     * Calculates the minimum / maximum and range values of a logarithmic
+     * axis, extended to the surrounding powers of the base. Without any
+     * positive minimum the axis starts at 1, or one power of the base below
+     * the maximum if it is lower than the base.
+     *
+     * @param dataMin the min value according to chart data
+     * @param dataMax the max value according to chart data
+     */
+    protected calculateLogScale(dataMin, dataMax) {
+        const base = this.mLogBase;
+        const logBase = Math.log(base);
+        const customMin = this.mCustomAxisMin && this.mAxisMinimum > 0;
+        const customMax = this.mCustomAxisMax && this.mAxisMaximum > 0;
+        let min = customMin ? this.mAxisMinimum : dataMin;
+        let max = customMax ? this.mAxisMaximum : dataMax;
+        if (this.mAxisSuggestedMinimum > 0) {
+            min = Math.min(min, this.mAxisSuggestedMinimum);
+        }
+        if (this.mAxisSuggestedMaximum !== undefined) {
+            max = Math.max(max, this.mAxisSuggestedMaximum);
+        }
+        if (!(max > 0) || !Number.isFinite(max)) {
+            max = base;
+        }
+        if (!(min > 0) || !Number.isFinite(min)) {
+            min = Math.min(1, max / base);
+        }
+
+        // the epsilon avoids rounding errors on exact powers of the base
+        if (!customMin) {
+            min = Math.pow(base, Math.floor(Math.log(min) / logBase + 1e-9));
+        }
+        if (!customMax) {
+            max = Math.pow(base, Math.ceil(Math.log(max) / logBase - 1e-9));
+        }
+        if (max <= min) {
+            max = min * base;
+        }
+
+        this.mAxisMinimum = min;
+        this.mAxisMaximum = max;
+        this.mAxisRange = max - min;
+    }
+
     /**
      * Returns the text alignment of the axis labels.
      *
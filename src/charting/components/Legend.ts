@@ -33,7 +33,12 @@ export enum LegendForm {
     /**
      * Draw a horizontal line
      */
-    LINE
+    LINE,
+
+    /**
+     * Draw a horizontal color gradient (uses the entry formColors)
+     */
+    GRADIENT
 }
 
 export enum LegendHorizontalAlignment {
@@ -61,4 +61,15 @@ export class LegendEntry {
      * The color for drawing the form
      */
     public formColor: string | number | Color = null;
+
+    /**
+     * The colors of the gradient drawn by the `GRADIENT` form
+     */
+    public formColors: (string | Color)[] = null;
+
+    /**
+     * The relative positions (0 to 1) of the gradient colors.
+     * Set to null to distribute them evenly
+     */
+    public formColorPositions: number[] = null;
 }
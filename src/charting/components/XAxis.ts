@@ -1,4 +1,7 @@
 import { AxisBase } from './AxisBase';
+import { DefaultAxisValueFormatter } from '../formatter/DefaultAxisValueFormatter';
+import { TimeAxisValueFormatter } from '../formatter/TimeAxisValueFormatter';
+import { TimeUnit } from '../utils/TimeScale';
 import { Utils } from '../utils/Utils';
 
 /**
@@ -60,6 +63,58 @@ export class XAxis extends AxisBase {
      */
     private mPosition = XAxisPosition.TOP;
 
+    /**
+     * if true, the x-values are epoch milliseconds and the ticks are placed
+     * on calendar boundaries
+     */
+    protected mTimeScaleEnabled = false;
+
+    /**
+     * if true, the calendar boundaries of the time scale are UTC ones
+     * instead of local ones
+     */
+    protected mTimeScaleUTC = false;
+
+    /**
+     * if true, the time scale draws a second level of labels at the
+     * boundaries of the parent unit (e.g. the month below days)
+     */
+    protected mDrawSecondaryTimeLabels = true;
+
+    /**
+     * first day of the week used by week ticks, 0 being Sunday
+     */
+    protected mFirstDayOfWeek = 0;
+
+    /**
+     * formatter used by the time scale when no custom one is set
+     */
+    protected mTimeValueFormatter: TimeAxisValueFormatter;
+
+    /**
+     * labels of the categories of a category axis, null for a value axis
+     */
+    protected mCategories: string[] = null;
+
+    /**
+     * x-value of the center of the first category and width of each
+     * category
+     */
+    protected mCategoryStart = 0;
+    protected mCategoryWidth = 1;
+
+    /**
+     * unit and step of the time scale ticks - this is automatically
+     * calculated by the renderer
+     */
+    public mTimeUnit: TimeUnit = null;
+    public mTimeStep = 1;
+
+    /**
+     * second level labels of the time scale, null for the ticks without one
+     */
+    public mSecondaryLabels: string[] = [];
+
     constructor() {
         super();
 
@@ -116,4 +171,148 @@ export class XAxis extends AxisBase {
     public isAvoidFirstLastClippingEnabled() {
         return this.mAvoidFirstLastClipping;
     }
+
+    /**
+     * If set to true, the x-values are read as epoch milliseconds and the
+     * ticks are placed on calendar boundaries (seconds to years) picked from
+     * the visible range, the labels being formatted by a
+     * TimeAxisValueFormatter unless a custom formatter is set.
+     *
+     * @param enabled
+     * @param utc if true, UTC calendar boundaries are used instead of local ones
+     */
+    public setTimeScale(enabled: boolean, utc = false) {
+        this.mTimeScaleEnabled = enabled;
+        this.mTimeScaleUTC = utc;
+    }
+
+    public isTimeScaleEnabled() {
+        return this.mTimeScaleEnabled;
+    }
+
+    public isTimeScaleUTC() {
+        return this.mTimeScaleUTC;
+    }
+
+    /**
+     * If set to true, the time scale draws a second level of labels at the
+     * boundaries of the parent unit, e.g. the month below the first day of
+     * each month. Not supported by the HorizontalBarChart. Default: true
+     *
+     * @param enabled
+     */
+    public setDrawSecondaryTimeLabels(enabled: boolean) {
+        this.mDrawSecondaryTimeLabels = enabled;
+    }
+
+    public isDrawSecondaryTimeLabelsEnabled() {
+        return this.mDrawSecondaryTimeLabels;
+    }
+
+    /**
+     * Sets the first day of the week used by week ticks, 0 being Sunday.
+     * Default: 0
+     *
+     * @param day
+     */
+    public setFirstDayOfWeek(day: number) {
+        this.mFirstDayOfWeek = day;
+    }
+
+    public getFirstDayOfWeek() {
+        return this.mFirstDayOfWeek;
+    }
+
+    /**
+     * Returns the unit of the time scale ticks, null if the time scale is
+     * disabled or not computed yet.
+     *
+     * @return
+     */
+    public getTimeUnit() {
+        return this.mTimeUnit;
+    }
+
+    public getTimeStep() {
+        return this.mTimeStep;
+    }
+
+    /**
+     * Turns the axis into a category axis: one tick per category, labeled
+     * with its name and centered on its x-value, labels being skipped when
+     * they do not fit. By default category i is centered on x = i, grouping
+     * bars with BarChart.groupBars() centers categories on the groups.
+     * Entries can use the name of their category as x-value, entries of an
+     * unknown category getting NaN. The name is moved to the category
+     * property of the entry, so that it is resolved again when the
+     * categories change. Pass null to get back to a value axis.
+     *
+     * @param categories
+     */
+    public setCategories(categories: string[]) {
+        this.mCategories = categories;
+    }
+
+    public getCategories() {
+        return this.mCategories;
+    }
+
+    public isCategoryAxisEnabled() {
+        return this.mCategories != null;
+    }
+
+    /**
+     * Sets the x-value of the center of the first category and the width of
+     * each category. Default: 0, 1
+     *
+     * @param start
+     * @param width
+     */
+    public setCategoryLayout(start: number, width: number) {
+        this.mCategoryStart = start;
+        this.mCategoryWidth = width;
+    }
+
+    public getCategoryStart() {
+        return this.mCategoryStart;
+    }
+
+    public getCategoryWidth() {
+        return this.mCategoryWidth;
+    }
+
+    /**
+     * Returns the x-value of the center of the given category, referenced by
+     * name or index, NaN if there is no such category.
+     *
+     * @param category
+     * @return
+     */
+    public getCategoryPosition(category: string | number) {
+        const index = typeof category === 'string' ? (this.mCategories ? this.mCategories.indexOf(category) : -1) : category;
+        if (index < 0 || !this.mCategories || index >= this.mCategories.length) {
+            return NaN;
+        }
+        return this.mCategoryStart + index * this.mCategoryWidth;
+    }
+
+    public calculate(dataMin, dataMax) {
+        if (this.mCategories && this.mCategories.length > 0) {
+            // the range spans all the categories, whatever the data
+            const halfWidth = this.mCategoryWidth / 2;
+            super.calculate(this.mCategoryStart - halfWidth, this.getCategoryPosition(this.mCategories.length - 1) + halfWidth);
+            return;
+        }
+        super.calculate(dataMin, dataMax);
+    }
+
+    public getValueFormatter() {
+        if (this.mTimeScaleEnabled && (this.mAxisValueFormatter == null || this.mAxisValueFormatter instanceof DefaultAxisValueFormatter)) {
+            if (!this.mTimeValueFormatter) {
+                this.mTimeValueFormatter = new TimeAxisValueFormatter();
+            }
+            return this.mTimeValueFormatter;
+        }
+        return super.getValueFormatter();
+    }
 }
@@ -10,14 +10,20 @@ import { Utils } from '../utils/Utils';
  */
 export enum AxisDependency {
     LEFT,
-    RIGHT,
+    RIGHT
 }
+
+/**
+ * identifies the y-axis a DataSet is plotted against: LEFT, RIGHT or the id
+ * of an additional axis
+ */
+export type AxisId = AxisDependency | string;
 /**
  * enum for the position of the y-labels relative to the chart
  */
 export enum YAxisLabelPosition {
     OUTSIDE_CHART,
-    INSIDE_CHART,
+    INSIDE_CHART
 }
 /**
  * Class representing the y-axis labels settings and its entries. Only use the setter methods to
@@ -91,6 +97,29 @@ export class YAxis extends AxisBase {
      */
     private mAxisDependency: AxisDependency;
 
+    /**
+     * the id DataSets use to be plotted against this axis
+     */
+    private mAxisId: AxisId;
+
+    /**
+     * distance in pixels between the content rect and this axis, set by the
+     * chart when several axes are stacked on the same side
+     */
+    protected mStackOffset = 0;
+
+    /**
+     * flag indicating the labels and the axis line are drawn in the color of
+     * the first DataSet plotted against this axis
+     */
+    protected mDrawInDataSetColor = false;
+
+    /**
+     * color of the first visible DataSet plotted against this axis, set by
+     * the chart, null if there is none
+     */
+    protected mDataSetColor = null;
+
     /**
      * the minimum width that the axis should take (in dp).
      * <p/>
@@ -105,9 +134,10 @@ export class YAxis extends AxisBase {
      */
     protected mMaxWidth = Number.POSITIVE_INFINITY;
 
-    constructor(position = AxisDependency.LEFT) {
+    constructor(position = AxisDependency.LEFT, id: AxisId = position) {
         super();
         this.mAxisDependency = position;
+        this.mAxisId = id;
         this.mYOffset = 0;
         this.allowLastLabelAboveMax = true;
     }
@@ -116,6 +146,62 @@ export class YAxis extends AxisBase {
         return this.mAxisDependency;
     }
 
+    /**
+     * Returns the id DataSets use to be plotted against this axis, which is
+     * its AxisDependency for the left and right axes.
+     */
+    public getAxisId() {
+        return this.mAxisId;
+    }
+
+    public getStackOffset() {
+        return this.mStackOffset;
+    }
+
+    /**
+     * Sets the distance in pixels between the content rect and this axis.
+     * Set by the chart when laying out its axes.
+     *
+     * @param offset
+     */
+    public setStackOffset(offset: number) {
+        this.mStackOffset = offset;
+    }
+
+    /**
+     * If true, the labels and the axis line are drawn in the color of the
+     * first visible DataSet plotted against this axis, the text and axis
+     * line colors set on the axis being used again once disabled. Default:
+     * false, true for additional axes
+     *
+     * @param enabled
+     */
+    public setDrawInDataSetColor(enabled: boolean) {
+        this.mDrawInDataSetColor = enabled;
+    }
+
+    public isDrawInDataSetColorEnabled() {
+        return this.mDrawInDataSetColor;
+    }
+
+    /**
+     * Sets the color of the first visible DataSet plotted against this axis.
+     * Set by the chart when its data changes.
+     *
+     * @param color
+     */
+    public setDataSetColor(color) {
+        this.mDataSetColor = color;
+    }
+
+    public getTextColor() {
+        return this.mDrawInDataSetColor && this.mDataSetColor != null ? this.mDataSetColor : super.getTextColor();
+    }
+
+    public getAxisLineColor() {
+        return this.mDrawInDataSetColor && this.mDataSetColor != null ? this.mDataSetColor : super.getAxisLineColor();
+    }
+
     /**
      * @return the minimum width that the axis should take (in dp).
      */
@@ -378,6 +464,10 @@ export class YAxis extends AxisBase {
     }
 
     public calculate(dataMin, dataMax) {
+        if (this.mLogScaleEnabled) {
+            this.calculateLogScale(dataMin, dataMax);
+            return;
+        }
         let min = this.mCustomAxisMin ? this.mAxisMinimum : dataMin - this.mSpaceMin;
         let max = this.mCustomAxisMax ? this.mAxisMaximum : dataMax + this.mSpaceMax;
         if (this.mAxisSuggestedMinimum !== undefined) {
@@ -408,12 +498,14 @@ export class YAxis extends AxisBase {
 
         // calc extra spacing only for range.
         // using it for mAxisMinimum and mAxisMaximum would make the axis use decaled "values"
+        // spacing is relative to the range drawn, without the breaks
+        const drawnRange = range - this.getCollapsedLength(min, max);
         let delta = 0;
         if (!this.mCustomAxisMin) {
-            delta += (range / 100) * this.getSpaceBottom();
+            delta += (drawnRange / 100) * this.getSpaceBottom();
         }
         if (!this.mCustomAxisMax) {
-            delta += (range / 100) * this.getSpaceTop();
+            delta += (drawnRange / 100) * this.getSpaceTop();
         }
         this.mAxisRange = range + delta;
     }
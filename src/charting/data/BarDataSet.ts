@@ -2,8 +2,27 @@ import { Color } from '@nativescript/core/color';
 import { BarLineScatterCandleBubbleDataSet } from './BarLineScatterCandleBubbleDataSet';
 import { BarEntry } from './BarEntry';
 import { IBarDataSet } from '../interfaces/datasets/IBarDataSet';
+import { CircleShapeRenderer } from '../renderer/scatter/CircleShapeRenderer';
+import { IShapeRenderer } from '../renderer/scatter/IShapeRenderer';
+import { ColorTemplate } from '../utils/ColorTemplate';
 import { Utils } from '../utils/Utils';
 
+/**
+ * enum for the way the entries of a BarDataSet are drawn
+ */
+export enum BarDrawMode {
+    BAR,
+    /**
+     * a stem from the base of the bar to the value, ended by a shape
+     */
+    LOLLIPOP,
+    /**
+     * a stem joining the start value of the entry to its value, with a shape
+     * at each end
+     */
+    DUMBBELL
+}
+
 export class BarDataSet extends BarLineScatterCandleBubbleDataSet<BarEntry> implements IBarDataSet {
     /**
      * the maximum number of bars that are stacked upon each other, this value
@@ -35,6 +54,45 @@ export class BarDataSet extends BarLineScatterCandleBubbleDataSet<BarEntry> impl
      */
     private mStackLabels = ['Stack'];
 
+    protected mDrawMode = BarDrawMode.BAR;
+
+    /**
+     * entry property holding the start value of the dumbbells
+     */
+    protected mDumbbellStartProperty = 'start';
+
+    /**
+     * color of the shape at the start of the dumbbells, the DataSet color is
+     * used if null
+     */
+    protected mDumbbellStartColor: string | Color = null;
+
+    /**
+     * width of the lollipop and dumbbell stems
+     */
+    protected mStemWidth = 2;
+
+    /**
+     * color of the lollipop and dumbbell stems, the DataSet color is used if
+     * null
+     */
+    protected mStemColor: string | Color = null;
+
+    /**
+     * Renderer responsible for the shapes of the lollipops and dumbbells,
+     * default: circle
+     */
+    protected mShapeRenderer: IShapeRenderer = new CircleShapeRenderer();
+
+    /**
+     * the size of the lollipop and dumbbell shapes, in density pixels
+     */
+    protected mShapeSize = 12;
+
+    protected mShapeHoleRadius = 0;
+
+    protected mShapeHoleColor: string | Color = ColorTemplate.COLOR_NONE;
+
     constructor(values, label, xProperty?, yProperty?) {
         super(values, label, xProperty, yProperty);
         this.mHighLightColor = 'black';
@@ -104,11 +162,20 @@ export class BarDataSet extends BarLineScatterCandleBubbleDataSet<BarEntry> impl
                 if (e[yProperty] < this.mYMin) this.mYMin = e[yProperty];
 
                 if (e[yProperty] > this.mYMax) this.mYMax = e[yProperty];
+
+                // dumbbells have to be visible from their start value
+                if (this.mDrawMode === BarDrawMode.DUMBBELL) {
+                    const start = e[this.mDumbbellStartProperty];
+                    if (start < this.mYMin) this.mYMin = start;
+
+                    if (start > this.mYMax) this.mYMax = start;
+                }
             } else {
                 if (-e.negativeSum < this.mYMin) this.mYMin = -e.negativeSum;
 
                 if (e.positiveSum > this.mYMax) this.mYMax = e.positiveSum;
             }
+            this.calcMinMaxErrorBar(e);
 
             this.calcMinMaxX(e);
         }
@@ -213,4 +280,115 @@ export class BarDataSet extends BarLineScatterCandleBubbleDataSet<BarEntry> impl
     public getStackLabels() {
         return this.mStackLabels;
     }
+
+    /**
+     * Sets the way the entries are drawn: bars, lollipops or dumbbells.
+     * Lollipops and dumbbells are not drawn for stacked entries.
+     * Default: BAR
+     *
+     * @param mode
+     */
+    public setDrawMode(mode: BarDrawMode) {
+        this.mDrawMode = mode;
+        this.calcMinMax();
+    }
+
+    public getDrawMode() {
+        return this.mDrawMode;
+    }
+
+    /**
+     * Sets the entry property holding the start value of the dumbbells, the
+     * y value being their end. Default: 'start'
+     *
+     * @param property
+     */
+    public setDumbbellStartProperty(property: string) {
+        this.mDumbbellStartProperty = property;
+        this.calcMinMax();
+    }
+
+    public getDumbbellStartProperty() {
+        return this.mDumbbellStartProperty;
+    }
+
+    /**
+     * Sets the color of the shape at the start of the dumbbells, null to use
+     * the DataSet color.
+     *
+     * @param color
+     */
+    public setDumbbellStartColor(color: string | Color) {
+        this.mDumbbellStartColor = color;
+    }
+
+    public getDumbbellStartColor() {
+        return this.mDumbbellStartColor;
+    }
+
+    public setStemWidth(width: number) {
+        this.mStemWidth = width;
+    }
+
+    public getStemWidth() {
+        return this.mStemWidth;
+    }
+
+    /**
+     * Sets the color of the lollipop and dumbbell stems, null to use the
+     * DataSet color.
+     *
+     * @param color
+     */
+    public setStemColor(color: string | Color) {
+        this.mStemColor = color;
+    }
+
+    public getStemColor() {
+        return this.mStemColor;
+    }
+
+    /**
+     * Sets a new IShapeRenderer responsible for drawing the ends of the
+     * lollipops and dumbbells, ScatterDataSet.getRendererForShape() returning
+     * the renderers of the ScatterShapes.
+     *
+     * @param shapeRenderer
+     */
+    public setShapeRenderer(shapeRenderer: IShapeRenderer) {
+        this.mShapeRenderer = shapeRenderer;
+    }
+
+    public getShapeRenderer() {
+        return this.mShapeRenderer;
+    }
+
+    /**
+     * Sets the size in density pixels of the lollipop and dumbbell shapes.
+     *
+     * @param size
+     */
+    public setScatterShapeSize(size: number) {
+        this.mShapeSize = size;
+    }
+
+    public getScatterShapeSize() {
+        return this.mShapeSize;
+    }
+
+    public setScatterShapeHoleRadius(holeRadius: number) {
+        this.mShapeHoleRadius = holeRadius;
+    }
+
+    public getScatterShapeHoleRadius() {
+        return this.mShapeHoleRadius;
+    }
+
+    public setScatterShapeHoleColor(holeColor: string | Color) {
+        this.mShapeHoleColor = holeColor;
+    }
+
+    public getScatterShapeHoleColor() {
+        return this.mShapeHoleColor;
+    }
 }
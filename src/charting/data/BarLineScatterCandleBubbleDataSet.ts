@@ -3,6 +3,20 @@ import { Entry } from './Entry';
 import { IBarLineScatterCandleBubbleDataSet } from '../interfaces/datasets/IBarLineScatterCandleBubbleDataSet';
 import { Color } from '@nativescript/core/color';
 
+/**
+ * enum for the way the error values of the entries are read
+ */
+export enum ErrorBarType {
+    /**
+     * the error values are in y values
+     */
+    ABSOLUTE,
+    /**
+     * the error values are percentages of the y value
+     */
+    PERCENT
+}
+
 /**
  * Baseclass of all DataSets for Bar-, Line-, Scatter- and CandleStickChart.
  *
@@ -14,6 +28,31 @@ export abstract class BarLineScatterCandleBubbleDataSet<T extends Entry> extends
      */
     mHighLightColor: string | Color = '#FFBB73';
 
+    /**
+     * entry property holding the error below the y value, or on both sides
+     * if there is no plus property
+     */
+    protected mErrorProperty: string = null;
+
+    /**
+     * entry property holding the error above the y value
+     */
+    protected mErrorPlusProperty: string = null;
+
+    protected mErrorBarType = ErrorBarType.ABSOLUTE;
+
+    /**
+     * color of the error bars, the DataSet color is used if null
+     */
+    protected mErrorBarColor: string | Color = null;
+
+    protected mErrorBarLineWidth = 1;
+
+    /**
+     * width of the caps at the ends of the error bars, in pixels
+     */
+    protected mErrorBarCapWidth = 6;
+
     // constructor(values, label) {
     //     super(values, label);
     // }
@@ -32,4 +71,133 @@ export abstract class BarLineScatterCandleBubbleDataSet<T extends Entry> extends
     public getHighLightColor() {
         return this.mHighLightColor;
     }
+
+    /**
+     * Sets the entry properties holding the errors of the entries, drawn as
+     * error bars. The first property holds the error on both sides of the y
+     * value unless a plus property holds the error above it. The error bars
+     * are part of the y range of the DataSet. Pass null to remove them.
+     *
+     * @param errorProperty
+     * @param plusProperty
+     */
+    public setErrorBarProperties(errorProperty: string, plusProperty: string = null) {
+        this.mErrorProperty = errorProperty;
+        this.mErrorPlusProperty = plusProperty;
+        this.calcMinMax();
+    }
+
+    public getErrorProperty() {
+        return this.mErrorProperty;
+    }
+
+    public getErrorPlusProperty() {
+        return this.mErrorPlusProperty;
+    }
+
+    public isErrorBarsEnabled() {
+        return !!this.mErrorProperty;
+    }
+
+    /**
+     * Sets whether the error values are in y values or percentages of the y
+     * value. Default: ABSOLUTE
+     *
+     * @param type
+     */
+    public setErrorBarType(type: ErrorBarType) {
+        this.mErrorBarType = type;
+        this.calcMinMax();
+    }
+
+    public getErrorBarType() {
+        return this.mErrorBarType;
+    }
+
+    /**
+     * Sets the color of the error bars, null to use the DataSet color.
+     *
+     * @param color
+     */
+    public setErrorBarColor(color: string | Color) {
+        this.mErrorBarColor = color;
+    }
+
+    public getErrorBarColor() {
+        return this.mErrorBarColor;
+    }
+
+    public setErrorBarLineWidth(width: number) {
+        this.mErrorBarLineWidth = width;
+    }
+
+    public getErrorBarLineWidth() {
+        return this.mErrorBarLineWidth;
+    }
+
+    /**
+     * Sets the width of the caps at the ends of the error bars in pixels, 0
+     * to draw no caps. Default: 6
+     *
+     * @param width
+     */
+    public setErrorBarCapWidth(width: number) {
+        this.mErrorBarCapWidth = width;
+    }
+
+    public getErrorBarCapWidth() {
+        return this.mErrorBarCapWidth;
+    }
+
+    /**
+     * Returns the error of the given entry held by the given property, in y
+     * values.
+     *
+     * @param e
+     * @param key
+     */
+    protected getErrorValue(e: T, key: string) {
+        const error = Math.abs(e[key] || 0);
+        return this.mErrorBarType === ErrorBarType.PERCENT ? (error * Math.abs(e[this.yProperty] || 0)) / 100 : error;
+    }
+
+    /**
+     * Returns the y value at the bottom of the error bar of the given entry.
+     *
+     * @param e
+     */
+    public getErrorBarLow(e: T) {
+        return (e[this.yProperty] || 0) - this.getErrorValue(e, this.mErrorProperty);
+    }
+
+    /**
+     * Returns the y value at the top of the error bar of the given entry.
+     *
+     * @param e
+     */
+    public getErrorBarHigh(e: T) {
+        return (e[this.yProperty] || 0) + this.getErrorValue(e, this.mErrorPlusProperty || this.mErrorProperty);
+    }
+
+    protected calcMinMaxY(e: T, index?: number) {
+        super.calcMinMaxY(e, index);
+        this.calcMinMaxErrorBar(e);
+    }
+
+    /**
+     * Updates the min and max y values so that the error bar of the given
+     * entry is visible.
+     *
+     * @param e
+     */
+    protected calcMinMaxErrorBar(e: T) {
+        if (!this.mErrorProperty) {
+            return;
+        }
+        const low = this.getErrorBarLow(e);
+        const high = this.getErrorBarHigh(e);
+        if (low < this.mYMin) this.mYMin = low;
+
+        if (high > this.mYMax) this.mYMax = high;
+    }
 }
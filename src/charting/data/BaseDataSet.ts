@@ -2,7 +2,7 @@ import { ObservableArray } from '@nativescript/core';
 import { Entry } from './Entry';
 import { IDataSet } from '../interfaces/datasets/IDataSet';
 import { LegendForm } from '../components/Legend';
-import { AxisDependency } from '../components/YAxis';
+import { AxisDependency, AxisId } from '../components/YAxis';
 import { ValueFormatter } from '../formatter/ValueFormatter';
 import { GradientColor } from '../model/GradientColor';
 import { Color } from '@nativescript/core/color';
@@ -65,7 +65,7 @@ export abstract class BaseDataSet<T extends Entry> implements IDataSet<T> {
     /**
      * this specifies which axis this DataSet should be plotted against
      */
-    protected mAxisDependency = AxisDependency.LEFT;
+    protected mAxisDependency: AxisId = AxisDependency.LEFT;
 
     /**
      * if true, value highlightning is enabled
@@ -368,7 +368,7 @@ export abstract class BaseDataSet<T extends Entry> implements IDataSet<T> {
         return this.mAxisDependency;
     }
 
-    public setAxisDependency(dependency) {
+    public setAxisDependency(dependency: AxisId) {
         this.mAxisDependency = dependency;
     }
 
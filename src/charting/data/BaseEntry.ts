@@ -7,5 +7,10 @@ import { ImageSource } from '@nativescript/core/image-source';
 export interface BaseEntry {
     icon?: ImageSource | Shape;
     data?: any;
+    /**
+     * name of the category given as x-value, kept once resolved to the
+     * position of the category on a category axis
+     */
+    category?: string;
     [k: string]: any;
 }
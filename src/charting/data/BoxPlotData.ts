@@ -0,0 +1,5 @@
+import { BarLineScatterCandleBubbleData } from './BarLineScatterCandleBubbleData';
+import { BoxPlotDataSet } from './BoxPlotDataSet';
+import { BoxPlotEntry } from './BoxPlotEntry';
+
+export class BoxPlotData extends BarLineScatterCandleBubbleData<BoxPlotEntry, BoxPlotDataSet> {}
@@ -0,0 +1,254 @@
+import { Style } from '@nativescript-community/ui-canvas';
+import { Color } from '@nativescript/core/color';
+import { BoxPlotEntry } from './BoxPlotEntry';
+import { LineScatterCandleRadarDataSet } from './LineScatterCandleRadarDataSet';
+import { IBoxPlotDataSet } from '../interfaces/datasets/IBoxPlotDataSet';
+import { Utils } from '../utils/Utils';
+
+export class BoxPlotDataSet extends LineScatterCandleRadarDataSet<BoxPlotEntry> implements IBoxPlotDataSet {
+    /**
+     * the space between the boxes, default 0.1 (10%)
+     */
+    private mBarSpace = 0.1;
+
+    /**
+     * the width of the box, whisker and median lines
+     */
+    private mBoxLineWidth = 1.5;
+
+    /**
+     * palet style of the boxes
+     */
+    protected mBoxPaintStyle = Style.STROKE;
+
+    /**
+     * color of the median line, null to use the box color
+     */
+    protected mMedianColor: string | Color = null;
+
+    /**
+     * width of the whisker caps relative to the box width
+     */
+    private mWhiskerCapWidth = 0.5;
+
+    private mOutlierRadius = 3;
+
+    private mDrawOutliers = true;
+
+    /**
+     * whiskers extend to the furthest samples within this many interquartile
+     * ranges from the box, samples further away are outliers. Only used when
+     * computing the statistics from samples.
+     */
+    private mWhiskerIQRFactor = 1.5;
+
+    constructor(yVals, label, xProperty?, yProperty?) {
+        super(yVals, label, xProperty, yProperty);
+        this.init();
+    }
+
+    init() {
+        this.calcAllStatistics();
+        super.init();
+    }
+
+    calcMinMax() {
+        this.calcAllStatistics();
+        super.calcMinMax();
+    }
+
+    /**
+     * Computes the statistics of all entries providing samples.
+     */
+    protected calcAllStatistics() {
+        if (this.mValues == null) return;
+        for (let index = 0; index < this.mValues.length; index++) {
+            const e = this.getEntryForIndex(index);
+            if (e) {
+                this.calcStatistics(e);
+            }
+        }
+    }
+
+    /**
+     * Computes the quartiles, whiskers, mean and outliers of the given entry
+     * from its samples. Entries without samples are expected to provide
+     * their statistics.
+     *
+     * @param e
+     */
+    protected calcStatistics(e: BoxPlotEntry) {
+        if (e.samples && e.samples.length > 0) {
+            const sorted = e.samples.filter((v) => v != null && !isNaN(v)).sort((a, b) => a - b);
+            if (sorted.length === 0) return;
+
+            e.q1 = Utils.quantile(sorted, 0.25);
+            e.median = Utils.quantile(sorted, 0.5);
+            e.q3 = Utils.quantile(sorted, 0.75);
+            e.mean = sorted.reduce((sum, v) => sum + v, 0) / sorted.length;
+
+            if (!Number.isFinite(this.mWhiskerIQRFactor)) {
+                // a null IQR times Infinity would give NaN fences
+                e.min = sorted[0];
+                e.max = sorted[sorted.length - 1];
+                e.outliers = [];
+            } else {
+                const range = (e.q3 - e.q1) * this.mWhiskerIQRFactor;
+                const lowFence = e.q1 - range;
+                const highFence = e.q3 + range;
+                const inside = sorted.filter((v) => v >= lowFence && v <= highFence);
+                e.min = inside[0];
+                e.max = inside[inside.length - 1];
+                e.outliers = sorted.filter((v) => v < lowFence || v > highFence);
+            }
+        }
+        const yKey = this.yProperty;
+        if (e[yKey] === undefined) {
+            e[yKey] = e.median;
+        }
+    }
+
+    protected calcMinMaxForEntry(e?: BoxPlotEntry, index?: number) {
+        if (!e) return;
+        this.calcMinMaxY(e);
+        this.calcMinMaxX(e, index);
+    }
+
+    protected calcMinMaxY(e: BoxPlotEntry) {
+        let low = Math.min(e.min, e.q1);
+        let high = Math.max(e.max, e.q3);
+        if (e.outliers) {
+            for (const v of e.outliers) {
+                if (v < low) low = v;
+                if (v > high) high = v;
+            }
+        }
+        if (low < this.mYMin) this.mYMin = low;
+
+        if (high > this.mYMax) this.mYMax = high;
+    }
+
+    public addEntry(e: BoxPlotEntry) {
+        if (!e) return false;
+        this.calcStatistics(e);
+        return super.addEntry(e);
+    }
+
+    public addEntryOrdered(e: BoxPlotEntry) {
+        if (!e) return;
+        this.calcStatistics(e);
+        super.addEntryOrdered(e);
+    }
+
+    /**
+     * Sets the space that is left out on the left and right side of each
+     * box, default 0.1 (10%), max 0.45f, min 0
+     *
+     * @param space
+     */
+    public setBarSpace(space) {
+        if (space < 0) space = 0;
+        if (space > 0.45) space = 0.45;
+
+        this.mBarSpace = space;
+    }
+
+    public getBarSpace() {
+        return this.mBarSpace;
+    }
+
+    /**
+     * Sets the width of the box, whisker and median lines in pixels. Default 1.5f.
+     *
+     * @param width
+     */
+    public setBoxLineWidth(width) {
+        this.mBoxLineWidth = width;
+    }
+
+    public getBoxLineWidth() {
+        return this.mBoxLineWidth;
+    }
+
+    /**
+     * Sets palet style of the boxes. Default: STROKE
+     *
+     * @param paintStyle
+     */
+    public setBoxPaintStyle(paintStyle) {
+        this.mBoxPaintStyle = paintStyle;
+    }
+
+    public getBoxPaintStyle() {
+        return this.mBoxPaintStyle;
+    }
+
+    /**
+     * Sets the color of the median line, null to use the box color.
+     *
+     * @param color
+     */
+    public setMedianColor(color: string | Color) {
+        this.mMedianColor = color;
+    }
+
+    public getMedianColor() {
+        return this.mMedianColor;
+    }
+
+    /**
+     * Sets the width of the whisker caps relative to the box width, 0 to
+     * disable them. Default 0.5f
+     *
+     * @param width
+     */
+    public setWhiskerCapWidth(width) {
+        this.mWhiskerCapWidth = Math.max(0, Math.min(1, width));
+    }
+
+    public getWhiskerCapWidth() {
+        return this.mWhiskerCapWidth;
+    }
+
+    /**
+     * Sets the radius of the outlier circles in pixels. Default 3f
+     *
+     * @param radius
+     */
+    public setOutlierRadius(radius) {
+        this.mOutlierRadius = radius;
+    }
+
+    public getOutlierRadius() {
+        return this.mOutlierRadius;
+    }
+
+    /**
+     * Enables / disables drawing the outliers.
+     *
+     * @param enabled
+     */
+    public setDrawOutliers(enabled) {
+        this.mDrawOutliers = enabled;
+    }
+
+    public isDrawOutliersEnabled() {
+        return this.mDrawOutliers;
+    }
+
+    /**
+     * Sets how many interquartile ranges the whiskers may extend from the
+     * box when computing the statistics from samples. Use Infinity to extend
+     * the whiskers to the extreme samples. Default 1.5f
+     *
+     * @param factor
+     */
+    public setWhiskerIQRFactor(factor) {
+        this.mWhiskerIQRFactor = factor;
+        this.calcMinMax();
+    }
+
+    public getWhiskerIQRFactor() {
+        return this.mWhiskerIQRFactor;
+    }
+}
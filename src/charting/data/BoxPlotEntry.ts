@@ -0,0 +1,32 @@
+import { Entry } from './Entry';
+
+/**
+ * Entry of a BoxPlotDataSet. Either provide the precomputed statistics
+ * (min, q1, median, q3, max and optionally outliers) or the raw samples, in
+ * which case the statistics are computed by the DataSet.
+ */
+export interface BoxPlotEntry extends Entry {
+    /** lower whisker value */
+    min?: number;
+
+    /** first quartile */
+    q1?: number;
+
+    /** median value */
+    median?: number;
+
+    /** third quartile */
+    q3?: number;
+
+    /** upper whisker value */
+    max?: number;
+
+    /** mean value, only computed from samples */
+    mean?: number;
+
+    /** values lying outside of the whiskers */
+    outliers?: number[];
+
+    /** raw samples to compute the statistics from */
+    samples?: number[];
+}
@@ -0,0 +1,167 @@
+import { Color } from '@nativescript/core/color';
+import { BarDataSet } from './BarDataSet';
+import { BulletEntry } from './BulletEntry';
+
+/**
+ * DataSet of bullet graphs: each entry is drawn as a performance bar (its y
+ * value) over qualitative bands going from zero to each of its band
+ * thresholds, with a marker across the bar at its target value. The bars
+ * are narrower than the bands, which fill the whole bar width of the
+ * BarData.
+ */
+export class BulletDataSet extends BarDataSet {
+    /**
+     * property to access the target value of an entry
+     */
+    targetProperty = 'target';
+
+    /**
+     * property to access the band thresholds of an entry
+     */
+    bandsProperty = 'bands';
+
+    /**
+     * colors of the bands, from the lowest band up. The last color is used
+     * for the bands beyond it.
+     */
+    protected mBandColors: (string | Color)[] = ['#999999', '#BBBBBB', '#DDDDDD'];
+
+    /**
+     * width of the performance bar in percent of the band width
+     */
+    protected mValueBarWidthPercent = 35;
+
+    protected mTargetColor: string | Color = 'black';
+
+    /**
+     * width of the target marker, in dp
+     */
+    protected mTargetLineWidth = 3;
+
+    /**
+     * length of the target marker in percent of the band width
+     */
+    protected mTargetLengthPercent = 70;
+
+    constructor(values, label, xProperty?, yProperty?, targetProperty?, bandsProperty?) {
+        super(values, label, xProperty, yProperty);
+        if (targetProperty) {
+            this.targetProperty = targetProperty;
+        }
+        if (bandsProperty) {
+            this.bandsProperty = bandsProperty;
+        }
+        // the entries were initialized by BarDataSet before the target and
+        // band properties were set, only the min / max values depend on them
+        this.calcMinMax();
+    }
+
+    protected calcMinMaxForEntry(e?: BulletEntry, index?: number) {
+        if (!e) return;
+        super.calcMinMaxForEntry(e, index);
+
+        // the bands always start at zero
+        const values = this.getEntryBands(e).concat(0);
+        const target = e[this.targetProperty];
+        if (target != null && !isNaN(target)) {
+            values.push(target);
+        }
+        for (const value of values) {
+            if (value < this.mYMin) this.mYMin = value;
+
+            if (value > this.mYMax) this.mYMax = value;
+        }
+    }
+
+    /**
+     * Returns the band thresholds of the given entry, sorted in ascending
+     * order.
+     *
+     * @param e
+     */
+    public getEntryBands(e: BulletEntry): number[] {
+        const bands = this.bandsProperty && e[this.bandsProperty];
+        if (!bands) {
+            return [];
+        }
+        return bands.filter((value) => value != null && !isNaN(value)).sort((a, b) => a - b);
+    }
+
+    /**
+     * Sets the colors of the bands, from the lowest band up. The last color
+     * is used for the bands beyond it. Default: ['#999999', '#BBBBBB', '#DDDDDD']
+     *
+     * @param colors
+     */
+    public setBandColors(colors: (string | Color)[]) {
+        this.mBandColors = colors;
+    }
+
+    public getBandColors() {
+        return this.mBandColors;
+    }
+
+    /**
+     * Returns the color of the band at the given index, starting from the
+     * lowest band.
+     *
+     * @param index
+     */
+    public getBandColor(index: number) {
+        return this.mBandColors[Math.min(index, this.mBandColors.length - 1)];
+    }
+
+    /**
+     * Sets the width of the performance bar in percent of the band width.
+     * Default: 35
+     *
+     * @param percent
+     */
+    public setValueBarWidthPercent(percent: number) {
+        this.mValueBarWidthPercent = percent;
+    }
+
+    public getValueBarWidthPercent() {
+        return this.mValueBarWidthPercent;
+    }
+
+    /**
+     * Sets the color of the target marker. Default: black
+     *
+     * @param color
+     */
+    public setTargetColor(color: string | Color) {
+        this.mTargetColor = color;
+    }
+
+    public getTargetColor() {
+        return this.mTargetColor;
+    }
+
+    /**
+     * Sets the width of the target marker in dp. Default: 3
+     *
+     * @param width
+     */
+    public setTargetLineWidth(width: number) {
+        this.mTargetLineWidth = width;
+    }
+
+    public getTargetLineWidth() {
+        return this.mTargetLineWidth;
+    }
+
+    /**
+     * Sets the length of the target marker in percent of the band width.
+     * Default: 70
+     *
+     * @param percent
+     */
+    public setTargetLengthPercent(percent: number) {
+        this.mTargetLengthPercent = percent;
+    }
+
+    public getTargetLengthPercent() {
+        return this.mTargetLengthPercent;
+    }
+}
@@ -0,0 +1,12 @@
+import { BarEntry } from './BarEntry';
+
+export interface BulletEntry extends BarEntry {
+    /**
+     * value the target marker is drawn at
+     */
+    target?: number;
+    /**
+     * upper thresholds of the qualitative bands, all bands starting at zero
+     */
+    bands?: number[];
+}
@@ -0,0 +1,200 @@
+import { CalendarHeatmapEntry } from './CalendarHeatmapEntry';
+import { HeatmapDataSet } from './HeatmapDataSet';
+import { QuantizedColorScale } from '../utils/colorscale/QuantizedColorScale';
+
+const MILLIS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * HeatmapDataSet of daily values laid out as a calendar: one column per week
+ * and one row per weekday, the first row being the first day of the week.
+ * The x (week) and y (weekday row) values of the entries are computed from
+ * their date, entries need to be sorted by date.
+ */
+export class CalendarHeatmapDataSet extends HeatmapDataSet {
+    /**
+     * property to access the date of an entry
+     */
+    dateProperty = 'date';
+
+    /**
+     * first day of the week, 0 being Sunday
+     */
+    protected mFirstDayOfWeek = 0;
+
+    /**
+     * fixed days the calendar spans, null to use the dates of the entries
+     */
+    protected mRangeStart: Date = null;
+    protected mRangeEnd: Date = null;
+
+    /**
+     * first day of the first week of the calendar
+     */
+    protected mStartDate: Date = null;
+
+    constructor(values, label, dateProperty?, valueProperty?) {
+        super(values, label, 'x', 'y', valueProperty);
+        if (dateProperty) {
+            this.dateProperty = dateProperty;
+        }
+        this.mColorScale = new QuantizedColorScale(['#EBEDF0', '#9BE9A8', '#40C463', '#30A14E', '#216E39']);
+        // cell positions need the date property
+        this.calcMinMax();
+    }
+
+    init() {
+        this.calcCellPositions();
+        super.init();
+    }
+
+    calcMinMax() {
+        this.calcCellPositions();
+        super.calcMinMax();
+
+        // the fixed range is shown even without entries at its ends
+        if (this.mStartDate && this.mRangeStart && this.mRangeEnd) {
+            const half = this.mCellWidth / 2;
+            this.mXMin = Math.min(this.mXMin, -half);
+            this.mXMax = Math.max(this.mXMax, this.getWeekIndex(this.mRangeEnd) + half);
+            this.mYMin = Math.min(this.mYMin, -this.mCellHeight / 2);
+            this.mYMax = Math.max(this.mYMax, 6 + this.mCellHeight / 2);
+        }
+    }
+
+    /**
+     * Returns the given date value as a local Date at midnight. Strings in
+     * the 'YYYY-MM-DD' form are read as local days.
+     *
+     * @param value
+     */
+    protected toDay(value: Date | number | string): Date {
+        if (value == null) {
+            return null;
+        }
+        let date: Date;
+        const match = typeof value === 'string' && /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+        if (match) {
+            date = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+        } else {
+            date = new Date(value);
+        }
+        return isNaN(date.getTime()) ? null : new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    }
+
+    /**
+     * Returns the number of days from the start of the calendar to the given
+     * day, not affected by daylight saving time changes.
+     *
+     * @param day
+     */
+    protected getDayIndex(day: Date) {
+        const start = this.mStartDate;
+        return Math.round((Date.UTC(day.getFullYear(), day.getMonth(), day.getDate()) - Date.UTC(start.getFullYear(), start.getMonth(), start.getDate())) / MILLIS_PER_DAY);
+    }
+
+    protected getWeekIndex(day: Date) {
+        return Math.floor(this.getDayIndex(day) / 7);
+    }
+
+    /**
+     * Computes the start of the calendar and the x (week) and y (weekday
+     * row) values of the entries.
+     */
+    protected calcCellPositions() {
+        if (this.mValues == null || !this.dateProperty) return;
+
+        let first = this.toDay(this.mRangeStart);
+        if (!first) {
+            for (let index = 0; index < this.mValues.length; index++) {
+                const day = this.getEntryDate(this.getEntryForIndex(index));
+                if (day && (!first || day < first)) {
+                    first = day;
+                }
+            }
+        }
+        if (!first) {
+            this.mStartDate = null;
+            return;
+        }
+        const offset = (first.getDay() - this.mFirstDayOfWeek + 7) % 7;
+        this.mStartDate = new Date(first.getFullYear(), first.getMonth(), first.getDate() - offset);
+
+        const xKey = this.xProperty;
+        const yKey = this.yProperty;
+        for (let index = 0; index < this.mValues.length; index++) {
+            const e = this.getEntryForIndex(index);
+            const day = this.getEntryDate(e);
+            if (!day) continue;
+            const dayIndex = this.getDayIndex(day);
+            e[xKey] = Math.floor(dayIndex / 7);
+            e[yKey] = ((dayIndex % 7) + 7) % 7;
+        }
+    }
+
+    /**
+     * Returns the day of the given entry, null if it has no valid date.
+     *
+     * @param e
+     */
+    public getEntryDate(e: CalendarHeatmapEntry) {
+        return e ? this.toDay(e[this.dateProperty]) : null;
+    }
+
+    /**
+     * Returns the day of the cell at the given week (x) and weekday row (y),
+     * null if the calendar has no start.
+     *
+     * @param week
+     * @param row
+     */
+    public getDateForCell(week: number, row: number) {
+        const start = this.mStartDate;
+        if (!start) {
+            return null;
+        }
+        return new Date(start.getFullYear(), start.getMonth(), start.getDate() + Math.round(week) * 7 + Math.round(row));
+    }
+
+    /**
+     * Returns the first day of the first week of the calendar.
+     */
+    public getStartDate() {
+        return this.mStartDate;
+    }
+
+    /**
+     * Sets the first day of the week, 0 being Sunday and 1 Monday.
+     * Default: 0
+     *
+     * @param day
+     */
+    public setFirstDayOfWeek(day: number) {
+        this.mFirstDayOfWeek = ((Math.round(day) % 7) + 7) % 7;
+        this.calcMinMax();
+    }
+
+    public getFirstDayOfWeek() {
+        return this.mFirstDayOfWeek;
+    }
+
+    /**
+     * Sets the days the calendar spans whatever the dates of the entries,
+     * e.g. a whole year. Set to null to use the dates of the entries.
+     *
+     * @param start
+     * @param end
+     */
+    public setDateRange(start: Date | number | string, end: Date | number | string) {
+        this.mRangeStart = this.toDay(start);
+        this.mRangeEnd = this.toDay(end);
+        this.calcMinMax();
+    }
+
+    public getDateRangeStart() {
+        return this.mRangeStart;
+    }
+
+    public getDateRangeEnd() {
+        return this.mRangeEnd;
+    }
+}
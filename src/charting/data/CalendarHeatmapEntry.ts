@@ -0,0 +1,8 @@
+import { HeatmapEntry } from './HeatmapEntry';
+
+export interface CalendarHeatmapEntry extends HeatmapEntry {
+    /**
+     * day of the cell, as a Date, a timestamp or a 'YYYY-MM-DD' string
+     */
+    date?: Date | number | string;
+}
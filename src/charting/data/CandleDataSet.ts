@@ -5,6 +5,26 @@ import { Style } from '@nativescript-community/ui-canvas';
 import { ColorTemplate } from '../utils/ColorTemplate';
 import { Utils } from '../utils/Utils';
 
+/**
+ * The way the entries of a CandleDataSet are drawn.
+ */
+export enum CandleDrawMode {
+    /**
+     * candle bodies between open and close, with high/low shadows
+     */
+    CANDLE,
+    /**
+     * classic OHLC bars: a vertical high/low line with the open tick on the
+     * left and the close tick on the right
+     */
+    OHLC,
+    /**
+     * candles whose body is hollow when close > open and filled otherwise,
+     * colored by the close compared to the previous close
+     */
+    HOLLOW
+}
+
 export class CandleDataSet extends LineScatterCandleRadarDataSet<CandleEntry> implements ICandleDataSet {
     /**
      * property to access the "high" value of an entry for this set
@@ -34,12 +54,11 @@ export class CandleDataSet extends LineScatterCandleRadarDataSet<CandleEntry> im
     private mShadowWidth = 3;
 
     /**
-     * should the candle bars show?
-     * when false, only "ticks" will show
+     * the way the entries are drawn
      * <p/>
-     * - default: true
+     * - default: CandleDrawMode.CANDLE
      */
-    private mShowCandleBar = true;
+    private mDrawMode = CandleDrawMode.CANDLE;
 
     /**
      * the space between the candle entries, default 0.1 (10%)
@@ -84,6 +103,12 @@ export class CandleDataSet extends LineScatterCandleRadarDataSet<CandleEntry> im
      */
     protected mShadowColor = ColorTemplate.COLOR_SKIP;
 
+    /**
+     * the DataSets computed from the entries of this one, notified when they
+     * change
+     */
+    protected mDerivedDataSets: CandleDataSet[] = [];
+
     constructor(yVals, label, xProperty?, yProperty?, highProperty?, lowProperty?, openProperty?, closeProperty?) {
         super(yVals, label, xProperty, yProperty);
         if (highProperty) {
@@ -101,6 +126,32 @@ export class CandleDataSet extends LineScatterCandleRadarDataSet<CandleEntry> im
         this.init();
     }
 
+    /**
+     * Registers a DataSet computed from the entries of this one so that it
+     * is computed again whenever notifyDataSetChanged() is called on this one.
+     *
+     * @param dataSet
+     */
+    public addDerivedDataSet(dataSet: CandleDataSet) {
+        if (this.mDerivedDataSets.indexOf(dataSet) === -1) {
+            this.mDerivedDataSets.push(dataSet);
+        }
+    }
+
+    public removeDerivedDataSet(dataSet: CandleDataSet) {
+        const index = this.mDerivedDataSets.indexOf(dataSet);
+        if (index >= 0) {
+            this.mDerivedDataSets.splice(index, 1);
+        }
+    }
+
+    public notifyDataSetChanged() {
+        super.notifyDataSetChanged();
+        for (const dataSet of this.mDerivedDataSets) {
+            dataSet.notifyDataSetChanged();
+        }
+    }
+
     protected calcMinMaxForEntry(e?: CandleEntry, index?: number) {
         if (!e) return;
         const high = e[this.highProperty];
@@ -157,15 +208,30 @@ export class CandleDataSet extends LineScatterCandleRadarDataSet<CandleEntry> im
 
     /**
      * Sets whether the candle bars should show?
+     * When false, the entries are drawn as OHLC bars.
      *
      * @param showCandleBar
      */
     public setShowCandleBar(showCandleBar) {
-        this.mShowCandleBar = showCandleBar;
+        this.mDrawMode = showCandleBar ? CandleDrawMode.CANDLE : CandleDrawMode.OHLC;
     }
 
     public getShowCandleBar() {
-        return this.mShowCandleBar;
+        return this.mDrawMode !== CandleDrawMode.OHLC;
+    }
+
+    /**
+     * Sets the way the entries are drawn: candles, OHLC bars or hollow
+     * candles. Default: CandleDrawMode.CANDLE
+     *
+     * @param mode
+     */
+    public setDrawMode(mode: CandleDrawMode) {
+        this.mDrawMode = mode;
+    }
+
+    public getDrawMode() {
+        return this.mDrawMode;
     }
 
     // TODO
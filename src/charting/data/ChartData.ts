@@ -1,5 +1,5 @@
 import { Entry } from './Entry';
-import { AxisDependency } from '../components/YAxis';
+import { AxisDependency, AxisId } from '../components/YAxis';
 import { IValueFormatter } from '../formatter/IValueFormatter';
 import { Highlight } from '../highlight/Highlight';
 import { IDataSet } from '../interfaces/datasets/IDataSet';
@@ -34,6 +34,12 @@ export abstract class ChartData<U extends Entry, T extends IDataSet<U>> {
 
     mRightAxisMin = Infinity;
 
+    /**
+     * minimum and maximum y-values of the DataSets plotted against
+     * additional y-axes, by axis id
+     */
+    mAxisMinMax: { [id: string]: { min: number; max: number } } = {};
+
     /**
      * array that holds all DataSets the ChartData object represents
      */
@@ -131,6 +137,7 @@ export abstract class ChartData<U extends Entry, T extends IDataSet<U>> {
         this.mLeftAxisMin = Infinity;
         this.mRightAxisMax = -Infinity;
         this.mRightAxisMin = Infinity;
+        this.mAxisMinMax = {};
 
         // left axis
         const firstLeft = this.getFirstLeft(visibleDatasets);
@@ -163,6 +170,31 @@ export abstract class ChartData<U extends Entry, T extends IDataSet<U>> {
                 }
             }
         }
+
+        // additional axes
+        for (const dataSet of visibleDatasets) {
+            const axis = dataSet.getAxisDependency();
+            if (typeof axis === 'string') {
+                this.extendAxisMinMax(axis, dataSet.getYMin(), dataSet.getYMax());
+            }
+        }
+    }
+
+    /**
+     * Extends the y-range of the additional axis with the given id to the
+     * given values.
+     *
+     * @param axis
+     * @param min
+     * @param max
+     */
+    protected extendAxisMinMax(axis: string, min: number, max: number) {
+        let minMax = this.mAxisMinMax[axis];
+        if (!minMax) {
+            minMax = this.mAxisMinMax[axis] = { min: Infinity, max: -Infinity };
+        }
+        if (min < minMax.min) minMax.min = min;
+        if (max > minMax.max) minMax.max = max;
     }
 
     /** ONLY GETTERS AND SETTERS BELOW THIS */
@@ -183,10 +215,14 @@ export abstract class ChartData<U extends Entry, T extends IDataSet<U>> {
      * @param axis
      * @return
      */
-    public getYMin(axis?) {
+    public getYMin(axis?: AxisId) {
         if (axis === undefined) {
             return this.mYMin;
         }
+        if (typeof axis === 'string') {
+            const minMax = this.mAxisMinMax[axis];
+            return minMax && Number.isFinite(minMax.min) ? minMax.min : 0;
+        }
         if (axis === AxisDependency.LEFT) {
             if (!Number.isFinite(this.mLeftAxisMin)) {
                 if (!Number.isFinite(this.mRightAxisMin)) {
@@ -210,10 +246,14 @@ export abstract class ChartData<U extends Entry, T extends IDataSet<U>> {
      * @param axis
      * @return
      */
-    public getYMax(axis?: AxisDependency) {
+    public getYMax(axis?: AxisId) {
         if (axis === undefined) {
             return this.mYMax;
         }
+        if (typeof axis === 'string') {
+            const minMax = this.mAxisMinMax[axis];
+            return minMax && Number.isFinite(minMax.max) ? minMax.max : 0;
+        }
         if (axis === AxisDependency.LEFT) {
             if (!Number.isFinite(this.mLeftAxisMax)) {
                 if (!Number.isFinite(this.mRightAxisMax)) {
@@ -430,7 +470,7 @@ export abstract class ChartData<U extends Entry, T extends IDataSet<U>> {
      * @param e
      * @param axis
      */
-    protected calcMinMaxForEntry(set: IDataSet<Entry>, e: Entry, entryIndex: number, axis: AxisDependency) {
+    protected calcMinMaxForEntry(set: IDataSet<Entry>, e: Entry, entryIndex: number, axis: AxisId) {
         const xKey = set.xProperty;
         const yKey = set.yProperty;
         const xValue = set.getEntryXValue(e, entryIndex);
@@ -441,7 +481,9 @@ export abstract class ChartData<U extends Entry, T extends IDataSet<U>> {
         if (this.mXMax < xValue) this.mXMax = xValue;
         if (this.mXMin > xValue) this.mXMin = xValue;
 
-        if (axis === AxisDependency.LEFT) {
+        if (typeof axis === 'string') {
+            this.extendAxisMinMax(axis, yValue, yValue);
+        } else if (axis === AxisDependency.LEFT) {
             if (this.mLeftAxisMax < yValue) this.mLeftAxisMax = yValue;
             if (this.mLeftAxisMin > yValue) this.mLeftAxisMin = yValue;
         } else {
@@ -462,7 +504,10 @@ export abstract class ChartData<U extends Entry, T extends IDataSet<U>> {
         if (this.mXMax < d.getXMax()) this.mXMax = d.getXMax();
         if (this.mXMin > d.getXMin()) this.mXMin = d.getXMin();
 
-        if (d.getAxisDependency() === AxisDependency.LEFT) {
+        const axis = d.getAxisDependency();
+        if (typeof axis === 'string') {
+            this.extendAxisMinMax(axis, d.getYMin(), d.getYMax());
+        } else if (axis === AxisDependency.LEFT) {
             if (this.mLeftAxisMax < d.getYMax()) this.mLeftAxisMax = d.getYMax();
             if (this.mLeftAxisMin > d.getYMin()) this.mLeftAxisMin = d.getYMin();
         } else {
@@ -0,0 +1,318 @@
+import { ChangedData, ObservableArray } from '@nativescript/core';
+import { CandleDataSet } from './CandleDataSet';
+import { CandleEntry } from './CandleEntry';
+
+/**
+ * enum for the transform used to compute the candles of a
+ * DerivedCandleDataSet from its source
+ */
+export enum CandleTransform {
+    /**
+     * smoothed candles: close is the average of the source open, high, low
+     * and close, open is the middle of the previous derived candle
+     */
+    HEIKIN_ASHI,
+    /**
+     * bricks of `boxSize` height added each time the close moves by a box
+     * beyond the last brick, two boxes being needed to reverse
+     */
+    RENKO,
+    /**
+     * lines added each time the close goes beyond the last line, a reversal
+     * needing the close to go beyond the last `lineCount` lines
+     */
+    LINE_BREAK
+}
+
+/**
+ * Entry of a DerivedCandleDataSet, keeping the index of the source entry it
+ * was computed from.
+ */
+export interface DerivedCandleEntry extends CandleEntry {
+    sourceIndex: number;
+}
+
+/**
+ * CandleDataSet whose entries are computed from the entries of another
+ * CandleDataSet, the source. The entries are computed again whenever
+ * notifyDataSetChanged() is called on the source or on this DataSet, and
+ * whenever the ObservableArray holding the source entries changes.
+ * <p/>
+ * Heikin-Ashi candles keep the x values of the source entries. Renko bricks
+ * and Line Break lines do not follow time, they are placed at their index.
+ */
+export class DerivedCandleDataSet extends CandleDataSet {
+    protected mSource: CandleDataSet;
+
+    /**
+     * the source entries the change listener is attached to
+     */
+    protected mObservedValues: ObservableArray<CandleEntry>;
+
+    protected mTransform = CandleTransform.HEIKIN_ASHI;
+
+    /**
+     * height of the Renko bricks, in y values
+     */
+    protected mBoxSize = 1;
+
+    /**
+     * number of lines a Line Break reversal has to go beyond
+     */
+    protected mLineCount = 3;
+
+    constructor(source: CandleDataSet, transform = CandleTransform.HEIKIN_ASHI, label?: string) {
+        super([], label || source.getLabel(), source.xProperty, source.yProperty, source.highProperty, source.lowProperty, source.openProperty, source.closeProperty);
+        this.mTransform = transform;
+        this.setSource(source);
+    }
+
+    /**
+     * Sets the DataSet the entries are computed from and computes them.
+     *
+     * @param source
+     */
+    public setSource(source: CandleDataSet) {
+        if (this.mSource) {
+            this.mSource.removeDerivedDataSet(this);
+        }
+        this.mSource = source;
+        if (source) {
+            source.addDerivedDataSet(this);
+        }
+        this.notifyDataSetChanged();
+    }
+
+    public getSource() {
+        return this.mSource;
+    }
+
+    /**
+     * Stops following the changes of the source.
+     */
+    public dispose() {
+        this.observeValues(null);
+        if (this.mSource) {
+            this.mSource.removeDerivedDataSet(this);
+        }
+    }
+
+    protected onSourceValuesChange(event: ChangedData<CandleEntry>) {
+        this.notifyDataSetChanged();
+    }
+
+    /**
+     * Moves the change listener to the given source entries if they are
+     * held by an ObservableArray.
+     *
+     * @param values
+     */
+    protected observeValues(values) {
+        const observed = values instanceof ObservableArray ? values : null;
+        if (observed === this.mObservedValues) {
+            return;
+        }
+        if (this.mObservedValues) {
+            this.mObservedValues.off(ObservableArray.changeEvent, this.onSourceValuesChange, this);
+        }
+        this.mObservedValues = observed;
+        if (observed) {
+            observed.on(ObservableArray.changeEvent, this.onSourceValuesChange, this);
+        }
+    }
+
+    public notifyDataSetChanged() {
+        const source = this.mSource;
+        this.observeValues(source ? source.getValues() : null);
+        this.mValues = source ? this.computeValues(source) : [];
+        this.updateGetEntryForIndex();
+        super.notifyDataSetChanged();
+    }
+
+    /**
+     * Computes the entries from the source entries with the current
+     * transform.
+     *
+     * @param source
+     */
+    protected computeValues(source: CandleDataSet): DerivedCandleEntry[] {
+        switch (this.mTransform) {
+            case CandleTransform.RENKO:
+                return this.computeRenko(source);
+            case CandleTransform.LINE_BREAK:
+                return this.computeLineBreak(source);
+            default:
+                return this.computeHeikinAshi(source);
+        }
+    }
+
+    /**
+     * Creates an entry for the given open and close values, the high and low
+     * values being the body bounds unless given.
+     *
+     * @param x
+     * @param open
+     * @param close
+     * @param sourceIndex
+     * @param high
+     * @param low
+     */
+    protected createEntry(x: number, open: number, close: number, sourceIndex: number, high = Math.max(open, close), low = Math.min(open, close)) {
+        const entry = { sourceIndex } as DerivedCandleEntry;
+        if (this.xProperty) {
+            entry[this.xProperty] = x;
+        }
+        entry[this.yProperty] = (high + low) / 2;
+        entry[this.openProperty] = open;
+        entry[this.closeProperty] = close;
+        entry[this.highProperty] = high;
+        entry[this.lowProperty] = low;
+        return entry;
+    }
+
+    protected computeHeikinAshi(source: CandleDataSet) {
+        const entries: DerivedCandleEntry[] = [];
+        let previous: DerivedCandleEntry;
+        for (let i = 0; i < source.getEntryCount(); i++) {
+            const e = source.getEntryForIndex(i);
+            if (e == null) continue;
+            const open = e[source.openProperty] || 0;
+            const close = e[source.closeProperty] || 0;
+            const high = e[source.highProperty] || 0;
+            const low = e[source.lowProperty] || 0;
+
+            const haClose = (open + high + low + close) / 4;
+            const haOpen = previous ? (previous[this.openProperty] + previous[this.closeProperty]) / 2 : (open + close) / 2;
+            previous = this.createEntry(source.getEntryXValue(e, i), haOpen, haClose, i, Math.max(high, haOpen, haClose), Math.min(low, haOpen, haClose));
+            entries.push(previous);
+        }
+        return entries;
+    }
+
+    protected computeRenko(source: CandleDataSet) {
+        const entries: DerivedCandleEntry[] = [];
+        const boxSize = this.mBoxSize;
+        if (!(boxSize > 0)) {
+            return entries;
+        }
+        // bounds of the last brick, starting from the first close
+        let top: number;
+        let bottom: number;
+        for (let i = 0; i < source.getEntryCount(); i++) {
+            const e = source.getEntryForIndex(i);
+            if (e == null) continue;
+            const close = e[source.closeProperty] || 0;
+            if (top === undefined) {
+                top = bottom = close;
+                continue;
+            }
+            while (close >= top + boxSize) {
+                entries.push(this.createEntry(entries.length, top, top + boxSize, i));
+                bottom = top;
+                top += boxSize;
+            }
+            while (close <= bottom - boxSize) {
+                entries.push(this.createEntry(entries.length, bottom, bottom - boxSize, i));
+                top = bottom;
+                bottom -= boxSize;
+            }
+        }
+        return entries;
+    }
+
+    protected computeLineBreak(source: CandleDataSet) {
+        const entries: DerivedCandleEntry[] = [];
+        const lineCount = Math.max(1, this.mLineCount);
+        const openKey = this.openProperty;
+        const closeKey = this.closeProperty;
+        let base: number;
+        for (let i = 0; i < source.getEntryCount(); i++) {
+            const e = source.getEntryForIndex(i);
+            if (e == null) continue;
+            const close = e[source.closeProperty] || 0;
+            if (base === undefined) {
+                base = close;
+                continue;
+            }
+            const last = entries[entries.length - 1];
+            if (!last) {
+                if (close !== base) {
+                    entries.push(this.createEntry(0, base, close, i));
+                }
+                continue;
+            }
+            const top = Math.max(last[openKey], last[closeKey]);
+            const bottom = Math.min(last[openKey], last[closeKey]);
+            const rising = last[closeKey] > last[openKey];
+            if (close > top) {
+                // a reversal has to go beyond the highest of the last lines
+                if (!rising) {
+                    let highest = top;
+                    for (let j = Math.max(0, entries.length - lineCount); j < entries.length; j++) {
+                        highest = Math.max(highest, entries[j][openKey], entries[j][closeKey]);
+                    }
+                    if (close <= highest) continue;
+                }
+                entries.push(this.createEntry(entries.length, top, close, i));
+            } else if (close < bottom) {
+                if (rising) {
+                    let lowest = bottom;
+                    for (let j = Math.max(0, entries.length - lineCount); j < entries.length; j++) {
+                        lowest = Math.min(lowest, entries[j][openKey], entries[j][closeKey]);
+                    }
+                    if (close >= lowest) continue;
+                }
+                entries.push(this.createEntry(entries.length, bottom, close, i));
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * Sets the transform used to compute the entries and computes them.
+     * Default: HEIKIN_ASHI
+     *
+     * @param transform
+     */
+    public setTransform(transform: CandleTransform) {
+        this.mTransform = transform;
+        this.notifyDataSetChanged();
+    }
+
+    public getTransform() {
+        return this.mTransform;
+    }
+
+    /**
+     * Sets the height of the Renko bricks, in y values. Default: 1
+     *
+     * @param size
+     */
+    public setBoxSize(size: number) {
+        this.mBoxSize = size;
+        if (this.mTransform === CandleTransform.RENKO) {
+            this.notifyDataSetChanged();
+        }
+    }
+
+    public getBoxSize() {
+        return this.mBoxSize;
+    }
+
+    /**
+     * Sets the number of lines a Line Break reversal has to go beyond.
+     * Default: 3
+     *
+     * @param count
+     */
+    public setLineCount(count: number) {
+        this.mLineCount = count;
+        if (this.mTransform === CandleTransform.LINE_BREAK) {
+            this.notifyDataSetChanged();
+        }
+    }
+
+    public getLineCount() {
+        return this.mLineCount;
+    }
+}
@@ -0,0 +1,19 @@
+import { BarLineScatterCandleBubbleData } from './BarLineScatterCandleBubbleData';
+import { HeatmapDataSet } from './HeatmapDataSet';
+import { HeatmapEntry } from './HeatmapEntry';
+
+export class HeatmapData extends BarLineScatterCandleBubbleData<HeatmapEntry, HeatmapDataSet> {
+    /**
+     * Sets the size of the cells (in values, not pixels) for all DataSet
+     * objects this data object contains.
+     *
+     * @param width
+     * @param height
+     */
+    public setCellSize(width: number, height: number) {
+        for (let index = 0; index < this.mDataSets.length; index++) {
+            this.mDataSets[index].setCellSize(width, height);
+        }
+        this.notifyDataChanged();
+    }
+}
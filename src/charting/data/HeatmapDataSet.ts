@@ -0,0 +1,196 @@
+import { IHeatmapDataSet } from '../interfaces/datasets/IHeatmapDataSet';
+import { IColorScale } from '../utils/colorscale/IColorScale';
+import { LinearColorScale } from '../utils/colorscale/LinearColorScale';
+import { BarLineScatterCandleBubbleDataSet } from './BarLineScatterCandleBubbleDataSet';
+import { HeatmapEntry } from './HeatmapEntry';
+
+/**
+ * DataSet holding the (x, y, value) cells of a HeatmapChart. Entries need to be
+ * sorted by x value.
+ */
+export class HeatmapDataSet extends BarLineScatterCandleBubbleDataSet<HeatmapEntry> implements IHeatmapDataSet {
+    /**
+     * property to access the cell value of an entry for this set
+     *
+     */
+    valueProperty: string = 'value';
+
+    /**
+     * minimum cell value in the value array
+     */
+    protected mValueMin: number;
+
+    /**
+     * maximum cell value in the value array
+     */
+    protected mValueMax: number;
+
+    /**
+     * fixed value domain of the color scale, NaN to use the data range
+     */
+    protected mValueRangeMin = NaN;
+    protected mValueRangeMax = NaN;
+
+    /**
+     * the size of a cell, in values (not pixels)
+     */
+    protected mCellWidth = 1;
+    protected mCellHeight = 1;
+
+    /**
+     * space left between cells, in dp
+     */
+    protected mCellSpacing = 0;
+
+    protected mColorScale: IColorScale = new LinearColorScale();
+
+    protected mHighlightLineWidth = 2;
+
+    constructor(values, label, xProperty?, yProperty?, valueProperty?) {
+        super(values, label, xProperty, yProperty);
+        if (valueProperty) {
+            this.valueProperty = valueProperty;
+        }
+        this.mHighLightColor = 'black';
+        this.init();
+    }
+
+    init() {
+        this.mValueMin = Infinity;
+        this.mValueMax = -Infinity;
+        super.init();
+    }
+
+    calcMinMax() {
+        this.mValueMin = Infinity;
+        this.mValueMax = -Infinity;
+        super.calcMinMax();
+    }
+
+    protected calcMinMaxForEntry(e?: HeatmapEntry, index?: number) {
+        if (!e) return;
+        super.calcMinMaxForEntry(e, index);
+
+        const value = e[this.valueProperty];
+        if (value < this.mValueMin) this.mValueMin = value;
+
+        if (value > this.mValueMax) this.mValueMax = value;
+    }
+
+    protected calcMinMaxX(e?: HeatmapEntry, index?: number) {
+        if (!e) {
+            super.calcMinMaxX(e, index);
+            return;
+        }
+        // include the whole cell in the x range
+        const x = this.getEntryXValue(e, index);
+        const half = this.mCellWidth / 2;
+        if (x - half < this.mXMin) this.mXMin = x - half;
+
+        if (x + half > this.mXMax) this.mXMax = x + half;
+    }
+
+    protected calcMinMaxY(e: HeatmapEntry, index?: number) {
+        // include the whole cell in the y range
+        const y = e[this.yProperty] || 0;
+        const half = this.mCellHeight / 2;
+        if (y - half < this.mYMin) this.mYMin = y - half;
+
+        if (y + half > this.mYMax) this.mYMax = y + half;
+    }
+
+    /**
+     * Sets the size of the cells, in values (not pixels).
+     * Default: 1, 1
+     *
+     * @param width
+     * @param height
+     */
+    public setCellSize(width: number, height: number) {
+        this.mCellWidth = width;
+        this.mCellHeight = height;
+        this.calcMinMax();
+    }
+
+    public getCellWidth() {
+        return this.mCellWidth;
+    }
+
+    public getCellHeight() {
+        return this.mCellHeight;
+    }
+
+    /**
+     * Sets the space left between cells, in dp.
+     * Default: 0
+     *
+     * @param spacing
+     */
+    public setCellSpacing(spacing: number) {
+        this.mCellSpacing = spacing;
+    }
+
+    public getCellSpacing() {
+        return this.mCellSpacing;
+    }
+
+    /**
+     * Sets the color scale used to color the cells.
+     * Default: a LinearColorScale
+     *
+     * @param scale
+     */
+    public setColorScale(scale: IColorScale) {
+        this.mColorScale = scale;
+    }
+
+    public getColorScale() {
+        return this.mColorScale;
+    }
+
+    /**
+     * Sets a fixed value domain for the color scale (e.g. -1 to 1 for a
+     * correlation matrix) instead of the range of the data.
+     *
+     * @param min
+     * @param max
+     */
+    public setValueRange(min: number, max: number) {
+        this.mValueRangeMin = min;
+        this.mValueRangeMax = max;
+    }
+
+    /**
+     * Makes the color scale use the range of the data again.
+     */
+    public resetValueRange() {
+        this.mValueRangeMin = NaN;
+        this.mValueRangeMax = NaN;
+    }
+
+    public getValueMin() {
+        return isNaN(this.mValueRangeMin) ? this.mValueMin : this.mValueRangeMin;
+    }
+
+    public getValueMax() {
+        return isNaN(this.mValueRangeMax) ? this.mValueMax : this.mValueRangeMax;
+    }
+
+    public getColorForValue(value: number) {
+        return this.mColorScale.getColor(value, this.getValueMin(), this.getValueMax());
+    }
+
+    /**
+     * Sets the width of the border drawn around highlighted cells, in dp.
+     * Default: 2
+     *
+     * @param width
+     */
+    public setHighlightLineWidth(width: number) {
+        this.mHighlightLineWidth = width;
+    }
+
+    public getHighlightLineWidth() {
+        return this.mHighlightLineWidth;
+    }
+}
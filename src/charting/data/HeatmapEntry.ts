@@ -0,0 +1,6 @@
+import { Entry } from './Entry';
+
+export interface HeatmapEntry extends Entry {
+    /** value of the cell, mapped to a color */
+    value?: number;
+}
@@ -0,0 +1,302 @@
+import { BarDataSet } from './BarDataSet';
+import { HistogramEntry } from './HistogramEntry';
+import { Utils } from '../utils/Utils';
+
+/**
+ * enum for the rule used to compute the width of the bins
+ */
+export enum HistogramBinning {
+    /**
+     * about `binCount` bins spanning the samples
+     */
+    FIXED_COUNT,
+    /**
+     * bins of `binWidth` width
+     */
+    FIXED_WIDTH,
+    /**
+     * log2(n) + 1 bins
+     */
+    STURGES,
+    /**
+     * bins of 2 * IQR / cbrt(n) width, falls back to Sturges when the
+     * interquartile range is 0
+     */
+    FREEDMAN_DIACONIS
+}
+
+/**
+ * BarDataSet built from raw numeric samples. The samples are counted into
+ * bins of equal width aligned on multiples of that width, each bin being an
+ * entry with the bin center as x value and the sample count as y value. The
+ * bars of a histogram fill their whole bin so that they touch each other.
+ */
+export class HistogramDataSet extends BarDataSet {
+    /**
+     * the sorted samples
+     */
+    protected mSamples: number[] = [];
+
+    protected mBinning = HistogramBinning.STURGES;
+
+    /**
+     * number of bins used with FIXED_COUNT
+     */
+    protected mBinCount = 10;
+
+    /**
+     * width of the bins used with FIXED_WIDTH
+     */
+    protected mFixedBinWidth = 1;
+
+    /**
+     * the width of the current bins
+     */
+    protected mBinWidth = 1;
+
+    /**
+     * the bins are widened if the samples would need more bins than this
+     */
+    protected mMaxBinCount = 500;
+
+    /**
+     * if true, the bin width is computed again from the visible samples
+     * whenever the visible x range changes
+     */
+    protected mRebinOnZoom = false;
+
+    constructor(samples: number[], label, binning = HistogramBinning.STURGES) {
+        super([], label, 'x', 'y');
+        this.mBinning = binning;
+        this.setSamples(samples);
+    }
+
+    /**
+     * Sets the samples to count into the bins and computes the bins.
+     *
+     * @param samples
+     */
+    public setSamples(samples: number[]) {
+        this.mSamples = (samples || []).filter((v) => v != null && Number.isFinite(v)).sort((a, b) => a - b);
+        this.calcBins(this.computeBinWidth());
+    }
+
+    public getSamples() {
+        return this.mSamples;
+    }
+
+    /**
+     * Returns the samples within the given x range.
+     *
+     * @param fromX
+     * @param toX
+     */
+    protected getSamplesInRange(fromX: number, toX: number) {
+        const samples = this.mSamples;
+        let from = 0;
+        let to = samples.length;
+        while (from < samples.length && samples[from] < fromX) from++;
+        while (to > from && samples[to - 1] > toX) to--;
+        return samples.slice(from, to);
+    }
+
+    /**
+     * Rounds the given width up to 1, 2, 2.5 or 5 times a power of ten so
+     * that the bin edges make readable axis labels.
+     *
+     * @param width
+     */
+    protected getNiceBinWidth(width: number) {
+        const magnitude = Math.pow(10, Math.floor(Math.log10(width)));
+        const fraction = width / magnitude;
+        let nice = 10;
+        if (fraction <= 1) {
+            nice = 1;
+        } else if (fraction <= 2) {
+            nice = 2;
+        } else if (fraction <= 2.5) {
+            nice = 2.5;
+        } else if (fraction <= 5) {
+            nice = 5;
+        }
+        return nice * magnitude;
+    }
+
+    /**
+     * Computes the bin width for the samples within the given x range
+     * according to the binning rule.
+     *
+     * @param fromX
+     * @param toX
+     */
+    protected computeBinWidth(fromX = -Infinity, toX = Infinity) {
+        if (this.mBinning === HistogramBinning.FIXED_WIDTH) {
+            return this.mFixedBinWidth;
+        }
+        const all = this.mSamples;
+        if (all.length === 0) {
+            return this.mBinWidth;
+        }
+        const samples = this.getSamplesInRange(fromX, toX);
+        const n = Math.max(1, samples.length);
+        const from = Number.isFinite(fromX) ? Math.max(fromX, all[0]) : all[0];
+        const to = Number.isFinite(toX) ? Math.min(toX, all[all.length - 1]) : all[all.length - 1];
+        const range = to - from;
+        if (!(range > 0)) {
+            return this.mBinWidth;
+        }
+
+        let width: number;
+        if (this.mBinning === HistogramBinning.FIXED_COUNT) {
+            width = range / Math.max(1, this.mBinCount);
+        } else if (this.mBinning === HistogramBinning.FREEDMAN_DIACONIS && samples.length > 1) {
+            width = (2 * (Utils.quantile(samples, 0.75) - Utils.quantile(samples, 0.25))) / Math.cbrt(n);
+        }
+        if (!(width > 0)) {
+            // Sturges rule
+            width = range / (Math.ceil(Math.log2(n)) + 1);
+        }
+
+        // keep the overall number of bins bounded
+        const fullRange = all[all.length - 1] - all[0];
+        width = Math.max(width, fullRange / this.mMaxBinCount);
+        return this.getNiceBinWidth(width);
+    }
+
+    /**
+     * Counts the samples into bins of the given width and sets them as
+     * entries.
+     *
+     * @param width
+     */
+    protected calcBins(width: number) {
+        this.mBinWidth = width;
+        const xKey = this.xProperty;
+        const yKey = this.yProperty;
+        const samples = this.mSamples;
+        const entries: HistogramEntry[] = [];
+
+        if (samples.length > 0) {
+            const first = Math.floor(samples[0] / width) * width;
+            const binCount = Math.floor((samples[samples.length - 1] - first) / width) + 1;
+            const counts = new Array<number>(binCount).fill(0);
+            for (const v of samples) {
+                counts[Math.min(binCount - 1, Math.floor((v - first) / width))]++;
+            }
+            for (let i = 0; i < binCount; i++) {
+                const binStart = first + i * width;
+                entries.push({ [xKey]: binStart + width / 2, [yKey]: counts[i], binStart, binEnd: binStart + width });
+            }
+        }
+
+        this.mValues = entries;
+        this.init();
+        this.calcMinMax();
+    }
+
+    /**
+     * Computes the bins again from the samples within the given visible x
+     * range if rebinning on zoom is enabled. Returns true if the bins
+     * changed.
+     *
+     * @param fromX
+     * @param toX
+     */
+    public rebin(fromX: number, toX: number) {
+        if (!this.mRebinOnZoom) {
+            return false;
+        }
+        const width = this.computeBinWidth(fromX, toX);
+        if (width === this.mBinWidth) {
+            return false;
+        }
+        this.calcBins(width);
+        return true;
+    }
+
+    /**
+     * Sets the rule used to compute the width of the bins.
+     * Default: STURGES
+     *
+     * @param binning
+     */
+    public setBinning(binning: HistogramBinning) {
+        this.mBinning = binning;
+        this.calcBins(this.computeBinWidth());
+    }
+
+    public getBinning() {
+        return this.mBinning;
+    }
+
+    /**
+     * Sets the number of bins and switches to FIXED_COUNT binning. The bin
+     * width is rounded to a readable value so the actual number of bins can
+     * be slightly lower.
+     *
+     * @param count
+     */
+    public setBinCount(count: number) {
+        this.mBinCount = Math.max(1, Math.round(count));
+        this.setBinning(HistogramBinning.FIXED_COUNT);
+    }
+
+    /**
+     * Returns the number of bins used with FIXED_COUNT.
+     */
+    public getBinCount() {
+        return this.mBinCount;
+    }
+
+    /**
+     * Sets the width of the bins and switches to FIXED_WIDTH binning.
+     *
+     * @param width
+     */
+    public setBinWidth(width: number) {
+        if (!(width > 0)) {
+            return;
+        }
+        this.mFixedBinWidth = width;
+        this.setBinning(HistogramBinning.FIXED_WIDTH);
+    }
+
+    /**
+     * Returns the width of the current bins, which is also the width of the
+     * bars.
+     */
+    public getBinWidth() {
+        return this.mBinWidth;
+    }
+
+    /**
+     * Sets the maximum number of bins spanning all the samples, the bins are
+     * widened beyond it. Default: 500
+     *
+     * @param count
+     */
+    public setMaxBinCount(count: number) {
+        this.mMaxBinCount = Math.max(1, count);
+        this.calcBins(this.computeBinWidth());
+    }
+
+    public getMaxBinCount() {
+        return this.mMaxBinCount;
+    }
+
+    /**
+     * If enabled, the bin width is computed again from the visible samples
+     * when zooming so that the bins get narrower as the chart zooms in. Has
+     * no effect with FIXED_WIDTH binning.
+     * Default: false
+     *
+     * @param enabled
+     */
+    public setRebinOnZoom(enabled: boolean) {
+        this.mRebinOnZoom = enabled;
+    }
+
+    public isRebinOnZoomEnabled() {
+        return this.mRebinOnZoom;
+    }
+}
@@ -0,0 +1,12 @@
+import { BarEntry } from './BarEntry';
+
+export interface HistogramEntry extends BarEntry {
+    /**
+     * lower edge of the bin (inclusive)
+     */
+    binStart?: number;
+    /**
+     * upper edge of the bin (exclusive, except for the last bin)
+     */
+    binEnd?: number;
+}
@@ -1,11 +1,163 @@
 import { BarLineScatterCandleBubbleData } from './BarLineScatterCandleBubbleData';
 import { ILineDataSet } from '../interfaces/datasets/ILineDataSet';
+import { AxisDependency, AxisId } from '../components/YAxis';
 import { Entry } from './Entry';
 import { LineDataSet } from './LineDataSet';
 
+/**
+ * enum for the way the LineDataSets are stacked upon each other
+ */
+export enum LineStackMode {
+    NONE,
+    /**
+     * the y values of entries sharing an x value are accumulated
+     */
+    STACKED,
+    /**
+     * same as STACKED but normalized so that every stack sums up to 100
+     */
+    PERCENT
+}
+
+/**
+ * Entry properties computed by the LineData when stacking.
+ */
+export interface LineStackedEntry extends Entry {
+    /**
+     * cumulative value of the previous DataSets
+     */
+    stackedBase?: number;
+    /**
+     * cumulative value including this entry
+     */
+    stackedY?: number;
+}
+
 /**
  * Data object that encapsulates all data associated with a LineChart.
  *
 
  */
-export class LineData extends BarLineScatterCandleBubbleData<Entry, LineDataSet> {}
+export class LineData extends BarLineScatterCandleBubbleData<Entry, LineDataSet> {
+    protected mStackMode = LineStackMode.NONE;
+
+    /**
+     * Sets the way the visible LineDataSets are stacked upon each other, in
+     * order, separately for each axis. Stacked DataSets are filled between
+     * the previous and their own cumulative line.
+     * Default: NONE
+     *
+     * @param mode
+     */
+    public setStackMode(mode: LineStackMode) {
+        this.mStackMode = mode;
+        this.notifyDataChanged();
+    }
+
+    public getStackMode() {
+        return this.mStackMode;
+    }
+
+    /**
+     * Returns true if the DataSets are stacked upon each other.
+     */
+    public isStacked() {
+        return !!this.mStackMode;
+    }
+
+    calcMinMax() {
+        super.calcMinMax();
+        if (this.isStacked()) {
+            this.calcStackedValues();
+        }
+    }
+
+    /**
+     * Computes the stackedBase and stackedY values of the entries of all
+     * visible DataSets and the min and max values of the stacks.
+     */
+    protected calcStackedValues() {
+        const visibleDatasets = this.getVisibleDataSets();
+        const percent = this.mStackMode === LineStackMode.PERCENT;
+
+        const forEachEntry = (callback: (set: ILineDataSet, e: LineStackedEntry, x: number, y: number) => void) => {
+            for (const set of visibleDatasets) {
+                const yKey = set.yProperty;
+                // stack the raw values, not the filtered ones
+                set.setIgnoreFiltered(true);
+                for (let index = 0; index < set.getEntryCount(); index++) {
+                    const e = set.getEntryForIndex(index) as LineStackedEntry;
+                    if (e) {
+                        callback(set, e, set.getEntryXValue(e, index), e[yKey]);
+                    }
+                }
+                set.setIgnoreFiltered(false);
+            }
+        };
+
+        // stacks are computed separately for each axis
+        const getStack = (stacks: Map<AxisId, Map<number, number>>, axis: AxisId) => {
+            let stack = stacks.get(axis);
+            if (!stack) {
+                stack = new Map<number, number>();
+                stacks.set(axis, stack);
+            }
+            return stack;
+        };
+
+        const totals = new Map<AxisId, Map<number, number>>();
+        if (percent) {
+            forEachEntry((set, e, x, y) => {
+                if (y !== undefined && y !== null) {
+                    const sums = getStack(totals, set.getAxisDependency());
+                    sums.set(x, (sums.get(x) || 0) + Math.abs(y));
+                }
+            });
+        }
+
+        const sums = new Map<AxisId, Map<number, number>>();
+        const ranges = new Map<AxisId, { min: number; max: number }>();
+        forEachEntry((set, e, x, y) => {
+            const axis = set.getAxisDependency();
+            const stack = getStack(sums, axis);
+            const base = stack.get(x) || 0;
+            e.stackedBase = base;
+            if (y === undefined || y === null) {
+                e.stackedY = undefined;
+                return;
+            }
+            if (percent) {
+                const total = totals.get(axis).get(x);
+                y = total ? (y / total) * 100 : 0;
+            }
+            e.stackedY = base + y;
+            stack.set(x, e.stackedY);
+            let range = ranges.get(axis);
+            if (!range) {
+                range = { min: Infinity, max: -Infinity };
+                ranges.set(axis, range);
+            }
+            range.min = Math.min(range.min, base, e.stackedY);
+            range.max = Math.max(range.max, base, e.stackedY);
+        });
+
+        if (ranges.size === 0) {
+            return;
+        }
+        this.mYMin = Infinity;
+        this.mYMax = -Infinity;
+        ranges.forEach((range, axis) => {
+            if (axis === AxisDependency.LEFT) {
+                this.mLeftAxisMin = range.min;
+                this.mLeftAxisMax = range.max;
+            } else if (axis === AxisDependency.RIGHT) {
+                this.mRightAxisMin = range.min;
+                this.mRightAxisMax = range.max;
+            } else {
+                this.mAxisMinMax[axis] = { min: range.min, max: range.max };
+            }
+            this.mYMin = Math.min(this.mYMin, range.min);
+            this.mYMax = Math.max(this.mYMax, range.max);
+        });
+    }
+}
@@ -57,6 +57,18 @@ export class LineDataSet extends LineRadarDataSet<Entry> implements ILineDataSet
      */
     private mFillFormatter: IFillFormatter = new DefaultFillFormatter();
 
+    /**
+     * DataSet whose line bounds the fill area instead of the fill-line position
+     */
+    private mFillTargetDataSet: ILineDataSet = null;
+
+    /**
+     * entry properties holding the lower and upper bounds of the fill area
+     */
+    private mFillLowProperty: string = null;
+
+    private mFillHighProperty: string = null;
+
     /**
      * if true, drawing circles is enabled
      */
@@ -375,6 +387,64 @@ export class LineDataSet extends LineRadarDataSet<Entry> implements ILineDataSet
         return this.mFillFormatter;
     }
 
+    /**
+     * Sets a DataSet whose line bounds the fill area, making it possible to
+     * fill the area between two lines. It should use the same axis as this
+     * DataSet. Set this to null to fill to the fill-line position.
+     *
+     * @param dataSet
+     */
+    public setFillTargetDataSet(dataSet: ILineDataSet) {
+        this.mFillTargetDataSet = dataSet;
+    }
+
+    public getFillTargetDataSet() {
+        return this.mFillTargetDataSet;
+    }
+
+    /**
+     * Sets the entry properties holding the lower and upper bounds of the
+     * fill area, making it possible to draw confidence bands or min / max
+     * envelopes. The y value is used for a missing property and a fill target
+     * DataSet takes precedence over the lower property.
+     *
+     * @param lowProperty
+     * @param highProperty
+     */
+    public setFillRangeProperties(lowProperty: string, highProperty: string = null) {
+        this.mFillLowProperty = lowProperty;
+        this.mFillHighProperty = highProperty;
+        this.calcMinMax();
+    }
+
+    public getFillLowProperty() {
+        return this.mFillLowProperty;
+    }
+
+    public getFillHighProperty() {
+        return this.mFillHighProperty;
+    }
+
+    /**
+     * Returns true if the fill area is bounded by a target DataSet or by
+     * per-entry values instead of the fill-line position.
+     */
+    public isFillRangeEnabled() {
+        return !!this.mFillTargetDataSet || !!this.mFillLowProperty || !!this.mFillHighProperty;
+    }
+
+    protected calcMinMaxY(e: Entry, index?: number) {
+        super.calcMinMaxY(e, index);
+        // the fill range has to be visible too
+        for (const key of [this.mFillLowProperty, this.mFillHighProperty]) {
+            const value = key ? e[key] : undefined;
+            if (value === undefined || value === null) continue;
+            if (value < this.mYMin) this.mYMin = value;
+
+            if (value > this.mYMax) this.mYMax = value;
+        }
+    }
+
     getUseColorsForFill() {
         return this.mUseColorsForFill;
     }
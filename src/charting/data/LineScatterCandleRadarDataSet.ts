@@ -3,6 +3,7 @@ import { ILineScatterCandleRadarDataSet } from '../interfaces/datasets/ILineScat
 import { BarLineScatterCandleBubbleDataSet } from './BarLineScatterCandleBubbleDataSet';
 import { Utils } from '../utils/Utils';
 import { DashPathEffect, parseDashEffect } from '@nativescript-community/ui-canvas';
+import { Trendline } from './Trendline';
 
 /**
  * Created by Philipp Jahoda on 11/07/15.
@@ -17,6 +18,9 @@ export abstract class LineScatterCandleRadarDataSet<T extends Entry> extends Bar
     /** the path effect for dashed highlight-lines */
     protected mHighlightDashPathEffect = null;
 
+    /** the best fit line of the entries, null for none */
+    protected mTrendline: Trendline = null;
+
     constructor(yVals, label, xProperty?, yProperty?) {
         super(yVals, label, xProperty, yProperty);
         this.mHighlightLineWidth = 0.5;
@@ -98,4 +102,29 @@ export abstract class LineScatterCandleRadarDataSet<T extends Entry> extends Bar
     public getDashPathEffectHighlight() {
         return this.mHighlightDashPathEffect;
     }
+
+    calcMinMax() {
+        super.calcMinMax();
+        if (this.mTrendline) {
+            this.mTrendline.fit(this);
+        }
+    }
+
+    /**
+     * Sets the best fit line of the entries, drawn by the LineChart and
+     * ScatterChart renderers. It is fitted again whenever the DataSet is
+     * notified of a change. Set to null to remove it.
+     *
+     * @param trendline
+     */
+    public setTrendline(trendline: Trendline) {
+        this.mTrendline = trendline;
+        if (trendline) {
+            trendline.fit(this);
+        }
+    }
+
+    public getTrendline() {
+        return this.mTrendline;
+    }
 }
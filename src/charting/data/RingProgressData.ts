@@ -0,0 +1,9 @@
+import { ChartData } from './ChartData';
+import { Entry } from './Entry';
+import { RingProgressDataSet } from './RingProgressDataSet';
+
+/**
+ * Data container for the RingProgressChart, one DataSet per ring, the first
+ * DataSet being the outer ring.
+ */
+export class RingProgressData extends ChartData<Entry, RingProgressDataSet> {}
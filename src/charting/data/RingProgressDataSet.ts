@@ -0,0 +1,114 @@
+import Shape from '@nativescript-community/ui-canvas/shapes/shape';
+import { Color } from '@nativescript/core';
+import { ImageSource } from '@nativescript/core/image-source';
+import { DataSet } from './DataSet';
+import { Entry } from './Entry';
+
+/**
+ * DataSet of one ring of a RingProgressChart. The progress of the ring is the
+ * sum of the y values of its entries divided by the goal, values over the
+ * goal wrapping around the ring.
+ */
+export class RingProgressDataSet extends DataSet<Entry> {
+    /**
+     * the value a full lap of the ring stands for
+     */
+    protected mGoal = 100;
+
+    /**
+     * color of the track drawn behind the progress, null to use the DataSet
+     * color with the track alpha
+     */
+    protected mTrackColor: string | Color = null;
+
+    /**
+     * alpha of the track when drawn with the DataSet color (0-255)
+     */
+    protected mTrackAlpha = 40;
+
+    /**
+     * icon drawn at the start of the ring
+     */
+    protected mIcon: ImageSource | Shape;
+
+    constructor(values, label, yProperty?) {
+        super(values, label, null, yProperty);
+        this.init();
+    }
+
+    /**
+     * Sets the value a full lap of the ring stands for. Default: 100
+     *
+     * @param goal
+     */
+    public setGoal(goal: number) {
+        this.mGoal = goal;
+    }
+
+    public getGoal() {
+        return this.mGoal;
+    }
+
+    /**
+     * Returns the sum of the y values of the entries.
+     */
+    public getValue() {
+        let sum = 0;
+        for (let i = 0; i < this.getEntryCount(); i++) {
+            const e = this.getEntryForIndex(i);
+            if (e != null) {
+                sum += e[this.yProperty] || 0;
+            }
+        }
+        return sum;
+    }
+
+    /**
+     * Returns the progress of the ring, 1 being a full lap. Values over 1
+     * are drawn as overflow laps.
+     */
+    public getProgress() {
+        return this.mGoal > 0 ? Math.max(0, this.getValue() / this.mGoal) : 0;
+    }
+
+    /**
+     * Sets the color of the track drawn behind the progress, null to use the
+     * DataSet color with the track alpha. Default: null
+     *
+     * @param color
+     */
+    public setTrackColor(color: string | Color) {
+        this.mTrackColor = color;
+    }
+
+    public getTrackColor() {
+        return this.mTrackColor;
+    }
+
+    /**
+     * Sets the alpha (0-255) of the track when it is drawn with the DataSet
+     * color. Default: 40
+     *
+     * @param alpha
+     */
+    public setTrackAlpha(alpha: number) {
+        this.mTrackAlpha = alpha;
+    }
+
+    public getTrackAlpha() {
+        return this.mTrackAlpha;
+    }
+
+    /**
+     * Sets the icon drawn at the start of the ring, null for none.
+     *
+     * @param icon
+     */
+    public setIcon(icon: ImageSource | Shape) {
+        this.mIcon = icon;
+    }
+
+    public getIcon() {
+        return this.mIcon;
+    }
+}
@@ -0,0 +1,96 @@
+import { Color } from '@nativescript/core/color';
+import { BarDataSet } from './BarDataSet';
+import { TimelineEntry } from './TimelineEntry';
+import { ITimelineDataSet } from '../interfaces/datasets/ITimelineDataSet';
+
+/**
+ * DataSet for the TimelineChart. Each entry is a task drawn as a floating bar
+ * from its start to its end, on the row given by its `row` property. Entries
+ * are expected to be ordered by row.
+ */
+export class TimelineDataSet extends BarDataSet implements ITimelineDataSet {
+    /**
+     * color used to draw the completed part of the tasks
+     */
+    protected mProgressColor: string | Color = 'black';
+
+    /**
+     * alpha used to draw the completed part of the tasks
+     */
+    protected mProgressAlpha = 60;
+
+    protected mDrawProgress = true;
+
+    constructor(values, label, xProperty = 'row', yProperty = 'end') {
+        super(values, label, xProperty, yProperty);
+    }
+
+    protected calcMinMaxForEntry(e?: TimelineEntry, index?: number) {
+        if (!e) return;
+        this.calcMinMaxY(e);
+        this.calcMinMaxX(e, index);
+    }
+
+    protected calcMinMaxY(e: TimelineEntry) {
+        const low = Math.min(e.start, e[this.yProperty]);
+        const high = Math.max(e.start, e[this.yProperty]);
+        if (low < this.mYMin) this.mYMin = low;
+
+        if (high > this.mYMax) this.mYMax = high;
+    }
+
+    /**
+     * Returns the entry with the given id, or null.
+     *
+     * @param id
+     */
+    public getEntryForId(id: string | number): TimelineEntry {
+        for (let index = 0; index < this.getEntryCount(); index++) {
+            const e = this.getEntryForIndex(index) as TimelineEntry;
+            if (e && e.id === id) {
+                return e;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Sets the color used to draw the completed part of the tasks over their bar.
+     *
+     * @param color
+     */
+    public setProgressColor(color: string | Color) {
+        this.mProgressColor = color;
+    }
+
+    public getProgressColor() {
+        return this.mProgressColor;
+    }
+
+    /**
+     * Sets the alpha (0 - 255) used to draw the completed part of the tasks. Default: 60
+     *
+     * @param alpha
+     */
+    public setProgressAlpha(alpha: number) {
+        this.mProgressAlpha = alpha;
+    }
+
+    public getProgressAlpha() {
+        return this.mProgressAlpha;
+    }
+
+    /**
+     * Enables / disables drawing the completed part of the tasks.
+     * Default: true
+     *
+     * @param enabled
+     */
+    public setDrawProgress(enabled: boolean) {
+        this.mDrawProgress = enabled;
+    }
+
+    public isDrawProgressEnabled() {
+        return this.mDrawProgress;
+    }
+}
@@ -0,0 +1,29 @@
+import { BarEntry } from './BarEntry';
+
+export interface TimelineEntry extends BarEntry {
+    /**
+     * start of the task on the time axis
+     */
+    start: number;
+    /**
+     * end of the task on the time axis
+     */
+    end: number;
+    /**
+     * row (category index) of the task
+     */
+    row?: number;
+    /**
+     * completed fraction of the task, 0 - 1
+     */
+    progress?: number;
+    /**
+     * identifier used by other tasks to declare their dependencies
+     */
+    id?: string | number;
+    /**
+     * ids of the tasks this task depends on, an arrow is drawn from the end
+     * of each of them to the start of this task
+     */
+    dependsOn?: (string | number)[];
+}
@@ -0,0 +1,9 @@
+import { PieEntry } from './PieEntry';
+
+/**
+ * Node of the hierarchy drawn by a TreemapChart. Nodes with children are
+ * sized by the sum of their children, leaves by their y value.
+ */
+export interface TreemapEntry extends PieEntry {
+    children?: TreemapEntry[];
+}
@@ -0,0 +1,535 @@
+import { DashPathEffect } from '@nativescript-community/ui-canvas';
+import { Color } from '@nativescript/core';
+import { Entry } from './Entry';
+import { IDataSet } from '../interfaces/datasets/IDataSet';
+
+/**
+ * enum for the function fitted to the entries of a DataSet by a Trendline
+ */
+export enum TrendlineType {
+    /**
+     * y = a + bx
+     */
+    LINEAR,
+    /**
+     * y = a0 + a1x + ... + anx^n, n being the degree
+     */
+    POLYNOMIAL,
+    /**
+     * y = ae^(bx), fitted on the entries with a positive y value
+     */
+    EXPONENTIAL,
+    /**
+     * y = a + bln(x), fitted on the entries with a positive x value
+     */
+    LOGARITHMIC,
+    /**
+     * average of the y values of the last `period` entries
+     */
+    MOVING_AVERAGE
+}
+
+/**
+ * Best fit line of the entries of a DataSet, computed again whenever the
+ * DataSet min / max values are. The fitted function, its equation and its
+ * coefficient of determination (R²) are exposed once fitted.
+ */
+export class Trendline {
+    protected mType: TrendlineType;
+
+    /**
+     * degree of the POLYNOMIAL fit
+     */
+    protected mDegree = 2;
+
+    /**
+     * number of entries averaged by the MOVING_AVERAGE fit
+     */
+    protected mPeriod = 5;
+
+    /**
+     * color of the line, null to use the DataSet color
+     */
+    protected mColor: string | Color = null;
+
+    protected mLineWidth = 1;
+
+    protected mDashPathEffect: DashPathEffect = null;
+
+    protected mDrawInLegend = false;
+
+    /**
+     * label shown in the Legend, null to show the equation and R²
+     */
+    protected mLabel: string = null;
+
+    /**
+     * number of decimals of the coefficients in the equation
+     */
+    protected mEquationDigits = 2;
+
+    /**
+     * coefficients of the fitted function, see TrendlineType, applying to
+     * the normalized variable (see mXOffset and mXScale)
+     */
+    protected mCoefficients: number[] = [];
+
+    /**
+     * the variable of the fit (x, or ln(x) for LOGARITHMIC fits) is
+     * normalized as (value - mXOffset) / mXScale, keeping the powers of
+     * large values such as epoch milliseconds in range
+     */
+    protected mXOffset = 0;
+
+    protected mXScale = 1;
+
+    /**
+     * points of the MOVING_AVERAGE fit, sorted by x value
+     */
+    protected mPoints: { x: number; y: number }[] = [];
+
+    protected mRSquared = NaN;
+
+    constructor(type = TrendlineType.LINEAR) {
+        this.mType = type;
+    }
+
+    /**
+     * Fits the function to the entries of the given DataSet. Entries are
+     * expected to be sorted by x value.
+     *
+     * @param dataSet
+     */
+    public fit<T extends Entry>(dataSet: IDataSet<T>) {
+        const xs: number[] = [];
+        const ys: number[] = [];
+        for (let i = 0; i < dataSet.getEntryCount(); i++) {
+            const e = dataSet.getEntryForIndex(i);
+            if (e == null) continue;
+            const x = dataSet.getEntryXValue(e, i);
+            const y = e[dataSet.yProperty];
+            if (Number.isFinite(x) && Number.isFinite(y)) {
+                xs.push(x);
+                ys.push(y);
+            }
+        }
+
+        this.mCoefficients = [];
+        this.mXOffset = 0;
+        this.mXScale = 1;
+        this.mPoints = [];
+        this.mRSquared = NaN;
+        switch (this.mType) {
+            case TrendlineType.POLYNOMIAL:
+                this.mCoefficients = this.fitPolynomial(xs, ys, Math.max(1, Math.round(this.mDegree)));
+                break;
+            case TrendlineType.EXPONENTIAL: {
+                const indices = ys.map((y, i) => i).filter((i) => ys[i] > 0);
+                const line = this.fitPolynomial(
+                    indices.map((i) => xs[i]),
+                    indices.map((i) => Math.log(ys[i])),
+                    1
+                );
+                this.mCoefficients = line.length ? [Math.exp(line[0]), line[1]] : [];
+                break;
+            }
+            case TrendlineType.LOGARITHMIC: {
+                const indices = xs.map((x, i) => i).filter((i) => xs[i] > 0);
+                this.mCoefficients = this.fitPolynomial(
+                    indices.map((i) => Math.log(xs[i])),
+                    indices.map((i) => ys[i]),
+                    1
+                );
+                break;
+            }
+            case TrendlineType.MOVING_AVERAGE: {
+                const period = Math.max(1, Math.round(this.mPeriod));
+                let sum = 0;
+                for (let i = 0; i < ys.length; i++) {
+                    sum += ys[i];
+                    if (i >= period) {
+                        sum -= ys[i - period];
+                    }
+                    if (i >= period - 1) {
+                        this.mPoints.push({ x: xs[i], y: sum / period });
+                    }
+                }
+                break;
+            }
+            default:
+                this.mCoefficients = this.fitPolynomial(xs, ys, 1);
+                break;
+        }
+        this.mRSquared = this.computeRSquared(xs, ys);
+    }
+
+    /**
+     * Returns the least squares coefficients of the polynomial of the given
+     * degree, lowest degree first, or an empty array if there are not
+     * enough points. The x values are centered and scaled to a unit standard
+     * deviation before fitting, the normalization being stored in mXOffset
+     * and mXScale.
+     *
+     * @param xs
+     * @param ys
+     * @param degree
+     */
+    protected fitPolynomial(xs: number[], ys: number[], degree: number) {
+        const size = degree + 1;
+        if (xs.length < size) {
+            return [];
+        }
+        const mean = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+        const deviation = Math.sqrt(xs.reduce((sum, x) => sum + (x - mean) * (x - mean), 0) / xs.length);
+        this.mXOffset = mean;
+        this.mXScale = deviation > 0 ? deviation : 1;
+
+        // normal equations, the augmented matrix holding sums of powers of x
+        const matrix: number[][] = [];
+        for (let row = 0; row < size; row++) {
+            matrix.push(new Array(size + 1).fill(0));
+        }
+        for (let i = 0; i < xs.length; i++) {
+            const x = (xs[i] - this.mXOffset) / this.mXScale;
+            for (let row = 0; row < size; row++) {
+                const xRow = Math.pow(x, row);
+                for (let col = 0; col < size; col++) {
+                    matrix[row][col] += xRow * Math.pow(x, col);
+                }
+                matrix[row][size] += xRow * ys[i];
+            }
+        }
+
+        // gaussian elimination with partial pivoting
+        for (let col = 0; col < size; col++) {
+            let pivot = col;
+            for (let row = col + 1; row < size; row++) {
+                if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) {
+                    pivot = row;
+                }
+            }
+            if (matrix[pivot][col] === 0) {
+                return [];
+            }
+            [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+            for (let row = col + 1; row < size; row++) {
+                const factor = matrix[row][col] / matrix[col][col];
+                for (let k = col; k <= size; k++) {
+                    matrix[row][k] -= factor * matrix[col][k];
+                }
+            }
+        }
+        const coefficients = new Array(size).fill(0);
+        for (let row = size - 1; row >= 0; row--) {
+            let sum = matrix[row][size];
+            for (let k = row + 1; k < size; k++) {
+                sum -= matrix[row][k] * coefficients[k];
+            }
+            coefficients[row] = sum / matrix[row][row];
+        }
+        return coefficients;
+    }
+
+    protected computeRSquared(xs: number[], ys: number[]) {
+        let count = 0;
+        let mean = 0;
+        for (let i = 0; i < ys.length; i++) {
+            if (!isNaN(this.getValue(xs[i]))) {
+                mean += ys[i];
+                count++;
+            }
+        }
+        if (count < 2) {
+            return NaN;
+        }
+        mean /= count;
+        let residual = 0;
+        let total = 0;
+        for (let i = 0; i < ys.length; i++) {
+            const value = this.getValue(xs[i]);
+            if (!isNaN(value)) {
+                residual += (ys[i] - value) * (ys[i] - value);
+                total += (ys[i] - mean) * (ys[i] - mean);
+            }
+        }
+        return total === 0 ? NaN : 1 - residual / total;
+    }
+
+    /**
+     * Returns true if the function could be fitted to the entries.
+     */
+    public isFitted() {
+        return this.mType === TrendlineType.MOVING_AVERAGE ? this.mPoints.length > 0 : this.mCoefficients.length > 0;
+    }
+
+    /**
+     * Returns the value of the fitted function at the given x value, NaN if
+     * it is not defined there. The MOVING_AVERAGE is interpolated between
+     * its points.
+     *
+     * @param x
+     */
+    public getValue(x: number) {
+        const c = this.mCoefficients;
+        switch (this.mType) {
+            case TrendlineType.EXPONENTIAL:
+                return c.length ? c[0] * Math.exp(c[1] * this.normalize(x)) : NaN;
+            case TrendlineType.LOGARITHMIC:
+                return c.length && x > 0 ? c[0] + c[1] * this.normalize(Math.log(x)) : NaN;
+            case TrendlineType.MOVING_AVERAGE: {
+                const points = this.mPoints;
+                for (let i = 0; i < points.length; i++) {
+                    if (points[i].x === x) {
+                        return points[i].y;
+                    }
+                    if (i > 0 && points[i - 1].x < x && points[i].x > x) {
+                        const ratio = (x - points[i - 1].x) / (points[i].x - points[i - 1].x);
+                        return points[i - 1].y + ratio * (points[i].y - points[i - 1].y);
+                    }
+                }
+                return NaN;
+            }
+            default: {
+                if (!c.length) {
+                    return NaN;
+                }
+                const t = this.normalize(x);
+                let value = 0;
+                for (let i = c.length - 1; i >= 0; i--) {
+                    value = value * t + c[i];
+                }
+                return value;
+            }
+        }
+    }
+
+    protected normalize(value: number) {
+        return (value - this.mXOffset) / this.mXScale;
+    }
+
+    /**
+     * Returns the coefficients of the fitted function: a0 to an (lowest
+     * degree first) for LINEAR and POLYNOMIAL fits, a and b for EXPONENTIAL
+     * and LOGARITHMIC fits, none for MOVING_AVERAGE. They are expanded from
+     * the normalized fit and apply to the raw x values.
+     */
+    public getCoefficients() {
+        const c = this.mCoefficients;
+        const offset = this.mXOffset;
+        const scale = this.mXScale;
+        if (!c.length) {
+            return c;
+        }
+        switch (this.mType) {
+            case TrendlineType.EXPONENTIAL:
+                return [c[0] * Math.exp((-c[1] * offset) / scale), c[1] / scale];
+            case TrendlineType.LOGARITHMIC:
+                return [c[0] - (c[1] * offset) / scale, c[1] / scale];
+            default: {
+                // binomial expansion of sum(c[k] * ((x - offset) / scale)^k)
+                const coefficients = new Array(c.length).fill(0);
+                for (let k = 0; k < c.length; k++) {
+                    let binomial = 1;
+                    for (let j = k; j >= 0; j--) {
+                        coefficients[j] += (c[k] * binomial * Math.pow(-offset, k - j)) / Math.pow(scale, k);
+                        binomial = (binomial * j) / (k - j + 1);
+                    }
+                }
+                return coefficients;
+            }
+        }
+    }
+
+    /**
+     * Returns the points of the MOVING_AVERAGE fit.
+     */
+    public getPoints() {
+        return this.mPoints;
+    }
+
+    /**
+     * Returns the coefficient of determination of the fit, NaN if it could
+     * not be computed.
+     */
+    public getRSquared() {
+        return this.mRSquared;
+    }
+
+    protected formatCoefficient(value: number) {
+        // trailing zeros are dropped
+        return String(parseFloat(value.toFixed(this.mEquationDigits)));
+    }
+
+    /**
+     * Returns the equation of the fitted function, e.g. "y = 1.5x + 2", null
+     * for a MOVING_AVERAGE or if nothing could be fitted.
+     */
+    public getEquation() {
+        const c = this.getCoefficients();
+        if (!c.length) {
+            return null;
+        }
+        const format = (value: number) => this.formatCoefficient(value);
+        switch (this.mType) {
+            case TrendlineType.EXPONENTIAL:
+                return 'y = ' + format(c[0]) + 'e^(' + format(c[1]) + 'x)';
+            case TrendlineType.LOGARITHMIC:
+                return 'y = ' + format(c[0]) + (c[1] < 0 ? ' - ' : ' + ') + format(Math.abs(c[1])) + 'ln(x)';
+            default: {
+                let equation = '';
+                for (let i = c.length - 1; i >= 0; i--) {
+                    const term = i === 0 ? format(Math.abs(c[i])) : format(Math.abs(c[i])) + (i === 1 ? 'x' : 'x^' + i);
+                    if (equation.length === 0) {
+                        equation = (c[i] < 0 ? '-' : '') + term;
+                    } else {
+                        equation += (c[i] < 0 ? ' - ' : ' + ') + term;
+                    }
+                }
+                return 'y = ' + equation;
+            }
+        }
+    }
+
+    /**
+     * Returns the label shown in the Legend: the label if set, the equation
+     * and R² otherwise.
+     */
+    public getLegendLabel() {
+        if (this.mLabel != null) {
+            return this.mLabel;
+        }
+        const equation = this.getEquation();
+        if (equation == null) {
+            return null;
+        }
+        return isNaN(this.mRSquared) ? equation : equation + ', R² = ' + this.mRSquared.toFixed(this.mEquationDigits);
+    }
+
+    /**
+     * Sets the function fitted to the entries. The DataSet needs to be
+     * notified for the fit to be computed again.
+     *
+     * @param type
+     */
+    public setType(type: TrendlineType) {
+        this.mType = type;
+    }
+
+    public getType() {
+        return this.mType;
+    }
+
+    /**
+     * Sets the degree of the POLYNOMIAL fit. Default: 2
+     *
+     * @param degree
+     */
+    public setDegree(degree: number) {
+        this.mDegree = degree;
+    }
+
+    public getDegree() {
+        return this.mDegree;
+    }
+
+    /**
+     * Sets the number of entries averaged by the MOVING_AVERAGE fit.
+     * Default: 5
+     *
+     * @param period
+     */
+    public setPeriod(period: number) {
+        this.mPeriod = period;
+    }
+
+    public getPeriod() {
+        return this.mPeriod;
+    }
+
+    /**
+     * Sets the color of the line, null to use the DataSet color.
+     * Default: null
+     *
+     * @param color
+     */
+    public setColor(color: string | Color) {
+        this.mColor = color;
+    }
+
+    public getColor() {
+        return this.mColor;
+    }
+
+    /**
+     * Sets the width of the line in dp. Default: 1
+     *
+     * @param width
+     */
+    public setLineWidth(width: number) {
+        this.mLineWidth = width;
+    }
+
+    public getLineWidth() {
+        return this.mLineWidth;
+    }
+
+    /**
+     * Enables the line to be drawn in dashed mode, e.g. like this "- - - - - -"
+     *
+     * @param lineLength the length of the line pieces
+     * @param spaceLength the length of space in between the pieces
+     * @param phase offset, in degrees (normally, use 0)
+     */
+    public enableDashedLine(lineLength: number, spaceLength: number, phase: number) {
+        this.mDashPathEffect = new DashPathEffect([lineLength, spaceLength], phase);
+    }
+
+    public disableDashedLine() {
+        this.mDashPathEffect = null;
+    }
+
+    public getDashPathEffect() {
+        return this.mDashPathEffect;
+    }
+
+    /**
+     * If true, the line gets its own entry in the Legend. Default: false
+     *
+     * @param enabled
+     */
+    public setDrawInLegend(enabled: boolean) {
+        this.mDrawInLegend = enabled;
+    }
+
+    public isDrawInLegendEnabled() {
+        return this.mDrawInLegend;
+    }
+
+    /**
+     * Sets the label shown in the Legend, null to show the equation and R².
+     * Default: null
+     *
+     * @param label
+     */
+    public setLabel(label: string) {
+        this.mLabel = label;
+    }
+
+    public getLabel() {
+        return this.mLabel;
+    }
+
+    /**
+     * Sets the number of decimals of the coefficients in the equation.
+     * Default: 2
+     *
+     * @param digits
+     */
+    public setEquationDigits(digits: number) {
+        this.mEquationDigits = digits;
+    }
+
+    public getEquationDigits() {
+        return this.mEquationDigits;
+    }
+}
@@ -0,0 +1,240 @@
+import { DashPathEffect } from '@nativescript-community/ui-canvas';
+import { Color } from '@nativescript/core/color';
+import { BarDataSet } from './BarDataSet';
+import { WaterfallEntry } from './WaterfallEntry';
+import { IWaterfallDataSet } from '../interfaces/datasets/IWaterfallDataSet';
+
+/**
+ * DataSet for the WaterfallChart. The y value of each entry is a signed delta
+ * which is accumulated into a running total. Entries flagged with `isTotal`
+ * are drawn from zero to the running total.
+ */
+export class WaterfallDataSet extends BarDataSet implements IWaterfallDataSet {
+    /**
+     * color for bars with a positive delta
+     */
+    protected mIncreasingColor: string | Color = '#4CAF50';
+
+    /**
+     * color for bars with a negative delta
+     */
+    protected mDecreasingColor: string | Color = '#F44336';
+
+    /**
+     * color for total bars
+     */
+    protected mTotalColor: string | Color = '#2196F3';
+
+    /**
+     * if true, lines are drawn connecting the end of a bar to the start of the next one
+     */
+    protected mDrawConnectors = true;
+
+    protected mConnectorColor: string | Color = 'gray';
+
+    protected mConnectorWidth = 1;
+
+    protected mConnectorDashPathEffect: DashPathEffect = null;
+
+    constructor(values, label, xProperty?, yProperty?) {
+        super(values, label, xProperty, yProperty);
+    }
+
+    init() {
+        this.calcRunningTotals();
+        super.init();
+    }
+
+    calcMinMax() {
+        this.calcRunningTotals();
+        super.calcMinMax();
+    }
+
+    /**
+     * Computes the start and cumulative values of all entries.
+     */
+    protected calcRunningTotals() {
+        if (this.mValues == null) return;
+        let total = 0;
+        for (let index = 0, e: WaterfallEntry; index < this.mValues.length; index++) {
+            e = this.getEntryForIndex(index);
+            if (e) {
+                total = this.calcEntryTotal(e, total);
+            }
+        }
+    }
+
+    /**
+     * Updates the start and cumulative values of the given entry and returns the new running total.
+     *
+     * @param e
+     * @param total the running total before this entry
+     * @return
+     */
+    protected calcEntryTotal(e: WaterfallEntry, total: number) {
+        const yKey = this.yProperty;
+        if (e.isTotal) {
+            e.start = 0;
+            e[yKey] = total;
+        } else {
+            e.start = total;
+            total += e[yKey] || 0;
+        }
+        e.cumulative = total;
+        return total;
+    }
+
+    protected calcMinMaxForEntry(e?: WaterfallEntry, index?: number) {
+        if (!e) return;
+        this.calcMinMaxY(e);
+        this.calcMinMaxX(e, index);
+    }
+
+    protected calcMinMaxY(e: WaterfallEntry) {
+        const low = Math.min(e.start, e.cumulative);
+        const high = Math.max(e.start, e.cumulative);
+        if (low < this.mYMin) this.mYMin = low;
+
+        if (high > this.mYMax) this.mYMax = high;
+    }
+
+    public addEntry(e: WaterfallEntry) {
+        if (!e) return false;
+        const count = this.mValues == null ? 0 : this.getEntryCount();
+        const last: WaterfallEntry = count > 0 ? this.getEntryForIndex(count - 1) : null;
+        this.calcEntryTotal(e, last ? last.cumulative : 0);
+        return super.addEntry(e);
+    }
+
+    public addEntryOrdered(e: WaterfallEntry) {
+        super.addEntryOrdered(e);
+        // inserting an entry changes the running total of all following ones
+        this.calcMinMax();
+    }
+
+    /**
+     * Returns the color of the bar at the given entry index, depending on
+     * whether it is a total, an increase or a decrease.
+     *
+     * @param index
+     */
+    public getColor(index?) {
+        if (index === undefined) {
+            return super.getColor();
+        }
+        const e: WaterfallEntry = this.getEntryForIndex(Math.floor(index));
+        if (!e) {
+            return super.getColor(index);
+        }
+        if (e.isTotal) {
+            return this.mTotalColor;
+        }
+        return e[this.yProperty] >= 0 ? this.mIncreasingColor : this.mDecreasingColor;
+    }
+
+    public getColors() {
+        return [this.mIncreasingColor, this.mDecreasingColor, this.mTotalColor];
+    }
+
+    /**
+     * Sets the color used for bars with a positive delta.
+     *
+     * @param color
+     */
+    public setIncreasingColor(color: string | Color) {
+        this.mIncreasingColor = color;
+    }
+
+    public getIncreasingColor() {
+        return this.mIncreasingColor;
+    }
+
+    /**
+     * Sets the color used for bars with a negative delta.
+     *
+     * @param color
+     */
+    public setDecreasingColor(color: string | Color) {
+        this.mDecreasingColor = color;
+    }
+
+    public getDecreasingColor() {
+        return this.mDecreasingColor;
+    }
+
+    /**
+     * Sets the color used for total bars.
+     *
+     * @param color
+     */
+    public setTotalColor(color: string | Color) {
+        this.mTotalColor = color;
+    }
+
+    public getTotalColor() {
+        return this.mTotalColor;
+    }
+
+    /**
+     * Enables / disables the lines connecting consecutive bars.
+     * Default: true
+     *
+     * @param enabled
+     */
+    public setDrawConnectors(enabled: boolean) {
+        this.mDrawConnectors = enabled;
+    }
+
+    public isDrawConnectorsEnabled() {
+        return this.mDrawConnectors;
+    }
+
+    /**
+     * Sets the color of the connector lines.
+     *
+     * @param color
+     */
+    public setConnectorColor(color: string | Color) {
+        this.mConnectorColor = color;
+    }
+
+    public getConnectorColor() {
+        return this.mConnectorColor;
+    }
+
+    /**
+     * Sets the width of the connector lines.
+     *
+     * @param width
+     */
+    public setConnectorWidth(width: number) {
+        this.mConnectorWidth = width;
+    }
+
+    public getConnectorWidth() {
+        return this.mConnectorWidth;
+    }
+
+    /**
+     * Enables the connector lines to be drawn in dashed mode, e.g. like this
+     * "- - - - - -".
+     *
+     * @param lineLength the length of the line pieces
+     * @param spaceLength the length of space in between the pieces
+     * @param phase offset, in degrees (normally, use 0)
+     */
+    public enableDashedConnector(lineLength, spaceLength, phase) {
+        this.mConnectorDashPathEffect = new DashPathEffect([lineLength, spaceLength], phase);
+    }
+
+    /**
+     * Disables the connector lines to be drawn in dashed mode.
+     */
+    public disableDashedConnector() {
+        this.mConnectorDashPathEffect = null;
+    }
+
+    public getConnectorDashPathEffect() {
+        return this.mConnectorDashPathEffect;
+    }
+}
@@ -0,0 +1,17 @@
+import { BarEntry } from './BarEntry';
+
+export interface WaterfallEntry extends BarEntry {
+    /**
+     * if true, the bar is drawn from zero up to the running total instead of
+     * applying its own value as a delta
+     */
+    isTotal?: boolean;
+    /**
+     * running total before this entry (computed by the WaterfallDataSet)
+     */
+    start?: number;
+    /**
+     * running total after this entry (computed by the WaterfallDataSet)
+     */
+    cumulative?: number;
+}
@@ -22,4 +22,16 @@ export interface IAxisValueFormatter {
      *  Extend {@link ValueFormatter} and use {@link ValueFormatter#getAxisLabel(float, AxisBase)}
      */
     getAxisLabel(value, axis: AxisBase, viewPortHandler: ViewPortHandler): string;
+
+    /**
+     * Called for the ticks of a time axis starting a new parent unit (e.g. a
+     * new month on a day axis) when two level labels are enabled. Time axes
+     * without it only draw one level of labels.
+     *
+     * @param value the value to be formatted
+     * @param axis  the axis the value belongs to
+     * @param viewPortHandler  the viewPortHandler
+     * @return
+     */
+    getSecondaryAxisLabel?(value, axis: AxisBase, viewPortHandler: ViewPortHandler): string;
 }
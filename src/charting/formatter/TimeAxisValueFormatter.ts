@@ -0,0 +1,78 @@
+import { ValueFormatter } from './ValueFormatter';
+import { AxisBase } from '../components/AxisBase';
+import { XAxis } from '../components/XAxis';
+import { TimeScale, TimeUnit } from '../utils/TimeScale';
+
+function pad(value: number, length = 2) {
+    return (value + '').padStart(length, '0');
+}
+
+/**
+ * Default formatter of time axes, formatting the epoch milliseconds of the
+ * ticks according to the unit of the axis interval: times for units shorter
+ * than a day, days, months or years otherwise. With two level labels, the
+ * day, month and year context is moved to the secondary labels.
+ */
+export class TimeAxisValueFormatter extends ValueFormatter {
+    /**
+     * labels of the months, starting with January
+     */
+    protected mMonthLabels = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+    constructor(monthLabels?: string[]) {
+        super();
+        if (monthLabels) {
+            this.mMonthLabels = monthLabels;
+        }
+    }
+
+    /**
+     * Sets the labels of the months, starting with January.
+     *
+     * @param labels
+     */
+    public setMonthLabels(labels: string[]) {
+        this.mMonthLabels = labels;
+    }
+
+    public getMonthLabels() {
+        return this.mMonthLabels;
+    }
+
+    public getAxisLabel(value: number, axis: AxisBase) {
+        const xAxis = axis as XAxis;
+        const twoLevels = xAxis.isDrawSecondaryTimeLabelsEnabled();
+        const [year, month, day, hours, minutes, seconds, millis] = TimeScale.getFields(value, xAxis.isTimeScaleUTC());
+        switch (xAxis.mTimeUnit) {
+            case TimeUnit.MILLISECOND:
+                return pad(hours) + ':' + pad(minutes) + ':' + pad(seconds) + '.' + pad(millis, 3);
+            case TimeUnit.SECOND:
+                return pad(hours) + ':' + pad(minutes) + ':' + pad(seconds);
+            case TimeUnit.MINUTE:
+            case TimeUnit.HOUR:
+                return pad(hours) + ':' + pad(minutes);
+            case TimeUnit.DAY:
+            case TimeUnit.WEEK:
+                return twoLevels ? day + '' : day + ' ' + this.mMonthLabels[month];
+            case TimeUnit.MONTH:
+                return twoLevels ? this.mMonthLabels[month] : this.mMonthLabels[month] + ' ' + year;
+            default:
+                return year + '';
+        }
+    }
+
+    public getSecondaryAxisLabel(value: number, axis: AxisBase) {
+        const xAxis = axis as XAxis;
+        const [year, month, day] = TimeScale.getFields(value, xAxis.isTimeScaleUTC());
+        switch (TimeScale.getParentUnit(xAxis.mTimeUnit)) {
+            case TimeUnit.DAY:
+                return day + ' ' + this.mMonthLabels[month];
+            case TimeUnit.MONTH:
+                return this.mMonthLabels[month] + ' ' + year;
+            case TimeUnit.YEAR:
+                return year + '';
+            default:
+                return null;
+        }
+    }
+}
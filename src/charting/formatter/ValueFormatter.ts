@@ -9,6 +9,8 @@ import { RadarEntry } from '../data/RadarEntry';
 import { BubbleEntry } from '../data/BubbleEntry';
 import { CandleEntry } from '../data/CandleEntry';
 import { BaseEntry } from '../data/BaseEntry';
+import { HeatmapEntry } from '../data/HeatmapEntry';
+import { BoxPlotEntry } from '../data/BoxPlotEntry';
 
 /**
  * Class to format all values before they are drawn as labels.
@@ -131,4 +133,26 @@ export abstract class ValueFormatter implements IAxisValueFormatter, IValueForma
     public getCandleLabel(value, entry: CandleEntry) {
         return this.getFormattedValue(value, entry);
     }
+
+    /**
+     * Used to draw heatmap cell labels, calls {@link #getFormattedValue} by default.
+     *
+     * @param value the value of the cell
+     * @param entry cell being labeled, also contains X and Y values
+     * @return formatted string label
+     */
+    public getHeatmapLabel(value, entry: HeatmapEntry) {
+        return this.getFormattedValue(value, entry);
+    }
+
+    /**
+     * Used to draw box plot median labels, calls {@link #getFormattedValue} by default.
+     *
+     * @param value the median of the box
+     * @param entry box being labeled
+     * @return formatted string label
+     */
+    public getBoxPlotLabel(value, entry: BoxPlotEntry) {
+        return this.getFormattedValue(value, entry);
+    }
 }
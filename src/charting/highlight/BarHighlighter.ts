@@ -1,6 +1,7 @@
 import { ChartHighlighter } from './ChartHighlighter';
 import { Highlight } from './Highlight';
 import { BarData } from '../data/BarData';
+import { BarDrawMode } from '../data/BarDataSet';
 import { BarDataProvider } from '../interfaces/dataprovider/BarDataProvider';
 import { IBarDataSet } from '../interfaces/datasets/IBarDataSet';
 
@@ -22,6 +23,9 @@ export class BarHighlighter extends ChartHighlighter<BarDataProvider> {
         if (set.isStacked()) {
             return this.getStackedHighlight(high, set, pos.x, pos.y);
         }
+        if (set.getDrawMode() === BarDrawMode.DUMBBELL) {
+            return this.getDumbbellHighlight(high, set, pos.y);
+        }
 
         // MPPointD.recycleInstance(pos);
 
@@ -64,13 +68,54 @@ export class BarHighlighter extends ChartHighlighter<BarDataProvider> {
                 yPx: pixels.y,
                 dataSetIndex: high.dataSetIndex,
                 stackIndex,
-                axis: high.axis,
+                axis: high.axis
             };
         }
 
         return null;
     }
 
+    /**
+     * Returns the highlight of the end of the dumbbell closest to the given y
+     * value, the start having a stack index of 0 and the end a stack index
+     * of 1.
+     *
+     * @param high the Highlight of the dumbbell
+     * @param set
+     * @param yVal
+     */
+    public getDumbbellHighlight(high: Highlight, set: IBarDataSet, yVal: number): Highlight {
+        const entry = high.entry;
+        if (entry == null) {
+            return high;
+        }
+        const start = entry[set.getDumbbellStartProperty()] || 0;
+        const end = entry[set.yProperty] || 0;
+        const stackIndex = Math.abs(yVal - start) < Math.abs(yVal - end) ? 0 : 1;
+        const y = stackIndex === 0 ? start : end;
+        const pixels = this.getPixelForValues(set, high.x, y);
+
+        return {
+            ...high,
+            y,
+            xPx: pixels.x,
+            yPx: pixels.y,
+            stackIndex
+        };
+    }
+
+    /**
+     * Returns the pixel position of the given y value on the bar at the given
+     * x value.
+     *
+     * @param set
+     * @param x
+     * @param y
+     */
+    protected getPixelForValues(set: IBarDataSet, x: number, y: number) {
+        return this.mChart.getTransformer(set.getAxisDependency()).getPixelForValues(x, y);
+    }
+
     /**
      * Returns the index of the closest value inside the values array / ranges (stacked barchart) to the value
      * given as
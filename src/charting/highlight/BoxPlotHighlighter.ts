@@ -0,0 +1,43 @@
+import { ChartHighlighter } from './ChartHighlighter';
+import { Highlight } from './Highlight';
+import { BoxPlotEntry } from '../data/BoxPlotEntry';
+import { BoxPlotDataProvider } from '../interfaces/dataprovider/BoxPlotDataProvider';
+import { IDataSet } from '../interfaces/datasets/IDataSet';
+
+/**
+ * Highlight of a BoxPlotChart box, carrying all the statistics of the box.
+ */
+export interface BoxPlotHighlight extends Highlight<BoxPlotEntry> {
+    min?: number;
+    q1?: number;
+    median?: number;
+    q3?: number;
+    max?: number;
+    mean?: number;
+    outliers?: number[];
+}
+
+export class BoxPlotHighlighter extends ChartHighlighter<BoxPlotDataProvider> {
+    constructor(chart: BoxPlotDataProvider) {
+        super(chart);
+    }
+
+    protected buildHighlights(set: IDataSet<BoxPlotEntry>, dataSetIndex, xVal, rounding) {
+        const highlights: BoxPlotHighlight[] = super.buildHighlights(set, dataSetIndex, xVal, rounding);
+        const trans = this.mChart.getTransformer(set.getAxisDependency());
+        for (const high of highlights) {
+            const e = high.entry;
+            // position the highlight on the median
+            const pixels = trans.getPixelForValues(high.x, e.median);
+            high.yPx = pixels.y;
+            high.min = e.min;
+            high.q1 = e.q1;
+            high.median = e.median;
+            high.q3 = e.q3;
+            high.max = e.max;
+            high.mean = e.mean;
+            high.outliers = e.outliers || [];
+        }
+        return highlights;
+    }
+}
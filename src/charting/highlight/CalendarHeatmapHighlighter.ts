@@ -0,0 +1,28 @@
+import { HeatmapHighlight, HeatmapHighlighter } from './HeatmapHighlighter';
+import { CalendarHeatmapDataSet } from '../data/CalendarHeatmapDataSet';
+import { HeatmapEntry } from '../data/HeatmapEntry';
+import { IHeatmapDataSet } from '../interfaces/datasets/IHeatmapDataSet';
+
+/**
+ * Highlight of a CalendarHeatmapChart day cell.
+ */
+export interface CalendarHeatmapHighlight extends HeatmapHighlight {
+    /**
+     * the day of the highlighted cell
+     */
+    date?: Date;
+}
+
+/**
+ * Highlighter selecting the day cell containing the touch position, the
+ * highlight holding the day and the value of the cell.
+ */
+export class CalendarHeatmapHighlighter extends HeatmapHighlighter {
+    protected buildHighlight(set: IHeatmapDataSet, dataSetIndex: number, entry: HeatmapEntry, index: number): CalendarHeatmapHighlight {
+        const high: CalendarHeatmapHighlight = super.buildHighlight(set, dataSetIndex, entry, index);
+        if (set instanceof CalendarHeatmapDataSet) {
+            high.date = set.getEntryDate(entry);
+        }
+        return high;
+    }
+}
@@ -1,7 +1,7 @@
 import { BarLineScatterCandleBubbleDataProvider } from '../interfaces/dataprovider/BarLineScatterCandleBubbleDataProvider';
 import { IHighlighter } from './IHighlighter';
 import { Highlight } from './Highlight';
-import { AxisDependency } from '../components/YAxis';
+import { AxisDependency, AxisId } from '../components/YAxis';
 import { Rounding } from '../data/DataSet';
 import { IDataSet } from '../interfaces/datasets/IDataSet';
 import { Entry } from '../data/Entry';
@@ -58,10 +58,16 @@ export class ChartHighlighter<T extends BarLineScatterCandleBubbleDataProvider>
             return closestValues[0];
         }
 
-        const leftAxisMinDist = this.getMinimumDistance(closestValues, y, AxisDependency.LEFT);
-        const rightAxisMinDist = this.getMinimumDistance(closestValues, y, AxisDependency.RIGHT);
-
-        const axis = leftAxisMinDist < rightAxisMinDist ? AxisDependency.LEFT : AxisDependency.RIGHT;
+        // pick the axis holding the value closest to the touch, additional axes included
+        let axis: AxisId = AxisDependency.LEFT;
+        let minDist = Infinity;
+        for (const candidate of new Set(closestValues.map((high) => high.axis))) {
+            const dist = this.getMinimumDistance(closestValues, y, candidate);
+            if (dist < minDist) {
+                minDist = dist;
+                axis = candidate;
+            }
+        }
         const detail = this.getClosestHighlightByPixel(closestValues, x, y, axis, this.mChart.getMaxHighlightDistance());
 
         return detail;
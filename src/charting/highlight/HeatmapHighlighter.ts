@@ -0,0 +1,112 @@
+import { Highlight } from './Highlight';
+import { IHighlighter } from './IHighlighter';
+import { Rounding } from '../data/DataSet';
+import { HeatmapEntry } from '../data/HeatmapEntry';
+import { HeatmapDataProvider } from '../interfaces/dataprovider/HeatmapDataProvider';
+import { IHeatmapDataSet } from '../interfaces/datasets/IHeatmapDataSet';
+
+/**
+ * Highlight of a HeatmapChart cell.
+ */
+export interface HeatmapHighlight extends Highlight<HeatmapEntry> {
+    /**
+     * the value of the highlighted cell
+     */
+    value?: number;
+}
+
+/**
+ * Highlighter selecting the heatmap cell containing the touch position.
+ */
+export class HeatmapHighlighter implements IHighlighter {
+    /**
+     * instance of the data-provider
+     */
+    protected mChart: HeatmapDataProvider;
+
+    constructor(chart: HeatmapDataProvider) {
+        this.mChart = chart;
+    }
+
+    public getHighlight(x, y): HeatmapHighlight {
+        const data = this.mChart.getHeatmapData();
+        if (data == null) return null;
+
+        // the last DataSet is drawn on top
+        for (let i = data.getDataSetCount() - 1; i >= 0; i--) {
+            const set = data.getDataSetByIndex(i);
+            if (!set.isVisible() || !set.isHighlightEnabled()) continue;
+
+            const pos = this.mChart.getTransformer(set.getAxisDependency()).getValuesByTouchPoint(x, y);
+            const cell = this.getCellForValues(set, pos.x, pos.y);
+            if (cell) {
+                return this.buildHighlight(set, i, cell.entry, cell.index);
+            }
+        }
+        return null;
+    }
+
+    public getHighlightsAtXValue(xVal, x?, y?): HeatmapHighlight[] {
+        const highlights: HeatmapHighlight[] = [];
+        const data = this.mChart.getHeatmapData();
+        if (data == null) return highlights;
+
+        for (let i = 0; i < data.getDataSetCount(); i++) {
+            const set = data.getDataSetByIndex(i);
+            if (!set.isHighlightEnabled()) continue;
+
+            const closest = set.getEntryAndIndexForXValue(xVal, NaN, Rounding.CLOSEST);
+            if (closest === null) continue;
+            const cellX = set.getEntryXValue(closest.entry, closest.index);
+            if (Math.abs(cellX - xVal) > set.getCellWidth() / 2) continue;
+
+            for (const r of set.getEntriesAndIndexesForXValue(cellX)) {
+                highlights.push(this.buildHighlight(set, i, r.entry, r.index));
+            }
+        }
+        return highlights;
+    }
+
+    /**
+     * Returns the cell (entry and index) of the given DataSet containing the given values, or null.
+     *
+     * @param set
+     * @param xVal
+     * @param yVal
+     * @return
+     */
+    protected getCellForValues(set: IHeatmapDataSet, xVal: number, yVal: number) {
+        const closest = set.getEntryAndIndexForXValue(xVal, NaN, Rounding.CLOSEST);
+        if (closest === null) return null;
+
+        const cellX = set.getEntryXValue(closest.entry, closest.index);
+        if (Math.abs(cellX - xVal) > set.getCellWidth() / 2) return null;
+
+        const yKey = set.yProperty;
+        const halfHeight = set.getCellHeight() / 2;
+        for (const r of set.getEntriesAndIndexesForXValue(cellX)) {
+            if (Math.abs(r.entry[yKey] - yVal) <= halfHeight) {
+                return r;
+            }
+        }
+        return null;
+    }
+
+    protected buildHighlight(set: IHeatmapDataSet, dataSetIndex: number, entry: HeatmapEntry, index: number): HeatmapHighlight {
+        const xVal = set.getEntryXValue(entry, index);
+        const yVal = entry[set.yProperty];
+        const pixels = this.mChart.getTransformer(set.getAxisDependency()).getPixelForValues(xVal, yVal);
+
+        return {
+            entry,
+            entryIndex: index,
+            x: xVal,
+            y: yVal,
+            xPx: pixels.x,
+            yPx: pixels.y,
+            dataSetIndex,
+            axis: set.getAxisDependency(),
+            value: entry[set.valueProperty]
+        };
+    }
+}
@@ -1,4 +1,4 @@
-import { AxisDependency } from '../components/YAxis';
+import { AxisId } from '../components/YAxis';
 import { Entry } from '../data/Entry';
 
 /**
@@ -45,7 +45,7 @@ export class Highlight<T extends Entry = Entry> {
     /**
      * the axis the highlighted value belongs to
      */
-    axis?: AxisDependency;
+    axis?: AxisId;
 
     /**
      * the x-position (pixels) on which this highlight object was last drawn
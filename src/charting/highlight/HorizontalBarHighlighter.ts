@@ -1,4 +1,5 @@
 import { BarHighlighter } from './BarHighlighter';
+import { BarDrawMode } from '../data/BarDataSet';
 import { Highlight } from './Highlight';
 import { BarDataProvider } from '../interfaces/dataprovider/BarDataProvider';
 import { IBarDataSet } from '../interfaces/datasets/IBarDataSet';
@@ -20,10 +21,17 @@ export class HorizontalBarHighlighter extends BarHighlighter {
         if (set.isStacked()) {
             return this.getStackedHighlight(high, set, pos.y, pos.x);
         }
+        if (set.getDrawMode() === BarDrawMode.DUMBBELL) {
+            return this.getDumbbellHighlight(high, set, pos.x);
+        }
 
         return high;
     }
 
+    protected getPixelForValues(set: IBarDataSet, x: number, y: number) {
+        return this.mChart.getTransformer(set.getAxisDependency()).getPixelForValues(y, x);
+    }
+
     protected buildHighlights(set: IBarDataSet, dataSetIndex, xVal, rounding) {
         const yKey = set.yProperty;
         const highlights: Highlight[] = [];
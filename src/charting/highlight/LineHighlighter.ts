@@ -0,0 +1,36 @@
+import { ChartHighlighter } from './ChartHighlighter';
+import { Highlight } from './Highlight';
+import { Entry } from '../data/Entry';
+import { LineStackedEntry } from '../data/LineData';
+import { IDataSet } from '../interfaces/datasets/IDataSet';
+import { LineDataProvider } from '../interfaces/dataprovider/LineDataProvider';
+
+export interface LineHighlight extends Highlight<LineStackedEntry> {
+    /**
+     * the cumulative value of the highlighted entry when the LineData is
+     * stacked, y being the raw value
+     */
+    stackedY?: number;
+}
+
+export class LineHighlighter extends ChartHighlighter<LineDataProvider> {
+    constructor(chart: LineDataProvider) {
+        super(chart);
+    }
+
+    protected buildHighlights(set: IDataSet<Entry>, dataSetIndex, xVal, rounding) {
+        const highlights: LineHighlight[] = super.buildHighlights(set, dataSetIndex, xVal, rounding);
+        const lineData = this.mChart.getLineData();
+        if (!lineData || !lineData.isStacked()) {
+            return highlights;
+        }
+
+        // stacked values are drawn at their cumulative position
+        const trans = this.mChart.getTransformer(set.getAxisDependency());
+        for (const high of highlights) {
+            high.stackedY = high.entry.stackedY;
+            high.yPx = trans.getPixelForValues(high.x, high.stackedY).y;
+        }
+        return highlights;
+    }
+}
@@ -0,0 +1,36 @@
+import { Highlight } from './Highlight';
+import { IHighlighter } from './IHighlighter';
+import { RingProgressChart } from '../charts/RingProgressChart';
+
+export class RingProgressHighlighter implements IHighlighter {
+    protected mChart: RingProgressChart;
+
+    constructor(chart: RingProgressChart) {
+        this.mChart = chart;
+    }
+
+    public getHighlight(x: number, y: number): Highlight {
+        const index = this.mChart.getRingIndexForDistance(this.mChart.distanceToCenter(x, y));
+        if (index < 0) {
+            return null;
+        }
+
+        const set = this.mChart.getData().getDataSetByIndex(index);
+        if (set == null || !set.isHighlightEnabled()) {
+            return null;
+        }
+        return {
+            entry: set.getEntryForIndex(0),
+            x: 0,
+            y: set.getValue(),
+            xPx: x,
+            yPx: y,
+            dataSetIndex: index,
+            axis: set.getAxisDependency()
+        };
+    }
+
+    public getHighlightsAtXValue(xVal: number, x?: number, y?: number): Highlight[] {
+        return [];
+    }
+}
@@ -0,0 +1,64 @@
+import { Highlight } from './Highlight';
+import { PieHighlighter } from './PieHighlighter';
+import { SunburstChart } from '../charts/SunburstChart';
+import { SunburstEntry } from '../data/SunburstEntry';
+
+export interface SunburstHighlight extends Highlight<SunburstEntry> {
+    /**
+     * the ring of the highlighted node, 0 being the inner ring
+     */
+    ring?: number;
+
+    /**
+     * indices of the highlighted node and its ancestors, starting with the
+     * index of the root entry in the DataSet
+     */
+    path?: number[];
+
+    /**
+     * the entries from the root to the highlighted node
+     */
+    nodes?: SunburstEntry[];
+}
+
+export class SunburstHighlighter extends PieHighlighter {
+    protected mChart: SunburstChart;
+
+    constructor(chart: SunburstChart) {
+        super(chart);
+    }
+
+    public getHighlight(x: number, y: number): SunburstHighlight {
+        const ring = this.mChart.getRingForDistance(this.mChart.distanceToCenter(x, y));
+        if (ring < 0) {
+            return null;
+        }
+
+        const node = this.mChart.getNodeForAngle(ring, this.mChart.getAngleForPoint(x, y));
+        if (node == null) {
+            return null;
+        }
+
+        const set = this.mChart.getData().getDataSet();
+        const nodes: SunburstEntry[] = [];
+        let entries: SunburstEntry[] = null;
+        for (const index of node.path) {
+            const e = entries ? entries[index] : set.getEntryForIndex(index);
+            nodes.push(e);
+            entries = e.children;
+        }
+
+        return {
+            entry: node.entry,
+            x: node.path[0],
+            y: node.value,
+            xPx: x,
+            yPx: y,
+            dataSetIndex: 0,
+            axis: set.getAxisDependency(),
+            ring,
+            path: node.path,
+            nodes
+        };
+    }
+}
@@ -0,0 +1,32 @@
+import { Highlight } from './Highlight';
+import { HorizontalBarHighlighter } from './HorizontalBarHighlighter';
+import { TimelineEntry } from '../data/TimelineEntry';
+import { BarDataProvider } from '../interfaces/dataprovider/BarDataProvider';
+
+export class TimelineHighlighter extends HorizontalBarHighlighter {
+    constructor(chart: BarDataProvider) {
+        super(chart);
+    }
+
+    public getHighlight(x: number, y: number): Highlight<TimelineEntry> {
+        const pos = this.getValsForTouch(x, y);
+        const time = pos.x;
+        const highlights = this.getHighlightsAtXValue(pos.y, y, x) as Highlight<TimelineEntry>[];
+
+        // several tasks can share a row, pick the one under the touch or the closest in time
+        let closest: Highlight<TimelineEntry> = null;
+        let distance = Infinity;
+        for (const high of highlights) {
+            const e = high.entry;
+            const set = this.mChart.getBarData().getDataSetByIndex(high.dataSetIndex);
+            const start = Math.min(e.start, e[set.yProperty]);
+            const end = Math.max(e.start, e[set.yProperty]);
+            const d = time < start ? start - time : time > end ? time - end : 0;
+            if (d < distance) {
+                closest = high;
+                distance = d;
+            }
+        }
+        return closest;
+    }
+}
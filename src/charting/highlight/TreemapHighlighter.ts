@@ -0,0 +1,56 @@
+import { Highlight } from './Highlight';
+import { IHighlighter } from './IHighlighter';
+import { TreemapChart } from '../charts/TreemapChart';
+import { TreemapEntry } from '../data/TreemapEntry';
+
+export interface TreemapHighlight extends Highlight<TreemapEntry> {
+    /**
+     * depth of the highlighted node below the displayed root, 0 being the
+     * top level
+     */
+    depth?: number;
+
+    /**
+     * indices of the highlighted node and its ancestors, starting with the
+     * index of the root entry in the DataSet
+     */
+    path?: number[];
+
+    /**
+     * the entries from the root to the highlighted node
+     */
+    nodes?: TreemapEntry[];
+}
+
+export class TreemapHighlighter implements IHighlighter {
+    protected mChart: TreemapChart;
+
+    constructor(chart: TreemapChart) {
+        this.mChart = chart;
+    }
+
+    public getHighlight(x: number, y: number): TreemapHighlight {
+        const node = this.mChart.getNodeForPoint(x, y);
+        if (node == null) {
+            return null;
+        }
+
+        const set = this.mChart.getData().getDataSet();
+        return {
+            entry: node.entry,
+            x: node.path[0],
+            y: node.value,
+            xPx: x,
+            yPx: y,
+            dataSetIndex: 0,
+            axis: set.getAxisDependency(),
+            depth: node.depth,
+            path: node.path,
+            nodes: this.mChart.getEntriesForPath(node.path)
+        };
+    }
+
+    public getHighlightsAtXValue(xVal: number, x?: number, y?: number): Highlight[] {
+        return [];
+    }
+}
@@ -0,0 +1,40 @@
+import { BarHighlighter } from './BarHighlighter';
+import { Highlight } from './Highlight';
+import { WaterfallEntry } from '../data/WaterfallEntry';
+import { BarDataProvider } from '../interfaces/dataprovider/BarDataProvider';
+import { IDataSet } from '../interfaces/datasets/IDataSet';
+
+/**
+ * Highlight of a WaterfallChart bar, carrying both the delta and the running total.
+ */
+export interface WaterfallHighlight extends Highlight<WaterfallEntry> {
+    /**
+     * the signed delta of the bar (the running total for total bars)
+     */
+    delta?: number;
+
+    /**
+     * the running total after the bar
+     */
+    cumulative?: number;
+}
+
+export class WaterfallHighlighter extends BarHighlighter {
+    constructor(chart: BarDataProvider) {
+        super(chart);
+    }
+
+    protected buildHighlights(set: IDataSet<WaterfallEntry>, dataSetIndex, xVal, rounding) {
+        const highlights: WaterfallHighlight[] = super.buildHighlights(set, dataSetIndex, xVal, rounding);
+        const trans = this.mChart.getTransformer(set.getAxisDependency());
+        for (const high of highlights) {
+            const e = high.entry;
+            // position the highlight at the end of the bar
+            const pixels = trans.getPixelForValues(high.x, e.cumulative);
+            high.yPx = pixels.y;
+            high.delta = e[set.yProperty];
+            high.cumulative = e.cumulative;
+        }
+        return highlights;
+    }
+}
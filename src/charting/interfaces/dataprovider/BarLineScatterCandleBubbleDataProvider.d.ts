@@ -1,11 +1,11 @@
 import { ChartInterface } from './ChartInterface';
 import { BarLineScatterCandleBubbleData } from '../../data/BarLineScatterCandleBubbleData';
-import { AxisDependency } from '../../components/YAxis';
+import { AxisId } from '../../components/YAxis';
 import { Transformer } from '../../utils/Transformer';
 
 export interface BarLineScatterCandleBubbleDataProvider extends ChartInterface {
-    getTransformer(axis?: AxisDependency): Transformer;
-    isInverted(axis: AxisDependency);
+    getTransformer(axis?: AxisId): Transformer;
+    isInverted(axis: AxisId);
 
     getLowestVisibleX();
     getHighestVisibleX();
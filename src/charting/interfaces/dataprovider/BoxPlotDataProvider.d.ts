@@ -0,0 +1,6 @@
+import { BoxPlotData } from '../../data/BoxPlotData';
+import { BarLineScatterCandleBubbleDataProvider } from './BarLineScatterCandleBubbleDataProvider';
+
+export interface BoxPlotDataProvider extends BarLineScatterCandleBubbleDataProvider {
+    getBoxPlotData(): BoxPlotData;
+}
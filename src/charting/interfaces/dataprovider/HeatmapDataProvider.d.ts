@@ -0,0 +1,6 @@
+import { HeatmapData } from '../../data/HeatmapData';
+import { BarLineScatterCandleBubbleDataProvider } from './BarLineScatterCandleBubbleDataProvider';
+
+export interface HeatmapDataProvider extends BarLineScatterCandleBubbleDataProvider {
+    getHeatmapData(): HeatmapData;
+}
@@ -1,10 +1,13 @@
 import { BarEntry } from '../../data/BarEntry';
 import { IBarLineScatterCandleBubbleDataSet } from './IBarLineScatterCandleBubbleDataSet';
+import { BarDrawMode } from '../../data/BarDataSet';
+import { IShapeDataSet, IShapeRenderer } from '../../renderer/scatter/IShapeRenderer';
+import { Color } from '@nativescript/core';
 
 /**
  * Created by philipp on 21/10/15.
  */
-export interface IBarDataSet extends IBarLineScatterCandleBubbleDataSet<BarEntry> {
+export interface IBarDataSet extends IBarLineScatterCandleBubbleDataSet<BarEntry>, IShapeDataSet {
     /**
      * Returns true if this DataSet is stacked (stacksize > 1) or not.
      *
@@ -58,4 +61,34 @@ export interface IBarDataSet extends IBarLineScatterCandleBubbleDataSet<BarEntry
      * @return
      */
     getStackLabels(): string[];
+
+    /**
+     * Returns the way the entries are drawn: bars, lollipops or dumbbells.
+     */
+    getDrawMode(): BarDrawMode;
+
+    /**
+     * Returns the entry property holding the start value of the dumbbells.
+     */
+    getDumbbellStartProperty(): string;
+
+    /**
+     * Returns the color of the shape at the start of the dumbbells, null for
+     * the DataSet color.
+     */
+    getDumbbellStartColor(): string | Color;
+
+    getStemWidth(): number;
+
+    /**
+     * Returns the color of the lollipop and dumbbell stems, null for the
+     * DataSet color.
+     */
+    getStemColor(): string | Color;
+
+    /**
+     * Returns the IShapeRenderer drawing the ends of the lollipops and
+     * dumbbells.
+     */
+    getShapeRenderer(): IShapeRenderer;
 }
@@ -1,5 +1,7 @@
 import { Entry } from '../../data/Entry';
 import { IDataSet } from './IDataSet';
+import { ErrorBarType } from '../../data/BarLineScatterCandleBubbleDataSet';
+import { Color } from '@nativescript/core';
 
 /**
  * Created by philipp on 21/10/15.
@@ -11,4 +13,40 @@ export interface IBarLineScatterCandleBubbleDataSet<T extends Entry> extends IDa
      * @return
      */
     getHighLightColor();
+
+    /**
+     * Returns true if the entries have error bars.
+     */
+    isErrorBarsEnabled(): boolean;
+
+    /**
+     * Returns whether the error values are in y values or percentages.
+     */
+    getErrorBarType(): ErrorBarType;
+
+    /**
+     * Returns the color of the error bars, null for the DataSet color.
+     */
+    getErrorBarColor(): string | Color;
+
+    getErrorBarLineWidth(): number;
+
+    /**
+     * Returns the width of the caps at the ends of the error bars in pixels.
+     */
+    getErrorBarCapWidth(): number;
+
+    /**
+     * Returns the y value at the bottom of the error bar of the given entry.
+     *
+     * @param e
+     */
+    getErrorBarLow(e: T): number;
+
+    /**
+     * Returns the y value at the top of the error bar of the given entry.
+     *
+     * @param e
+     */
+    getErrorBarHigh(e: T): number;
 }
@@ -0,0 +1,54 @@
+import { ILineScatterCandleRadarDataSet } from './ILineScatterCandleRadarDataSet';
+import { BoxPlotEntry } from '../../data/BoxPlotEntry';
+
+export interface IBoxPlotDataSet extends ILineScatterCandleRadarDataSet<BoxPlotEntry> {
+    /**
+     * Returns the space that is left out on the left and right side of each
+     * box.
+     *
+     * @return
+     */
+    getBarSpace();
+
+    /**
+     * Returns the width of the box, whisker and median lines in pixels.
+     *
+     * @return
+     */
+    getBoxLineWidth();
+
+    /**
+     * Returns palet style of the boxes
+     *
+     * @return
+     */
+    getBoxPaintStyle();
+
+    /**
+     * Returns the color of the median line, COLOR_NONE to use the box color
+     *
+     * @return
+     */
+    getMedianColor();
+
+    /**
+     * Returns the width of the whisker caps relative to the box width.
+     *
+     * @return
+     */
+    getWhiskerCapWidth();
+
+    /**
+     * Returns the radius of the outlier circles in pixels.
+     *
+     * @return
+     */
+    getOutlierRadius();
+
+    /**
+     * Returns true if outliers are drawn.
+     *
+     * @return
+     */
+    isDrawOutliersEnabled();
+}
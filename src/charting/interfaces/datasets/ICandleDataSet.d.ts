@@ -1,5 +1,6 @@
 import { ILineScatterCandleRadarDataSet } from './ILineScatterCandleRadarDataSet';
 import { CandleEntry } from '../../data/CandleEntry';
+import { CandleDrawMode } from '../../data/CandleDataSet';
 
 export interface ICandleDataSet extends ILineScatterCandleRadarDataSet<CandleEntry> {
     /**
@@ -20,6 +21,13 @@ export interface ICandleDataSet extends ILineScatterCandleRadarDataSet<CandleEnt
      */
     getShowCandleBar();
 
+    /**
+     * Returns the way the entries are drawn.
+     *
+     * @return
+     */
+    getDrawMode(): CandleDrawMode;
+
     /**
      * Returns the width of the candle-shadow-line in pixels.
      *
@@ -3,7 +3,7 @@ import { Font } from '@nativescript/core/ui/styling/font';
 import { DashPathEffect } from '@nativescript-community/ui-canvas';
 import { Entry } from '../../data/Entry';
 import { Rounding } from '../../data/DataSet';
-import { AxisDependency } from '../../components/YAxis';
+import { AxisId } from '../../components/YAxis';
 import { GradientColor } from '../../model/GradientColor';
 import { IValueFormatter } from '../../formatter/IValueFormatter';
 import { ValueFormatter } from '../../formatter/ValueFormatter';
@@ -283,15 +283,15 @@ export interface IDataSet<T extends Entry> {
      *
      * @return
      */
-    getAxisDependency(): AxisDependency;
+    getAxisDependency(): AxisId;
 
     /**
-     * Set the y-axis this DataSet should be plotted against (either LEFT or
-     * RIGHT). Default: LEFT
+     * Set the y-axis this DataSet should be plotted against (either LEFT,
+     * RIGHT or the id of an additional axis of the chart). Default: LEFT
      *
      * @param dependency
      */
-    setAxisDependency(dependency: AxisDependency);
+    setAxisDependency(dependency: AxisId);
 
     /**
      * returns all the colors that are set for this DataSet
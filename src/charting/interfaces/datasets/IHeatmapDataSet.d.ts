@@ -0,0 +1,68 @@
+import { Color } from '@nativescript/core';
+import { IBarLineScatterCandleBubbleDataSet } from './IBarLineScatterCandleBubbleDataSet';
+import { HeatmapEntry } from '../../data/HeatmapEntry';
+import { IColorScale } from '../../utils/colorscale/IColorScale';
+
+export interface IHeatmapDataSet extends IBarLineScatterCandleBubbleDataSet<HeatmapEntry> {
+    /**
+     * property to access the cell value of an entry
+     */
+    valueProperty: string;
+
+    /**
+     * Returns the width of a cell, in values (not pixels).
+     *
+     * @return
+     */
+    getCellWidth(): number;
+
+    /**
+     * Returns the height of a cell, in values (not pixels).
+     *
+     * @return
+     */
+    getCellHeight(): number;
+
+    /**
+     * Returns the space left between the cells, in dp.
+     *
+     * @return
+     */
+    getCellSpacing(): number;
+
+    /**
+     * Returns the color scale used to color the cells.
+     *
+     * @return
+     */
+    getColorScale(): IColorScale;
+
+    /**
+     * Returns the minimum of the value domain mapped by the color scale.
+     *
+     * @return
+     */
+    getValueMin(): number;
+
+    /**
+     * Returns the maximum of the value domain mapped by the color scale.
+     *
+     * @return
+     */
+    getValueMax(): number;
+
+    /**
+     * Returns the color of the given cell value.
+     *
+     * @param value
+     * @return
+     */
+    getColorForValue(value: number): Color;
+
+    /**
+     * Returns the width of the highlight border, in dp.
+     *
+     * @return
+     */
+    getHighlightLineWidth(): number;
+}
@@ -101,6 +101,27 @@ export interface ILineDataSet extends ILineRadarDataSet<Entry> {
      */
     getFillFormatter();
 
+    /**
+     * Returns the DataSet whose line bounds the fill area, or null.
+     */
+    getFillTargetDataSet(): ILineDataSet;
+
+    /**
+     * Returns the entry property holding the lower bound of the fill area, or null.
+     */
+    getFillLowProperty(): string;
+
+    /**
+     * Returns the entry property holding the upper bound of the fill area, or null.
+     */
+    getFillHighProperty(): string;
+
+    /**
+     * Returns true if the fill area is bounded by a target DataSet or by
+     * per-entry values instead of the fill-line position.
+     */
+    isFillRangeEnabled(): boolean;
+
     applyFiltering(scaleX: number);
     setMaxFilterNumber(value: number);
 }
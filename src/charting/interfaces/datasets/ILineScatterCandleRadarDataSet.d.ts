@@ -1,4 +1,5 @@
 import { Entry } from '../../data/Entry';
+import { Trendline } from '../../data/Trendline';
 import { IBarLineScatterCandleBubbleDataSet } from './IBarLineScatterCandleBubbleDataSet';
 
 /**
@@ -28,4 +29,10 @@ export interface ILineScatterCandleRadarDataSet<T extends Entry> extends IBarLin
      * @return
      */
     getDashPathEffectHighlight();
+
+    /**
+     * Returns the best fit line of the entries, null if there is none.
+     * @return
+     */
+    getTrendline(): Trendline;
 }
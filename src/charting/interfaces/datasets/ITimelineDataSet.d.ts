@@ -0,0 +1,25 @@
+import { Color } from '@nativescript/core';
+import { IBarDataSet } from './IBarDataSet';
+
+export interface ITimelineDataSet extends IBarDataSet {
+    /**
+     * Returns the color used to draw the completed part of the tasks.
+     *
+     * @return
+     */
+    getProgressColor(): string | Color;
+
+    /**
+     * Returns the alpha used to draw the completed part of the tasks.
+     *
+     * @return
+     */
+    getProgressAlpha(): number;
+
+    /**
+     * Returns true if the completed part of the tasks should be drawn.
+     *
+     * @return
+     */
+    isDrawProgressEnabled(): boolean;
+}
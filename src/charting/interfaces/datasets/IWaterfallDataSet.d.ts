@@ -0,0 +1,54 @@
+import { Color } from '@nativescript/core';
+import { DashPathEffect } from '@nativescript-community/ui-canvas';
+import { IBarDataSet } from './IBarDataSet';
+
+export interface IWaterfallDataSet extends IBarDataSet {
+    /**
+     * Returns the color used for bars with a positive delta.
+     *
+     * @return
+     */
+    getIncreasingColor(): string | Color;
+
+    /**
+     * Returns the color used for bars with a negative delta.
+     *
+     * @return
+     */
+    getDecreasingColor(): string | Color;
+
+    /**
+     * Returns the color used for total bars.
+     *
+     * @return
+     */
+    getTotalColor(): string | Color;
+
+    /**
+     * Returns true if connector lines should be drawn between consecutive bars.
+     *
+     * @return
+     */
+    isDrawConnectorsEnabled(): boolean;
+
+    /**
+     * Returns the color of the connector lines.
+     *
+     * @return
+     */
+    getConnectorColor(): string | Color;
+
+    /**
+     * Returns the width of the connector lines.
+     *
+     * @return
+     */
+    getConnectorWidth(): number;
+
+    /**
+     * Returns the dash effect used for the connector lines, null if they are solid.
+     *
+     * @return
+     */
+    getConnectorDashPathEffect(): DashPathEffect;
+}
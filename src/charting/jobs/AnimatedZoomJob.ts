@@ -91,14 +91,22 @@ export class AnimatedZoomJob extends AnimatedViewPortJob {
         viewPortHanlder.setZoom(scaleX, scaleY, save);
         viewPortHanlder.refresh(save, this.mView, false);
 
-        const valsInView = this.mYAxis.mAxisRange / viewPortHanlder.getScaleY();
+        const valsInView = this.mYAxis.getScaledRange() / viewPortHanlder.getScaleY();
         const xsInView = this.mXAxisRange / viewPortHanlder.getScaleX();
-        const pts = Utils.getTempArray(2);
+        const values = Utils.getTempArray(4);
+
+        // the visible ranges are in the scale of the axes
+        values[0] = this.mZoomOriginX;
+        values[1] = this.mZoomOriginY;
+        values[2] = this.mZoomCenterX;
+        values[3] = this.mZoomCenterY;
+        this.mTrans.pointValuesToScale(values);
 
-        pts[0] = this.mZoomOriginX + (this.mZoomCenterX - xsInView / 2 - this.mZoomOriginX) * this.mPhase;
-        pts[1] = this.mZoomOriginY + (this.mZoomCenterY + valsInView / 2 - this.mZoomOriginY) * this.mPhase;
+        const pts = Utils.getTempArray(2);
+        pts[0] = values[0] + (values[2] - xsInView / 2 - values[0]) * this.mPhase;
+        pts[1] = values[1] + (values[3] + valsInView / 2 - values[1]) * this.mPhase;
 
-        this.mTrans.pointValuesToPixel(pts);
+        this.mTrans.scaledPointValuesToPixel(pts);
 
         viewPortHanlder.translate(pts, save);
         viewPortHanlder.refresh(save, this.mView, true);
@@ -30,7 +30,6 @@ export class ZoomJob extends ViewPortJob {
         pool.recycle(instance);
     }
 
-
     constructor(viewPortHandler: ViewPortHandler, scaleX, scaleY, xValue, yValue, trans: Transformer, axis: AxisDependency, v: BarLineChartBase<any, any, any>) {
         super(viewPortHandler, xValue, yValue, trans, v);
 
@@ -39,21 +38,24 @@ export class ZoomJob extends ViewPortJob {
         this.mAxisDependency = axis;
     }
 
-
     public run() {
         const save = Utils.getTempMatrix();
         const viewPortHanlder = this.mViewPortHandler;
         viewPortHanlder.zoom(this.mScaleX, this.mScaleY, save);
         viewPortHanlder.refresh(save, this.mView, false);
 
-        const yValsInView = this.mView.getAxis(this.mAxisDependency).mAxisRange / viewPortHanlder.getScaleY();
-        const xValsInView = this.mView.getXAxis().mAxisRange / viewPortHanlder.getScaleX();
+        const yValsInView = this.mView.getAxis(this.mAxisDependency).getScaledRange() / viewPortHanlder.getScaleY();
+        const xValsInView = this.mView.getXAxis().getScaledRange() / viewPortHanlder.getScaleX();
         const pts = Utils.getTempArray(2);
 
-        pts[0] = this.mXValue - xValsInView / 2;
-        pts[1] = this.mYValue + yValsInView / 2;
+        // the visible ranges are in the scale of the axes
+        pts[0] = this.mXValue;
+        pts[1] = this.mYValue;
+        this.mTrans.pointValuesToScale(pts);
+        pts[0] -= xValsInView / 2;
+        pts[1] += yValsInView / 2;
 
-        this.mTrans.pointValuesToPixel(pts);
+        this.mTrans.scaledPointValuesToPixel(pts);
 
         viewPortHanlder.translate(pts, save);
         viewPortHanlder.refresh(save, this.mView, false);
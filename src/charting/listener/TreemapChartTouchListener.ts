@@ -0,0 +1,67 @@
+import { GestureHandlerStateEvent, GestureState, GestureStateEventData, HandlerType, Manager, TapGestureHandler } from '@nativescript-community/gesturehandler';
+import { TreemapChart } from '../charts/TreemapChart';
+import { TreemapHighlight } from '../highlight/TreemapHighlighter';
+import { ChartGesture, ChartTouchListener } from './ChartTouchListener';
+
+/**
+ * TouchListener for the TreemapChart handling taps, used to highlight nodes
+ * and to drill down into them.
+ */
+export class TreemapChartTouchListener extends ChartTouchListener<TreemapChart> {
+    tapGestureHandler: TapGestureHandler;
+
+    constructor(chart: TreemapChart) {
+        super(chart);
+    }
+
+    getOrCreateTapGestureHandler() {
+        if (!this.tapGestureHandler) {
+            const manager = Manager.getInstance();
+            this.tapGestureHandler = manager.createGestureHandler(HandlerType.TAP, 11233, {}).on(GestureHandlerStateEvent, this.onTapGesture, this);
+        }
+        return this.tapGestureHandler;
+    }
+
+    setTap(enabled: boolean) {
+        if (enabled) {
+            this.getOrCreateTapGestureHandler().attachToView(this.mChart);
+        } else if (this.tapGestureHandler) {
+            this.tapGestureHandler.detachFromView(this.mChart);
+        }
+    }
+
+    dispose() {
+        super.dispose();
+        this.tapGestureHandler && this.tapGestureHandler.detachFromView(this.mChart);
+    }
+
+    init() {
+        super.init();
+
+        if (this.mChart.isHighlightPerTapEnabled() || this.mChart.isDrillDownEnabled()) {
+            this.setTap(true);
+        }
+    }
+
+    public onTapGesture(event: GestureStateEventData) {
+        if (event.data.state === GestureState.END && event.data.prevState === GestureState.ACTIVE) {
+            this.mLastGesture = ChartGesture.SINGLE_TAP;
+            const chart = this.mChart;
+
+            const h = chart.getHighlightByTouchPoint(event.data.extraData.x, event.data.extraData.y) as TreemapHighlight;
+            if (chart.hasListeners('tap')) {
+                chart.notify({ eventName: 'tap', data: event.data, object: chart, highlight: h });
+            }
+
+            if (h && chart.isDrillDownEnabled()) {
+                chart.drillDown(h.path);
+            }
+
+            if (!chart.isHighlightPerTapEnabled()) {
+                return;
+            }
+
+            this.performHighlight(h);
+        }
+    }
+}
@@ -1,4 +1,4 @@
-import { Align, Canvas, Paint, RectF, Style } from '@nativescript-community/ui-canvas';
+import { Align, Canvas, Paint, Path, RectF, Style } from '@nativescript-community/ui-canvas';
 import { profile } from '@nativescript/core';
 import { AxisBase } from '../components/AxisBase';
 import { LimitLine } from '../components/LimitLine';
@@ -169,6 +169,14 @@ export abstract class AxisRenderer extends Renderer {
      */
     protected computeAxisValues(min, max) {
         const axis = this.mAxis;
+        if (axis.isLogScaleEnabled()) {
+            this.computeLogAxisValues(min, max);
+            return;
+        }
+        if (axis.getBreaks().length > 0) {
+            this.computeBrokenAxisValues(min, max);
+            return;
+        }
         const yMin = min;
         const yMax = max;
 
@@ -295,6 +303,202 @@ export abstract class AxisRenderer extends Renderer {
         }
     }
 
+    /**
+     * Sets up the axis values of a logarithmic axis: an entry on each power of
+     * the base between the two given extremes and, if enabled, unlabeled
+     * entries on their multiples in between. When there are more powers of
+     * the base than the label count, only every n-th power is labeled and
+     * the multiples are skipped.
+     *
+     * @param min
+     * @param max
+     */
+    protected computeLogAxisValues(min, max) {
+        const axis = this.mAxis;
+        if (min > max) {
+            [min, max] = [max, min];
+        }
+        if (!(min > 0) || !(max > min) || !Number.isFinite(max)) {
+            axis.mEntries = [];
+            axis.mLabels = [];
+            axis.mCenteredEntries = [];
+            axis.mEntryCount = 0;
+            return;
+        }
+        const base = axis.getLogBase();
+        const logBase = Math.log(base);
+        // the epsilon avoids rounding errors on exact powers of the base
+        const first = Math.floor(Math.log(min) / logBase + 1e-9);
+        const last = Math.ceil(Math.log(max) / logBase - 1e-9);
+        const step = Math.max(1, Math.ceil((last - first) / Math.max(1, axis.getLabelCount() - 1)));
+        const drawMinorTicks = axis.isLogMinorTicksEnabled() && step === 1;
+        const lowest = min * (1 - 1e-9);
+        const highest = max * (1 + 1e-9);
+
+        const formatter = axis.getValueFormatter();
+        const entries: number[] = [];
+        const labels: string[] = [];
+        for (let p = first; p <= last; p++) {
+            const power = Math.pow(base, p);
+            if (power >= lowest && power <= highest && !axis.isInBreak(power) && !axis.isBreakEnd(power)) {
+                entries.push(power);
+                labels.push(p % step === 0 ? formatter.getAxisLabel(power, axis, this.mViewPortHandler) : '');
+            }
+            if (drawMinorTicks) {
+                for (let k = 2; k < base; k++) {
+                    const value = k * power;
+                    if (value >= lowest && value <= highest && !axis.isInBreak(value) && !axis.isBreakEnd(value)) {
+                        entries.push(value);
+                        labels.push('');
+                    }
+                }
+            }
+        }
+
+        axis.mEntries = entries;
+        axis.mLabels = labels;
+        axis.mCenteredEntries = [];
+        axis.mEntryCount = entries.length;
+        axis.mDecimals = Math.max(0, Math.ceil(-Math.log10(Math.pow(base, first)) - 1e-9));
+    }
+
+    /**
+     * Sets up the axis values of an axis with breaks: the interval is
+     * computed from the range left once the breaks are collapsed, entries
+     * being placed on its multiples within each segment between breaks.
+     *
+     * @param min
+     * @param max
+     */
+    protected computeBrokenAxisValues(min, max) {
+        const axis = this.mAxis;
+        if (min > max) {
+            [min, max] = [max, min];
+        }
+        const segments = axis.getSegments(min, max);
+        const range = segments.reduce((result, segment) => result + segment[1] - segment[0], 0);
+        const labelCount = axis.getLabelCount();
+        axis.mEntries = [];
+        axis.mLabels = [];
+        axis.mCenteredEntries = [];
+        if (labelCount === 0 || !(range > 0) || !Number.isFinite(range)) {
+            axis.mEntryCount = 0;
+            return;
+        }
+
+        let interval = Utils.roundToNextSignificant(range / Math.max(1, labelCount - 1));
+        if (axis.isGranularityEnabled() && interval < axis.getGranularity()) {
+            interval = axis.getGranularity();
+        }
+        const intervalMagnitude = Utils.roundToNextSignificant(Math.pow(10, Math.log10(interval)));
+        if (interval / intervalMagnitude > 5) {
+            interval = Math.floor(10 * intervalMagnitude);
+        }
+        axis.mDecimals = interval < 1 ? Math.ceil(-Math.log10(interval)) : 0;
+
+        const formatter = axis.getValueFormatter();
+        for (const [from, to] of segments) {
+            for (let f = Math.ceil(from / interval) * interval; f <= to; f += interval) {
+                // segments are closed, the start of a segment after a break
+                // is at the same position as the end of the previous one
+                if (axis.isBreakEnd(f)) {
+                    continue;
+                }
+                // Fix for negative zero case (Where value == -0.0, and 0.0 == -0.0)
+                const value = f === 0 ? 0 : f;
+                axis.mEntries.push(value);
+                axis.mLabels.push(formatter.getAxisLabel(value, axis, this.mViewPortHandler));
+            }
+        }
+        axis.mEntryCount = axis.mEntries.length;
+
+        if (axis.isCenterAxisLabelsEnabled()) {
+            axis.mCenteredEntries = axis.mEntries.map((value) => value + interval / 2);
+        }
+    }
+
+    /**
+     * Returns true if the axis runs vertically on screen.
+     */
+    protected isAxisVertical() {
+        return false;
+    }
+
+    /**
+     * Draws the break markers of the axis across the content: two zigzag
+     * lines where the collapsed ranges are, the space between them being
+     * filled to cut the data drawn below.
+     *
+     * @param c
+     */
+    public renderBreaks(c: Canvas) {
+        const axis = this.mAxis;
+        const breaks = axis.getBreaks();
+        if (!axis.isEnabled() || breaks.length === 0) {
+            return;
+        }
+        const vertical = this.isAxisVertical();
+        const rect = this.mAxis.isIgnoringOffsets() ? this.mViewPortHandler.getChartRect() : this.mViewPortHandler.getContentRect();
+        const halfSpace = axis.getBreakMarkerSpace() / 2;
+        const amplitude = 3;
+        const wavelength = 8;
+
+        const fillPaint = Utils.getTempPaint();
+        fillPaint.setStyle(Style.FILL);
+        fillPaint.setColor(axis.getBreakMarkerFillColor());
+        const linePaint = this.axisLinePaint;
+        linePaint.setColor(axis.getAxisLineColor());
+        linePaint.setStrokeWidth(Math.max(1, axis.getAxisLineWidth()));
+        linePaint.setPathEffect(null);
+
+        const positions = Utils.getTempArray(2);
+        const path = Utils.getTempPath();
+        const start = vertical ? rect.left : rect.top;
+        const end = vertical ? rect.right : rect.bottom;
+        for (const b of breaks) {
+            positions[0] = b.from;
+            positions[1] = b.from;
+            this.mTrans.pointValuesToPixel(positions);
+            const pos = vertical ? positions[1] : positions[0];
+            if (vertical ? pos < rect.top || pos > rect.bottom : pos < rect.left || pos > rect.right) {
+                continue;
+            }
+
+            // the zigzag runs across the content, perpendicular to the axis
+            const points: number[] = [];
+            for (let along = start, i = 0; along < end + wavelength / 2; along += wavelength / 2, i++) {
+                points.push(Math.min(along, end), i % 2 === 0 ? -amplitude : amplitude);
+            }
+            path.reset();
+            for (let i = 0; i < points.length; i += 2) {
+                this.lineTo(path, i === 0, vertical, points[i], pos - halfSpace + points[i + 1]);
+            }
+            for (let i = points.length - 2; i >= 0; i -= 2) {
+                this.lineTo(path, false, vertical, points[i], pos + halfSpace + points[i + 1]);
+            }
+            path.close();
+            c.drawPath(path, fillPaint);
+
+            for (const side of [-halfSpace, halfSpace]) {
+                path.reset();
+                for (let i = 0; i < points.length; i += 2) {
+                    this.lineTo(path, i === 0, vertical, points[i], pos + side + points[i + 1]);
+                }
+                c.drawPath(path, linePaint);
+            }
+        }
+    }
+
+    private lineTo(path: Path, move: boolean, vertical: boolean, along: number, across: number) {
+        const x = vertical ? along : across;
+        const y = vertical ? across : along;
+        if (move) {
+            path.moveTo(x, y);
+        } else {
+            path.lineTo(x, y);
+        }
+    }
+
     /**
      * Draws the axis labels to the screen.
      *
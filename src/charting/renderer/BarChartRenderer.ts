@@ -1,10 +1,13 @@
-import { Canvas, Paint, RectF } from '@nativescript-community/ui-canvas';
+import { Canvas, Paint, RectF, Style } from '@nativescript-community/ui-canvas';
 import { TypedArray } from '@nativescript-community/arraybuffers';
 import { profile } from '@nativescript/core';
 import { ChartAnimator } from '../animation/ChartAnimator';
 import { BarBuffer } from '../buffer/BarBuffer';
 import { BarChart } from '../charts/BarChart';
+import { BarDrawMode } from '../data/BarDataSet';
+import { BulletDataSet } from '../data/BulletDataSet';
 import { Entry } from '../data/Entry';
+import { HistogramDataSet } from '../data/HistogramDataSet';
 import { Highlight } from '../highlight/Highlight';
 import { IBarDataSet } from '../interfaces/datasets/IBarDataSet';
 import { Transformer } from '../utils/Transformer';
@@ -72,9 +75,20 @@ export class BarChartRenderer extends BarLineScatterCandleBubbleRenderer {
         for (let i = 0; i < barData.getDataSetCount(); i++) {
             const set = barData.getDataSetByIndex(i);
             if (set.isVisible()) {
+                if (set instanceof BulletDataSet) {
+                    this.drawBulletBands(c, set);
+                }
                 this.drawDataSet(c, set, i);
+                if (set instanceof BulletDataSet) {
+                    this.drawBulletTargets(c, set);
+                }
             }
         }
+
+        const customRender = this.mChart.getCustomRenderer();
+        for (const set of barData.getVisibleDataSets()) {
+            this.drawErrorBars(c, this.mChart, set, customRender);
+        }
     }
 
     protected drawDataSet(c: Canvas, dataSet: IBarDataSet, index: number): boolean {
@@ -96,9 +110,7 @@ export class BarChartRenderer extends BarLineScatterCandleBubbleRenderer {
             const paint = this.shadowPaint;
             paint.setColor(dataSet.getBarShadowColor());
 
-            const barData = this.mChart.getBarData();
-
-            const barWidth = barData.getBarWidth();
+            const barWidth = this.getBarWidth(dataSet);
             const barWidthHalf = barWidth / 2;
             let x;
 
@@ -131,7 +143,7 @@ export class BarChartRenderer extends BarLineScatterCandleBubbleRenderer {
         buffer.setPhases(phaseX, phaseY);
         buffer.setDataSet(index);
         buffer.setInverted(this.mChart.isInverted(dataSet.getAxisDependency()));
-        buffer.setBarWidth(this.mChart.getBarData().getBarWidth());
+        buffer.setBarWidth(this.getBarWidth(dataSet));
         buffer.setYAxisMin(this.mChart.getAxis(dataSet.getAxisDependency()).getAxisMinimum());
         buffer.setYAxisMax(this.mChart.getAxis(dataSet.getAxisDependency()).getAxisMaximum());
 
@@ -139,6 +151,11 @@ export class BarChartRenderer extends BarLineScatterCandleBubbleRenderer {
 
         trans.pointValuesToPixel(buffer.buffer);
 
+        if (dataSet.getDrawMode() !== BarDrawMode.BAR && !dataSet.isStacked()) {
+            this.drawStems(c, dataSet, buffer, trans);
+            return true;
+        }
+
         const isSingleColor = dataSet.getColors().length === 1;
         // const isInverted = this.mChart.isInverted(dataSet.getAxisDependency());
         const renderPaint = this.renderPaint;
@@ -181,6 +198,198 @@ export class BarChartRenderer extends BarLineScatterCandleBubbleRenderer {
         return true;
     }
 
+    /**
+     * Returns the pixel position of the given y value on the bar at the given
+     * x value.
+     *
+     * @param trans
+     * @param x
+     * @param y
+     */
+    protected getValuePixel(trans: Transformer, x: number, y: number) {
+        return this.isHorizontal() ? trans.getPixelForValues(y, x) : trans.getPixelForValues(x, y);
+    }
+
+    /**
+     * Draws the entries of the given DataSet as lollipops or dumbbells: a
+     * stem along the center of the bars of the buffer, from their base or
+     * from the dumbbell start value to their value, ended by shapes.
+     *
+     * @param c
+     * @param dataSet
+     * @param buffer the transformed bars of the DataSet
+     * @param trans
+     */
+    protected drawStems(c: Canvas, dataSet: IBarDataSet, buffer: BarBuffer, trans: Transformer) {
+        const viewPortHandler = this.mViewPortHandler;
+        const horizontal = this.isHorizontal();
+        const dumbbell = dataSet.getDrawMode() === BarDrawMode.DUMBBELL;
+        const inverted = this.mChart.isInverted(dataSet.getAxisDependency());
+        const phaseY = this.mAnimator.getPhaseY();
+        const yKey = dataSet.yProperty;
+        const startKey = dataSet.getDumbbellStartProperty();
+        const stemColor = dataSet.getStemColor();
+        const startColor = dataSet.getDumbbellStartColor();
+        const shapeRenderer = dataSet.getShapeRenderer();
+        const renderPaint = this.renderPaint;
+        const customRender = this.mChart.getCustomRenderer();
+        const points = buffer.buffer;
+
+        for (let j = 0, pos = 0; j < buffer.size(); j += 4, pos++) {
+            if (horizontal) {
+                if (!viewPortHandler.isInBoundsTop(points[j + 3])) {
+                    break;
+                }
+                if (!viewPortHandler.isInBoundsBottom(points[j + 1])) {
+                    continue;
+                }
+            } else {
+                if (!viewPortHandler.isInBoundsLeft(points[j + 2])) {
+                    continue;
+                }
+                if (!viewPortHandler.isInBoundsRight(points[j])) {
+                    break;
+                }
+            }
+            const e = dataSet.getEntryForIndex(pos);
+            // the value is at the end the bar grows to
+            const valueAtEnd = e[yKey] >= 0 !== inverted;
+            let x1: number, y1: number, x2: number, y2: number;
+            if (horizontal) {
+                y1 = y2 = (points[j + 1] + points[j + 3]) / 2;
+                x1 = valueAtEnd ? points[j] : points[j + 2];
+                x2 = valueAtEnd ? points[j + 2] : points[j];
+            } else {
+                x1 = x2 = (points[j] + points[j + 2]) / 2;
+                y1 = valueAtEnd ? points[j + 3] : points[j + 1];
+                y2 = valueAtEnd ? points[j + 1] : points[j + 3];
+            }
+            if (dumbbell) {
+                const start = this.getValuePixel(trans, dataSet.getEntryXValue(e, pos), (e[startKey] || 0) * phaseY);
+                if (horizontal) {
+                    x1 = start.x;
+                } else {
+                    y1 = start.y;
+                }
+            }
+
+            const color = dataSet.getColor(pos);
+            renderPaint.setStyle(Style.STROKE);
+            renderPaint.setStrokeWidth(dataSet.getStemWidth());
+            renderPaint.setColor(stemColor || color);
+            if (customRender && customRender.drawStem) {
+                customRender.drawStem(c, e, dataSet, x1, y1, x2, y2, renderPaint);
+            } else {
+                c.drawLine(x1, y1, x2, y2, renderPaint);
+            }
+
+            if (shapeRenderer) {
+                if (dumbbell) {
+                    renderPaint.setColor(startColor || color);
+                    shapeRenderer.renderShape(c, dataSet, viewPortHandler, x1, y1, renderPaint);
+                }
+                renderPaint.setColor(color);
+                shapeRenderer.renderShape(c, dataSet, viewPortHandler, x2, y2, renderPaint);
+            }
+        }
+        renderPaint.setStyle(Style.FILL);
+    }
+
+    /**
+     * Returns the width of the bars of the given DataSet in values. Histogram
+     * bars fill their whole bin.
+     *
+     * @param dataSet
+     */
+    protected getBarWidth(dataSet: IBarDataSet) {
+        if (dataSet instanceof BulletDataSet) {
+            return (this.mChart.getBarData().getBarWidth() * dataSet.getValueBarWidthPercent()) / 100;
+        }
+        return dataSet instanceof HistogramDataSet ? dataSet.getBinWidth() : this.mChart.getBarData().getBarWidth();
+    }
+
+    /**
+     * Returns true if the given pixel rect is at least partly in the content
+     * rect.
+     *
+     * @param rect
+     */
+    protected isRectInContent(rect: RectF) {
+        const viewPortHandler = this.mViewPortHandler;
+        return rect.right >= viewPortHandler.contentLeft() && rect.left <= viewPortHandler.contentRight() && rect.bottom >= viewPortHandler.contentTop() && rect.top <= viewPortHandler.contentBottom();
+    }
+
+    /**
+     * Draws the qualitative bands of the entries of the given bullet
+     * DataSet across the whole bar width, the highest band first so that
+     * the lower ones are drawn over it.
+     *
+     * @param c
+     * @param dataSet
+     */
+    protected drawBulletBands(c: Canvas, dataSet: BulletDataSet) {
+        const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
+        const barWidthHalf = this.mChart.getBarData().getBarWidth() / 2;
+        const customRender = this.mChart.getCustomRenderer();
+        const renderPaint = this.renderPaint;
+        const rect = Utils.getTempRectF();
+        renderPaint.setStyle(Style.FILL);
+
+        for (let i = 0; i < dataSet.getEntryCount(); i++) {
+            const e = dataSet.getEntryForIndex(i);
+            if (e == null) continue;
+            const x = dataSet.getEntryXValue(e, i);
+            const bands = dataSet.getEntryBands(e);
+            for (let j = bands.length - 1; j >= 0; j--) {
+                this.prepareBarHighlight(x, bands[j], 0, barWidthHalf, trans, rect);
+                if (!this.isRectInContent(rect)) {
+                    break;
+                }
+                renderPaint.setColor(dataSet.getBandColor(j));
+                if (customRender && customRender.drawBulletBand) {
+                    customRender.drawBulletBand(c, e, dataSet, j, rect.left, rect.top, rect.right, rect.bottom, renderPaint);
+                } else {
+                    c.drawRect(rect, renderPaint);
+                }
+            }
+        }
+    }
+
+    /**
+     * Draws the target markers of the entries of the given bullet DataSet,
+     * as lines across their bar.
+     *
+     * @param c
+     * @param dataSet
+     */
+    protected drawBulletTargets(c: Canvas, dataSet: BulletDataSet) {
+        const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
+        const lengthHalf = (this.mChart.getBarData().getBarWidth() * dataSet.getTargetLengthPercent()) / 200;
+        const targetKey = dataSet.targetProperty;
+        const customRender = this.mChart.getCustomRenderer();
+        const renderPaint = this.renderPaint;
+        const rect = Utils.getTempRectF();
+        renderPaint.setStyle(Style.STROKE);
+        renderPaint.setStrokeWidth(dataSet.getTargetLineWidth());
+        renderPaint.setColor(dataSet.getTargetColor());
+
+        for (let i = 0; i < dataSet.getEntryCount(); i++) {
+            const e = dataSet.getEntryForIndex(i);
+            if (e == null || e[targetKey] == null || isNaN(e[targetKey])) continue;
+            // the rect is flat along the value axis, going across the bar
+            this.prepareBarHighlight(dataSet.getEntryXValue(e, i), e[targetKey], e[targetKey], lengthHalf, trans, rect);
+            if (!this.isRectInContent(rect)) {
+                continue;
+            }
+            if (customRender && customRender.drawBulletTarget) {
+                customRender.drawBulletTarget(c, e, dataSet, rect.left, rect.top, rect.right, rect.bottom, renderPaint);
+            } else {
+                c.drawLine(rect.left, rect.top, rect.right, rect.bottom, renderPaint);
+            }
+        }
+        renderPaint.setStyle(Style.FILL);
+    }
+
     protected prepareBarHighlight(x: number, y1: number, y2: number, barWidthHalf: number, trans: Transformer, barRect: RectF) {
         const left = x - barWidthHalf;
         const right = x + barWidthHalf;
@@ -423,6 +632,11 @@ export class BarChartRenderer extends BarLineScatterCandleBubbleRenderer {
             paint.setColor(set.getHighLightColor());
             paint.setAlpha(set.getHighLightAlpha());
 
+            if (set.getDrawMode() !== BarDrawMode.BAR && !set.isStacked()) {
+                this.drawStemHighlight(c, high, set, entry, index, paint);
+                continue;
+            }
+
             const isStack = high.stackIndex >= 0 && entry.isStacked ? true : false;
 
             let y1;
@@ -443,7 +657,7 @@ export class BarChartRenderer extends BarLineScatterCandleBubbleRenderer {
                 y2 = minAxisValue >= 0 ? minAxisValue : 0;
             }
             const x = set.getEntryXValue(entry, index);
-            this.prepareBarHighlight(x, y1, y2, barData.getBarWidth() / 2, trans, barRect);
+            this.prepareBarHighlight(x, y1, y2, this.getBarWidth(set) / 2, trans, barRect);
 
             this.setHighlightDrawPos(high, barRect);
             const customRender = this.mChart.getCustomRenderer();
@@ -456,6 +670,34 @@ export class BarChartRenderer extends BarLineScatterCandleBubbleRenderer {
         }
     }
 
+    /**
+     * Highlights the shape at the highlighted end of a lollipop or dumbbell,
+     * the start of a dumbbell being highlighted with a stack index of 0.
+     *
+     * @param c
+     * @param high
+     * @param set
+     * @param entry
+     * @param index
+     * @param paint
+     */
+    protected drawStemHighlight(c: Canvas, high: Highlight, set: IBarDataSet, entry: Entry, index: number, paint: Paint) {
+        const trans = this.mChart.getTransformer(set.getAxisDependency());
+        const atStart = set.getDrawMode() === BarDrawMode.DUMBBELL && high.stackIndex === 0;
+        const value = atStart ? entry[set.getDumbbellStartProperty()] : entry[set.yProperty];
+        const pix = this.getValuePixel(trans, set.getEntryXValue(entry, index), (value || 0) * this.mAnimator.getPhaseY());
+        const radius = set.getScatterShapeSize() * 0.75;
+
+        high.drawX = pix.x;
+        high.drawY = pix.y;
+        const customRender = this.mChart.getCustomRenderer();
+        if (customRender && customRender.drawHighlight) {
+            customRender.drawHighlight(c, high, pix.x - radius, pix.y - radius, pix.x + radius, pix.y + radius, paint);
+        } else {
+            c.drawCircle(pix.x, pix.y, radius, paint);
+        }
+    }
+
     /**
      * Sets the drawing position of the highlight object based on the riven bar-rect.
      * @param high
@@ -1,3 +1,4 @@
+import { Canvas, Paint } from '@nativescript-community/ui-canvas';
 import { ChartAnimator } from '../animation/ChartAnimator';
 import { BarLineScatterCandleBubbleDataSet } from '../data/BarLineScatterCandleBubbleDataSet';
 import { Rounding } from '../data/DataSet';
@@ -5,9 +6,14 @@ import { Entry } from '../data/Entry';
 import { BarLineScatterCandleBubbleDataProvider } from '../interfaces/dataprovider/BarLineScatterCandleBubbleDataProvider';
 import { IBarLineScatterCandleBubbleDataSet } from '../interfaces/datasets/IBarLineScatterCandleBubbleDataSet';
 import { IDataSet } from '../interfaces/datasets/IDataSet';
+import { Utils } from '../utils/Utils';
 import { ViewPortHandler } from '../utils/ViewPortHandler';
 import { DataRenderer } from './DataRenderer';
 
+export interface ErrorBarCustomRenderer {
+    drawErrorBar?: (c: Canvas, e: Entry, x1: number, y1: number, x2: number, y2: number, capWidth: number, paint: Paint) => void;
+}
+
 /**
  * Class representing the bounds of the current viewport in terms of indices in the values array of a DataSet.
  */
@@ -55,10 +61,83 @@ export abstract class BarLineScatterCandleBubbleRenderer extends DataRenderer {
      */
     protected mXBounds = new XBounds();
 
+    /**
+     * palet used for drawing the error bars
+     */
+    protected mErrorBarPaint: Paint;
+
     constructor(animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
         super(animator, viewPortHandler);
     }
 
+    public get errorBarPaint() {
+        if (!this.mErrorBarPaint) {
+            this.mErrorBarPaint = Utils.getTemplatePaint('black-stroke');
+        }
+        return this.mErrorBarPaint;
+    }
+
+    /**
+     * Returns true if the x-axis runs vertically, the transformer then taking
+     * (y, x) pairs of values.
+     */
+    protected isHorizontal() {
+        return false;
+    }
+
+    /**
+     * Draws the error bars of the visible entries of the given DataSet, from
+     * the bottom to the top of their error range with a cap at each end.
+     *
+     * @param c
+     * @param chart
+     * @param dataSet
+     * @param customRender
+     */
+    protected drawErrorBars(c: Canvas, chart: BarLineScatterCandleBubbleDataProvider, dataSet: BarLineScatterCandleBubbleDataSet<any>, customRender?: ErrorBarCustomRenderer) {
+        if (!dataSet.isErrorBarsEnabled() || dataSet.getEntryCount() < 1) {
+            return;
+        }
+        const trans = chart.getTransformer(dataSet.getAxisDependency());
+        const phaseY = this.mAnimator.getPhaseY();
+        const paint = this.errorBarPaint;
+        paint.setStrokeWidth(dataSet.getErrorBarLineWidth());
+        const color = dataSet.getErrorBarColor();
+        const halfCap = dataSet.getErrorBarCapWidth() / 2;
+        const points = Utils.getTempArray(4);
+        const horizontal = this.isHorizontal();
+        // slots of the x and y values in the points given to the transformer
+        const xSlot = horizontal ? 1 : 0;
+        const ySlot = horizontal ? 0 : 1;
+
+        this.mXBounds.set(chart, dataSet, this.mAnimator);
+        for (let j = this.mXBounds.min; j <= this.mXBounds.range + this.mXBounds.min; j++) {
+            const e = dataSet.getEntryForIndex(j);
+            if (e == null) continue;
+
+            const x = dataSet.getEntryXValue(e, j);
+            points[xSlot] = x;
+            points[ySlot] = dataSet.getErrorBarLow(e) * phaseY;
+            points[2 + xSlot] = x;
+            points[2 + ySlot] = dataSet.getErrorBarHigh(e) * phaseY;
+            trans.pointValuesToPixel(points);
+
+            paint.setColor(color || dataSet.getColor(j));
+            if (customRender && customRender.drawErrorBar) {
+                customRender.drawErrorBar(c, e, points[0], points[1], points[2], points[3], halfCap * 2, paint);
+                continue;
+            }
+            c.drawLine(points[0], points[1], points[2], points[3], paint);
+            if (halfCap > 0) {
+                // the caps are perpendicular to the error bar, which is horizontal in horizontal bar charts
+                const dx = horizontal ? 0 : halfCap;
+                const dy = horizontal ? halfCap : 0;
+                c.drawLine(points[0] - dx, points[1] - dy, points[0] + dx, points[1] + dy, paint);
+                c.drawLine(points[2] - dx, points[3] - dy, points[2] + dx, points[3] + dy, paint);
+            }
+        }
+    }
+
     /**
      * Returns true if the DataSet values should be drawn, false if not.
      *
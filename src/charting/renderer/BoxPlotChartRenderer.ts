@@ -0,0 +1,218 @@
+import { Canvas, Style } from '@nativescript-community/ui-canvas';
+import { ChartAnimator } from '../animation/ChartAnimator';
+import { BoxPlotChart } from '../charts/BoxPlotChart';
+import { BoxPlotDataSet } from '../data/BoxPlotDataSet';
+import { BoxPlotEntry } from '../data/BoxPlotEntry';
+import { Highlight } from '../highlight/Highlight';
+import { Utils } from '../utils/Utils';
+import { ViewPortHandler } from '../utils/ViewPortHandler';
+import { LineScatterCandleRadarRenderer } from './LineScatterCandleRadarRenderer';
+
+export class BoxPlotChartRenderer extends LineScatterCandleRadarRenderer {
+    mChart: BoxPlotChart;
+
+    constructor(chart: BoxPlotChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+        super(animator, viewPortHandler);
+        this.mChart = chart;
+    }
+
+    public drawData(c: Canvas) {
+        const boxPlotData = this.mChart.getBoxPlotData();
+
+        for (const set of boxPlotData.getDataSets()) {
+            if (set.isVisible()) {
+                this.drawDataSet(c, set);
+            }
+        }
+    }
+
+    protected drawDataSet(c: Canvas, dataSet: BoxPlotDataSet) {
+        const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
+
+        const phaseY = this.mAnimator.getPhaseY();
+        const barSpace = dataSet.getBarSpace();
+        const capWidthHalf = (0.5 - barSpace) * dataSet.getWhiskerCapWidth();
+        const outlierRadius = dataSet.getOutlierRadius();
+        const drawOutliers = dataSet.isDrawOutliersEnabled();
+        const medianColor = dataSet.getMedianColor();
+
+        this.mXBounds.set(this.mChart, dataSet, this.mAnimator);
+
+        const renderPaint = this.renderPaint;
+        renderPaint.setStrokeWidth(dataSet.getBoxLineWidth());
+        const customRender = this.mChart.getCustomRenderer();
+        for (let j = this.mXBounds.min; j <= this.mXBounds.range + this.mXBounds.min; j++) {
+            // get the entry
+            const e = dataSet.getEntryForIndex(j);
+
+            if (e == null || e.median === undefined) continue;
+
+            const xPos = dataSet.getEntryXValue(e, j);
+            const color = dataSet.getColor(j);
+
+            // calculate the whiskers: vertical lines and caps
+            const whiskers = [
+                xPos,
+                e.q3 * phaseY,
+                xPos,
+                e.max * phaseY,
+                xPos - capWidthHalf,
+                e.max * phaseY,
+                xPos + capWidthHalf,
+                e.max * phaseY,
+                xPos,
+                e.q1 * phaseY,
+                xPos,
+                e.min * phaseY,
+                xPos - capWidthHalf,
+                e.min * phaseY,
+                xPos + capWidthHalf,
+                e.min * phaseY
+            ];
+            trans.pointValuesToPixel(whiskers);
+
+            renderPaint.setColor(color);
+            renderPaint.setStyle(Style.STROKE);
+            if (customRender && customRender.drawWhiskers) {
+                customRender.drawWhiskers(c, e, whiskers, renderPaint);
+            } else {
+                c.drawLines(whiskers, renderPaint);
+            }
+
+            // calculate the box
+            const boxBuffers = Utils.getTempArray(6);
+            boxBuffers[0] = xPos - 0.5 + barSpace;
+            boxBuffers[1] = e.q3 * phaseY;
+            boxBuffers[2] = xPos + 0.5 - barSpace;
+            boxBuffers[3] = e.q1 * phaseY;
+            boxBuffers[4] = xPos;
+            boxBuffers[5] = e.median * phaseY;
+            trans.pointValuesToPixel(boxBuffers);
+
+            renderPaint.setStyle(dataSet.getBoxPaintStyle());
+            if (customRender && customRender.drawBox) {
+                customRender.drawBox(c, e, boxBuffers[0], boxBuffers[1], boxBuffers[2], boxBuffers[3], renderPaint);
+            } else {
+                c.drawRect(boxBuffers[0], boxBuffers[1], boxBuffers[2], boxBuffers[3], renderPaint);
+            }
+
+            renderPaint.setStyle(Style.STROKE);
+            renderPaint.setColor(medianColor || color);
+            if (customRender && customRender.drawMedian) {
+                customRender.drawMedian(c, e, boxBuffers[0], boxBuffers[5], boxBuffers[2], renderPaint);
+            } else {
+                c.drawLine(boxBuffers[0], boxBuffers[5], boxBuffers[2], boxBuffers[5], renderPaint);
+            }
+
+            if (drawOutliers && e.outliers && e.outliers.length > 0) {
+                renderPaint.setColor(color);
+                const outliers = Utils.getTempArray(e.outliers.length * 2);
+                for (let k = 0; k < e.outliers.length; k++) {
+                    outliers[k * 2] = xPos;
+                    outliers[k * 2 + 1] = e.outliers[k] * phaseY;
+                }
+                trans.pointValuesToPixel(outliers);
+                for (let k = 0; k < e.outliers.length; k++) {
+                    if (customRender && customRender.drawOutlier) {
+                        customRender.drawOutlier(c, e, outliers[k * 2], outliers[k * 2 + 1], renderPaint);
+                    } else {
+                        c.drawCircle(outliers[k * 2], outliers[k * 2 + 1], outlierRadius, renderPaint);
+                    }
+                }
+            }
+        }
+    }
+
+    public drawValues(c: Canvas) {
+        const data = this.mChart.getBoxPlotData();
+        const dataSets = data.getDataSets();
+        if (!this.isDrawingValuesAllowed(this.mChart) || dataSets.some((d) => d.isDrawValuesEnabled() || d.isDrawIconsEnabled()) === false) {
+            return;
+        }
+        // if values are drawn
+
+        const customRender = this.mChart.getCustomRenderer();
+        const phaseY = this.mAnimator.getPhaseY();
+        for (let i = 0; i < dataSets.length; i++) {
+            const dataSet = dataSets[i];
+
+            if (!this.shouldDrawValues(dataSet) || dataSet.getEntryCount() < 1) continue;
+
+            // apply the text-styling defined by the DataSet
+            this.applyValueTextStyle(dataSet);
+
+            const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
+
+            this.mXBounds.set(this.mChart, dataSet, this.mAnimator);
+
+            const yOffset = 5;
+
+            const formatter = dataSet.getValueFormatter();
+
+            const iconsOffset = dataSet.getIconsOffset();
+            const valuesOffset = dataSet.getValuesOffset();
+
+            const paint = this.valuePaint;
+            const point = Utils.getTempArray(2);
+            for (let j = this.mXBounds.min; j <= this.mXBounds.range + this.mXBounds.min; j++) {
+                const entry = dataSet.getEntryForIndex(j);
+                if (entry == null || entry.median === undefined) continue;
+
+                // the median label is drawn above the upper whisker
+                point[0] = dataSet.getEntryXValue(entry, j);
+                point[1] = entry.max * phaseY;
+                trans.pointValuesToPixel(point);
+                const x = point[0];
+                const y = point[1];
+
+                if (!this.mViewPortHandler.isInBoundsRight(x)) break;
+
+                if (!this.mViewPortHandler.isInBoundsLeft(x) || !this.mViewPortHandler.isInBoundsY(y)) continue;
+
+                if (dataSet.isDrawValuesEnabled()) {
+                    this.drawValue(c, formatter.getBoxPlotLabel(entry.median, entry), x + valuesOffset.x, y - yOffset + valuesOffset.y, dataSet.getValueTextColor(j), paint, customRender);
+                }
+
+                if (entry.icon && dataSet.isDrawIconsEnabled()) {
+                    Utils.drawIcon(c, this.mChart, entry.icon, x + iconsOffset.x, y + iconsOffset.y);
+                }
+            }
+        }
+    }
+
+    public drawExtras(c: Canvas) {}
+
+    public drawHighlighted(c: Canvas, indices: Highlight[]) {
+        const boxPlotData = this.mChart.getBoxPlotData();
+
+        let entry: BoxPlotEntry, index: number;
+        const customRender = this.mChart.getCustomRenderer();
+        const paint = this.highlightPaint;
+        for (const high of indices) {
+            const set = boxPlotData.getDataSetByIndex(high.dataSetIndex);
+
+            if (set == null || !set.isHighlightEnabled()) continue;
+
+            if (high.entry) {
+                entry = high.entry as BoxPlotEntry;
+                index = high.entryIndex;
+            } else {
+                const r = set.getEntryAndIndexForXValue(high.x, high.y);
+                entry = r.entry;
+                index = r.index;
+            }
+            if (!this.isInBoundsX(entry, set)) continue;
+
+            const pix = this.mChart.getTransformer(set.getAxisDependency()).getPixelForValues(set.getEntryXValue(entry, index), entry.median * this.mAnimator.getPhaseY());
+
+            high.drawX = pix.x;
+            high.drawY = pix.y;
+            // draw the lines
+            if (customRender && customRender.drawHighlight) {
+                customRender.drawHighlight(c, high, set, paint);
+            } else {
+                this.drawHighlightLines(c, pix.x, pix.y, set);
+            }
+        }
+    }
+}
@@ -2,7 +2,7 @@ import { Canvas, Style } from '@nativescript-community/ui-canvas';
 import { TypedArray } from '@nativescript-community/arraybuffers';
 import { ChartAnimator } from '../animation/ChartAnimator';
 import { CandleStickChart } from '../charts';
-import { CandleDataSet } from '../data/CandleDataSet';
+import { CandleDataSet, CandleDrawMode } from '../data/CandleDataSet';
 import { CandleEntry } from '../data/CandleEntry';
 import { Highlight } from '../highlight/Highlight';
 import { ColorTemplate } from '../utils/ColorTemplate';
@@ -29,12 +29,33 @@ export class CandleStickChartRenderer extends LineScatterCandleRadarRenderer {
         }
     }
 
+    /**
+     * Returns the color of the entry at the given index: the increasing,
+     * decreasing or neutral color of the DataSet following the direction of the
+     * candle or, when a previous close is given, of the close compared to it.
+     *
+     * @param dataSet
+     * @param index
+     * @param open
+     * @param close
+     * @param previousClose
+     */
+    protected getCandleColor(dataSet: CandleDataSet, index: number, open: number, close: number, previousClose?: number) {
+        const reference = previousClose === undefined ? open : previousClose;
+        let color;
+        if (reference > close) color = dataSet.getDecreasingColor();
+        else if (reference < close) color = dataSet.getIncreasingColor();
+        else color = dataSet.getNeutralColor();
+        return !color || color === ColorTemplate.COLOR_NONE ? dataSet.getColor(index) : color;
+    }
+
     protected drawDataSet(c: Canvas, dataSet: CandleDataSet) {
         const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
 
         const phaseY = this.mAnimator.getPhaseY();
         const barSpace = dataSet.getBarSpace();
-        const showCandleBar = dataSet.getShowCandleBar();
+        const drawMode = dataSet.getDrawMode();
+        const hollow = drawMode === CandleDrawMode.HOLLOW;
 
         this.mXBounds.set(this.mChart, dataSet, this.mAnimator);
 
@@ -56,7 +77,11 @@ export class CandleStickChartRenderer extends LineScatterCandleRadarRenderer {
             const high = e[dataSet.highProperty] || 0;
             const low = e[dataSet.lowProperty] || 0;
 
-            if (showCandleBar) {
+            if (drawMode !== CandleDrawMode.OHLC) {
+                // hollow candles are colored by the close compared to the previous close
+                const previous = hollow && j > 0 ? dataSet.getEntryForIndex(j - 1) : null;
+                const candleColor = this.getCandleColor(dataSet, j, open, close, previous ? previous[dataSet.closeProperty] || 0 : undefined);
+
                 // calculate the shadow
                 if (!this.mShadowBuffer) {
                     this.mShadowBuffer = Utils.createArrayBuffer(8);
@@ -89,10 +114,7 @@ export class CandleStickChartRenderer extends LineScatterCandleRadarRenderer {
                 // draw the shadows
 
                 if (dataSet.getShadowColorSameAsCandle()) {
-                    if (open > close) {
-                        renderPaint.setColor(!dataSet.getDecreasingColor() || dataSet.getDecreasingColor() === ColorTemplate.COLOR_NONE ? dataSet.getColor(j) : dataSet.getDecreasingColor());
-                    } else if (open < close) renderPaint.setColor(dataSet.getIncreasingColor() === ColorTemplate.COLOR_NONE ? dataSet.getColor(j) : dataSet.getIncreasingColor());
-                    else renderPaint.setColor(dataSet.getNeutralColor() === ColorTemplate.COLOR_NONE ? dataSet.getColor(j) : dataSet.getNeutralColor());
+                    renderPaint.setColor(candleColor);
                 } else {
                     renderPaint.setColor(dataSet.getShadowColor() === ColorTemplate.COLOR_NONE ? dataSet.getColor(j) : dataSet.getShadowColor());
                 }
@@ -123,16 +145,10 @@ export class CandleStickChartRenderer extends LineScatterCandleRadarRenderer {
                 trans.pointValuesToPixel(bodyBuffers);
 
                 // draw body differently for increasing and decreasing entry
+                renderPaint.setColor(candleColor);
                 if (open > close) {
                     // decreasing
-
-                    if (dataSet.getDecreasingColor() === ColorTemplate.COLOR_NONE) {
-                        renderPaint.setColor(dataSet.getColor(j));
-                    } else {
-                        renderPaint.setColor(dataSet.getDecreasingColor());
-                    }
-
-                    renderPaint.setStyle(dataSet.getDecreasingPaintStyle());
+                    renderPaint.setStyle(hollow ? Style.FILL : dataSet.getDecreasingPaintStyle());
 
                     if (customRender && customRender.drawOpened) {
                         customRender.drawOpened(c, e, bodyBuffers[0], bodyBuffers[3], bodyBuffers[2], bodyBuffers[1], renderPaint);
@@ -140,13 +156,7 @@ export class CandleStickChartRenderer extends LineScatterCandleRadarRenderer {
                         c.drawRect(bodyBuffers[0], bodyBuffers[3], bodyBuffers[2], bodyBuffers[1], renderPaint);
                     }
                 } else if (open < close) {
-                    if (dataSet.getIncreasingColor() === ColorTemplate.COLOR_NONE) {
-                        renderPaint.setColor(dataSet.getColor(j));
-                    } else {
-                        renderPaint.setColor(dataSet.getIncreasingColor());
-                    }
-
-                    renderPaint.setStyle(dataSet.getIncreasingPaintStyle());
+                    renderPaint.setStyle(hollow ? Style.STROKE : dataSet.getIncreasingPaintStyle());
 
                     if (customRender && customRender.drawClosed) {
                         customRender.drawClosed(c, e, bodyBuffers[0], bodyBuffers[1], bodyBuffers[2], bodyBuffers[3], renderPaint);
@@ -155,12 +165,6 @@ export class CandleStickChartRenderer extends LineScatterCandleRadarRenderer {
                     }
                 } else {
                     // equal values
-
-                    if (dataSet.getNeutralColor() === ColorTemplate.COLOR_NONE) {
-                        renderPaint.setColor(dataSet.getColor(j));
-                    } else {
-                        renderPaint.setColor(dataSet.getNeutralColor());
-                    }
                     if (customRender && customRender.drawEqual) {
                         customRender.drawEqual(c, e, bodyBuffers[0], bodyBuffers[1], bodyBuffers[2], bodyBuffers[3], renderPaint);
                     } else {
@@ -168,6 +172,7 @@ export class CandleStickChartRenderer extends LineScatterCandleRadarRenderer {
                     }
                 }
             } else {
+                // OHLC bar: high/low range with the open tick on the left and the close tick on the right
                 const rangeBuffers = Utils.getTempArray(4, false, false);
                 const openBuffers = Utils.getTempArray(4, false, false, '1');
                 const closeBuffers = Utils.getTempArray(4, false, false, '2');
@@ -191,13 +196,8 @@ export class CandleStickChartRenderer extends LineScatterCandleRadarRenderer {
                 trans.pointValuesToPixel(closeBuffers);
 
                 // draw the ranges
-                let barColor;
-
-                if (open > close) barColor = dataSet.getDecreasingColor() === ColorTemplate.COLOR_NONE ? dataSet.getColor(j) : dataSet.getDecreasingColor();
-                else if (open < close) barColor = dataSet.getIncreasingColor() === ColorTemplate.COLOR_NONE ? dataSet.getColor(j) : dataSet.getIncreasingColor();
-                else barColor = dataSet.getNeutralColor() === ColorTemplate.COLOR_NONE ? dataSet.getColor(j) : dataSet.getNeutralColor();
-
-                renderPaint.setColor(barColor);
+                renderPaint.setColor(this.getCandleColor(dataSet, j, open, close));
+                renderPaint.setStyle(Style.STROKE);
 
                 if (customRender && customRender.drawLines) {
                     customRender.drawLines(c, e, rangeBuffers, openBuffers, closeBuffers, renderPaint);
@@ -0,0 +1,259 @@
+import { Align, Canvas, Paint, Path } from '@nativescript-community/ui-canvas';
+import { ChartAnimator } from '../animation/ChartAnimator';
+import { GaugeChart } from '../charts/GaugeChart';
+import { Highlight } from '../highlight/Highlight';
+import { IPieDataSet } from '../interfaces/datasets/IPieDataSet';
+import { Utils } from '../utils/Utils';
+import { ViewPortHandler } from '../utils/ViewPortHandler';
+import { PieChartRenderer } from './PieChartRenderer';
+
+export class GaugeChartRenderer extends PieChartRenderer {
+    protected mChart: GaugeChart;
+
+    /**
+     * paint for the needle and its pivot
+     */
+    protected mNeedlePaint: Paint;
+
+    /**
+     * paints for the tick marks and their labels
+     */
+    protected mTickPaint: Paint;
+    protected mTickLabelPaint: Paint;
+
+    constructor(chart: GaugeChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+        super(chart, animator, viewPortHandler);
+    }
+
+    public get needlePaint() {
+        if (!this.mNeedlePaint) {
+            this.mNeedlePaint = Utils.getTemplatePaint('black-fill');
+            this.mNeedlePaint.setColor('#424242');
+        }
+        return this.mNeedlePaint;
+    }
+    public get tickPaint() {
+        if (!this.mTickPaint) {
+            this.mTickPaint = Utils.getTemplatePaint('black-stroke');
+            this.mTickPaint.setColor('#757575');
+        }
+        return this.mTickPaint;
+    }
+    public get tickLabelPaint() {
+        if (!this.mTickLabelPaint) {
+            this.mTickLabelPaint = Utils.getTemplatePaint('value');
+            this.mTickLabelPaint.setColor('#757575');
+            this.mTickLabelPaint.setTextAlign(Align.CENTER);
+            this.mTickLabelPaint.setTextSize(10);
+        }
+        return this.mTickLabelPaint;
+    }
+
+    public drawData(c: Canvas) {
+        const dataSet = this.mChart.getData().getDataSet();
+        if (dataSet != null && dataSet.isVisible()) {
+            this.drawDataSet(c, dataSet);
+        }
+    }
+
+    /**
+     * Returns the inner radius of the band ring.
+     */
+    protected getBandInnerRadius() {
+        return this.mChart.getRadius() * (1 - this.mChart.getBandWidthPercent() / 100);
+    }
+
+    /**
+     * Builds the ring segment path covering the values between from and to.
+     *
+     * @param path
+     * @param from
+     * @param to
+     * @param outerRadius
+     * @param innerRadius
+     */
+    protected prepareBandPath(path: Path, from: number, to: number, outerRadius: number, innerRadius: number) {
+        const center = this.mChart.getCenterCircleBox();
+        const startAngle = this.mChart.getAngleForValue(from);
+        const sweepAngle = this.mChart.getAngleForValue(to) - startAngle;
+        const endAngle = startAngle + sweepAngle;
+
+        const rect = Utils.getTempRectF();
+        path.reset();
+        rect.set(center.x - outerRadius, center.y - outerRadius, center.x + outerRadius, center.y + outerRadius);
+        path.arcTo(rect, startAngle, sweepAngle);
+        path.lineTo(center.x + innerRadius * Math.cos(endAngle * Utils.DEG2RAD), center.y + innerRadius * Math.sin(endAngle * Utils.DEG2RAD));
+        rect.set(center.x - innerRadius, center.y - innerRadius, center.x + innerRadius, center.y + innerRadius);
+        path.arcTo(rect, endAngle, -sweepAngle);
+        path.close();
+    }
+
+    protected drawDataSet(c: Canvas, dataSet: IPieDataSet) {
+        const yKey = dataSet.yProperty;
+        const min = this.mChart.getMinValue();
+        const max = this.mChart.getMaxValue();
+        // the bands are revealed along the arc
+        const limit = min + (max - min) * this.mAnimator.getPhaseX();
+
+        const radius = this.mChart.getRadius();
+        const innerRadius = this.getBandInnerRadius();
+        const customRender = this.mChart.getCustomRenderer();
+        const renderPaint = this.renderPaint;
+        const pathBuffer = Utils.getTempPath();
+
+        const trackColor = this.mChart.getTrackColor();
+        if (trackColor) {
+            this.prepareBandPath(pathBuffer, min, limit, radius, innerRadius);
+            renderPaint.setColor(trackColor);
+            c.drawPath(pathBuffer, renderPaint);
+        }
+
+        let from = min;
+        for (let j = 0; j < dataSet.getEntryCount(); j++) {
+            const e = dataSet.getEntryForIndex(j);
+            const to = Math.min(e[yKey], limit);
+
+            if (to > from) {
+                this.prepareBandPath(pathBuffer, from, to, radius, innerRadius);
+                renderPaint.setColor(dataSet.getColor(j));
+                if (customRender && customRender.drawSlice) {
+                    customRender.drawSlice(c, e, pathBuffer, renderPaint);
+                } else {
+                    c.drawPath(pathBuffer, renderPaint);
+                }
+            }
+            from = Math.max(from, e[yKey]);
+        }
+
+        return false;
+    }
+
+    /**
+     * Draws the labels of the major ticks.
+     *
+     * @param c
+     */
+    public drawValues(c: Canvas) {
+        const dataSet = this.mChart.getData().getDataSet();
+        if (!this.mChart.isDrawTickLabelsEnabled() || dataSet == null) {
+            return;
+        }
+        const min = this.mChart.getMinValue();
+        const max = this.mChart.getMaxValue();
+        const count = this.mChart.getMajorTickCount();
+        const center = this.mChart.getCenterCircleBox();
+        const formatter = dataSet.getValueFormatter();
+        const paint = this.tickLabelPaint;
+        const lineHeight = Utils.calcTextHeight(paint, '0');
+        const labelRadius = this.getBandInnerRadius() - this.mChart.getTickLength() - lineHeight;
+        // on a full circle the last label would overlap the first one
+        const last = this.mChart.getMaxAngle() >= 360 ? count - 1 : count;
+
+        const pos = { x: 0, y: 0 };
+        for (let i = 0; i <= last; i++) {
+            const value = min + ((max - min) * i) / count;
+            this.mChart.getPosition(center, labelRadius, this.mChart.getAngleForValue(value), pos);
+            c.drawText(formatter.getFormattedValue(value), pos.x, pos.y + lineHeight / 2, paint);
+        }
+    }
+
+    public drawExtras(c: Canvas) {
+        if (this.mChart.isDrawTicksEnabled()) {
+            this.drawTicks(c);
+        }
+        if (this.mChart.isDrawNeedleEnabled()) {
+            this.drawNeedle(c);
+        }
+        this.drawCenterText(c);
+    }
+
+    /**
+     * Draws the major and minor tick marks inside the band ring.
+     *
+     * @param c
+     */
+    protected drawTicks(c: Canvas) {
+        const min = this.mChart.getMinValue();
+        const max = this.mChart.getMaxValue();
+        const majorCount = this.mChart.getMajorTickCount();
+        const subdivisions = this.mChart.getMinorTickCount() + 1;
+        const center = this.mChart.getCenterCircleBox();
+        const outerRadius = this.getBandInnerRadius();
+        const tickLength = this.mChart.getTickLength();
+
+        const points: number[] = [];
+        const tickCount = majorCount * subdivisions;
+        for (let i = 0; i <= tickCount; i++) {
+            const angle = this.mChart.getAngleForValue(min + ((max - min) * i) / tickCount) * Utils.DEG2RAD;
+            const innerRadius = outerRadius - (i % subdivisions === 0 ? tickLength : tickLength / 2);
+            const cos = Math.cos(angle);
+            const sin = Math.sin(angle);
+            points.push(center.x + outerRadius * cos, center.y + outerRadius * sin, center.x + innerRadius * cos, center.y + innerRadius * sin);
+        }
+
+        c.drawLines(points, this.tickPaint);
+    }
+
+    /**
+     * Draws the needle pointing to the current (animated) value.
+     *
+     * @param c
+     */
+    protected drawNeedle(c: Canvas) {
+        const value = this.mChart.getAnimatedValue();
+        const angle = this.mChart.getAngleForValue(value);
+        const center = this.mChart.getCenterCircleBox();
+        const length = (this.mChart.getRadius() * this.mChart.getNeedleLengthPercent()) / 100;
+        const halfWidth = this.mChart.getNeedleWidth() / 2;
+
+        const tip = this.mChart.getPosition(center, length, angle);
+        const left = this.mChart.getPosition(center, halfWidth, angle - 90);
+        const right = this.mChart.getPosition(center, halfWidth, angle + 90);
+
+        const path = Utils.getTempPath();
+        path.reset();
+        path.moveTo(left.x, left.y);
+        path.lineTo(tip.x, tip.y);
+        path.lineTo(right.x, right.y);
+        path.close();
+
+        const paint = this.needlePaint;
+        const customRender = this.mChart.getCustomRenderer();
+        if (customRender && customRender.drawNeedle) {
+            customRender.drawNeedle(c, value, path, paint);
+        } else {
+            c.drawPath(path, paint);
+            c.drawCircle(center.x, center.y, halfWidth * 1.5, paint);
+        }
+    }
+
+    public drawHighlighted(c: Canvas, indices: Highlight[]) {
+        const dataSet = this.mChart.getData().getDataSet();
+        if (dataSet == null || !dataSet.isHighlightEnabled()) {
+            return;
+        }
+        const yKey = dataSet.yProperty;
+        const radius = this.mChart.getRadius() + dataSet.getSelectionShift();
+        const innerRadius = this.getBandInnerRadius();
+        const customRender = this.mChart.getCustomRenderer();
+        const renderPaint = this.renderPaint;
+        const pathBuffer = Utils.getTempPath();
+
+        for (const high of indices) {
+            const index = high.x;
+            const e = dataSet.getEntryForIndex(index);
+            if (e == null) {
+                continue;
+            }
+            const from = index === 0 ? this.mChart.getMinValue() : dataSet.getEntryForIndex(index - 1)[yKey];
+
+            this.prepareBandPath(pathBuffer, from, e[yKey], radius, innerRadius);
+            renderPaint.setColor(dataSet.getColor(index));
+            if (customRender && customRender.drawHighlight) {
+                customRender.drawHighlight(c, high, pathBuffer, renderPaint);
+            } else {
+                c.drawPath(pathBuffer, renderPaint);
+            }
+        }
+    }
+}
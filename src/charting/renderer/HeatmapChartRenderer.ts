@@ -0,0 +1,185 @@
+import { Canvas, Paint, RectF } from '@nativescript-community/ui-canvas';
+import { ChartAnimator } from '../animation/ChartAnimator';
+import { HeatmapChart } from '../charts/HeatmapChart';
+import { HeatmapEntry } from '../data/HeatmapEntry';
+import { Highlight } from '../highlight/Highlight';
+import { IHeatmapDataSet } from '../interfaces/datasets/IHeatmapDataSet';
+import { Transformer } from '../utils/Transformer';
+import { Utils } from '../utils/Utils';
+import { ViewPortHandler } from '../utils/ViewPortHandler';
+import { BarLineScatterCandleBubbleRenderer } from './BarLineScatterCandleBubbleRenderer';
+
+export class HeatmapChartRenderer extends BarLineScatterCandleBubbleRenderer {
+    mChart: HeatmapChart;
+
+    constructor(chart: HeatmapChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+        super(animator, viewPortHandler);
+        this.mChart = chart;
+    }
+
+    public get highlightPaint() {
+        if (!this.mHighlightPaint) {
+            this.mHighlightPaint = Utils.getTemplatePaint('black-stroke');
+        }
+        return this.mHighlightPaint;
+    }
+
+    public drawData(c: Canvas) {
+        const heatmapData = this.mChart.getHeatmapData();
+
+        for (const set of heatmapData.getDataSets()) {
+            if (set.isVisible()) {
+                this.drawDataSet(c, set);
+            }
+        }
+    }
+
+    /**
+     * Computes the pixel rect of the given cell, inset by the cell spacing.
+     *
+     * @param dataSet
+     * @param e
+     * @param index
+     * @param trans
+     * @param rect
+     */
+    protected prepareCellRect(dataSet: IHeatmapDataSet, e: HeatmapEntry, index: number, trans: Transformer, rect: RectF) {
+        const x = dataSet.getEntryXValue(e, index);
+        const y = e[dataSet.yProperty];
+        const halfWidth = dataSet.getCellWidth() / 2;
+        const halfHeight = dataSet.getCellHeight() / 2;
+        rect.set(x - halfWidth, y + halfHeight, x + halfWidth, y - halfHeight);
+        trans.rectValueToPixel(rect);
+
+        const inset = dataSet.getCellSpacing() / 2;
+        if (inset > 0) {
+            rect.set(rect.left + inset, rect.top + inset, rect.right - inset, rect.bottom - inset);
+        }
+    }
+
+    protected drawDataSet(c: Canvas, dataSet: IHeatmapDataSet) {
+        const count = Math.min(Math.ceil(dataSet.getEntryCount() * this.mAnimator.getPhaseX()), dataSet.getEntryCount());
+        if (count < 1) return;
+
+        const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
+        const phaseY = this.mAnimator.getPhaseY();
+        const valueKey = dataSet.valueProperty;
+        const customRender = this.mChart.getCustomRenderer();
+        const renderPaint = this.renderPaint;
+        const cellRect = Utils.getTempRectF();
+
+        for (let j = 0; j < count; j++) {
+            const e = dataSet.getEntryForIndex(j);
+            if (e == null) continue;
+
+            this.prepareCellRect(dataSet, e, j, trans, cellRect);
+
+            if (!this.mViewPortHandler.isInBoundsLeft(cellRect.right) || !this.mViewPortHandler.isInBoundsRight(cellRect.left)) continue;
+
+            if (!this.mViewPortHandler.isInBoundsTop(cellRect.bottom) || !this.mViewPortHandler.isInBoundsBottom(cellRect.top)) continue;
+
+            renderPaint.setColor(dataSet.getColorForValue(e[valueKey]));
+            if (phaseY < 1) {
+                // fade the cells in
+                renderPaint.setAlpha(Math.round(255 * Math.max(0, phaseY)));
+            }
+            if (customRender && customRender.drawCell) {
+                customRender.drawCell(c, e, dataSet, cellRect.left, cellRect.top, cellRect.right, cellRect.bottom, renderPaint);
+            } else {
+                c.drawRect(cellRect, renderPaint);
+            }
+        }
+    }
+
+    public drawValues(c: Canvas) {
+        const data = this.mChart.getHeatmapData();
+        const dataSets = data.getDataSets();
+        if (!this.isDrawingValuesAllowed(this.mChart) || dataSets.some((d) => d.isDrawValuesEnabled() || d.isDrawIconsEnabled()) === false) {
+            return;
+        }
+
+        // if values are drawn
+        const paint = this.valuePaint;
+        const customRender = this.mChart.getCustomRenderer();
+        const cellRect = Utils.getTempRectF();
+        for (let i = 0; i < dataSets.length; i++) {
+            const dataSet = dataSets[i];
+            if (!this.shouldDrawValues(dataSet) || dataSet.getEntryCount() < 1) continue;
+
+            // apply the text-styling defined by the DataSet
+            this.applyValueTextStyle(dataSet);
+            const lineHeight = Utils.calcTextHeight(paint, '1');
+
+            const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
+            const formatter = dataSet.getValueFormatter();
+            const valueKey = dataSet.valueProperty;
+            const iconsOffset = dataSet.getIconsOffset();
+            const valuesOffset = dataSet.getValuesOffset();
+            const isDrawValuesEnabled = dataSet.isDrawValuesEnabled();
+            const isDrawIconsEnabled = dataSet.isDrawIconsEnabled();
+            const count = Math.min(Math.ceil(dataSet.getEntryCount() * this.mAnimator.getPhaseX()), dataSet.getEntryCount());
+
+            for (let j = 0; j < count; j++) {
+                const entry = dataSet.getEntryForIndex(j);
+                if (entry == null) continue;
+
+                this.prepareCellRect(dataSet, entry, j, trans, cellRect);
+                const x = cellRect.centerX();
+                const y = cellRect.centerY();
+
+                if (!this.mViewPortHandler.isInBoundsLeft(x) || !this.mViewPortHandler.isInBoundsRight(x) || !this.mViewPortHandler.isInBoundsY(y)) continue;
+
+                if (isDrawValuesEnabled) {
+                    this.drawValue(c, formatter.getHeatmapLabel(entry[valueKey], entry), x + valuesOffset.x, y + valuesOffset.y + 0.5 * lineHeight, dataSet.getValueTextColor(j), paint, customRender);
+                }
+
+                if (entry.icon && isDrawIconsEnabled) {
+                    Utils.drawIcon(c, this.mChart, entry.icon, x + iconsOffset.x, y + iconsOffset.y);
+                }
+            }
+        }
+    }
+
+    public drawExtras(c: Canvas) {}
+
+    public drawHighlighted(c: Canvas, indices: Highlight[]) {
+        const heatmapData = this.mChart.getHeatmapData();
+        const customRender = this.mChart.getCustomRenderer();
+        const cellRect = Utils.getTempRectF();
+
+        let entry: HeatmapEntry, index: number;
+        for (const high of indices) {
+            const set = heatmapData.getDataSetByIndex(high.dataSetIndex);
+
+            if (set == null || !set.isHighlightEnabled()) {
+                continue;
+            }
+
+            if (high.entry) {
+                entry = high.entry;
+                index = high.entryIndex;
+            } else {
+                const r = set.getEntryAndIndexForXValue(high.x, high.y);
+                entry = r.entry;
+                index = r.index;
+            }
+
+            if (!this.isInBoundsX(entry, set)) continue;
+
+            this.prepareCellRect(set, entry, index, this.mChart.getTransformer(set.getAxisDependency()), cellRect);
+
+            high.drawX = cellRect.centerX();
+            high.drawY = cellRect.centerY();
+
+            const paint = this.highlightPaint;
+            paint.setColor(set.getHighLightColor());
+            paint.setStrokeWidth(set.getHighlightLineWidth());
+
+            if (customRender && customRender.drawHighlight) {
+                customRender.drawHighlight(c, high, cellRect.left, cellRect.top, cellRect.right, cellRect.bottom, paint);
+            } else {
+                c.drawRect(cellRect, paint);
+            }
+        }
+    }
+}
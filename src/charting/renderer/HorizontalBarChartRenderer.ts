@@ -1,5 +1,6 @@
 import { Align, Canvas, Paint, RectF } from '@nativescript-community/ui-canvas';
 import { HorizontalBarBuffer } from '../buffer/HorizontalBarBuffer';
+import { BarDrawMode } from '../data/BarDataSet';
 import { Highlight } from '../highlight/Highlight';
 import { ChartInterface } from '../interfaces/dataprovider/ChartInterface';
 import { IBarDataSet } from '../interfaces/datasets/IBarDataSet';
@@ -26,6 +27,10 @@ export class HorizontalBarChartRenderer extends BarChartRenderer {
         }
     }
 
+    protected isHorizontal() {
+        return true;
+    }
+
     protected drawDataSet(c: Canvas, dataSet: IBarDataSet, index: number): boolean {
         const xKey = dataSet.xProperty;
         const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
@@ -46,9 +51,7 @@ export class HorizontalBarChartRenderer extends BarChartRenderer {
             const paint = this.shadowPaint;
             paint.setColor(dataSet.getBarShadowColor());
 
-            const barData = this.mChart.getBarData();
-
-            const barWidth = barData.getBarWidth();
+            const barWidth = this.getBarWidth(dataSet);
             const barWidthHalf = barWidth / 2;
             let x;
 
@@ -82,7 +85,7 @@ export class HorizontalBarChartRenderer extends BarChartRenderer {
         buffer.setPhases(phaseX, phaseY);
         buffer.setDataSet(index);
         buffer.setInverted(this.mChart.isInverted(dataSet.getAxisDependency()));
-        buffer.setBarWidth(this.mChart.getBarData().getBarWidth());
+        buffer.setBarWidth(this.getBarWidth(dataSet));
         buffer.setYAxisMin(this.mChart.getAxis(dataSet.getAxisDependency()).getAxisMinimum());
         buffer.setYAxisMax(this.mChart.getAxis(dataSet.getAxisDependency()).getAxisMaximum());
 
@@ -90,6 +93,11 @@ export class HorizontalBarChartRenderer extends BarChartRenderer {
 
         trans.pointValuesToPixel(buffer.buffer);
 
+        if (dataSet.getDrawMode() !== BarDrawMode.BAR && !dataSet.isStacked()) {
+            this.drawStems(c, dataSet, buffer, trans);
+            return true;
+        }
+
         const isSingleColor = dataSet.getColors().length === 1;
         const isInverted = this.mChart.isInverted(dataSet.getAxisDependency());
         const renderPaint = this.renderPaint;
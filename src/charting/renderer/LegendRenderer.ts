@@ -1,5 +1,5 @@
 import { Renderer } from './Renderer';
-import { Align, Canvas, FontMetrics, Paint, Path, Style } from '@nativescript-community/ui-canvas';
+import { Align, Canvas, FontMetrics, LinearGradient, Paint, Path, Style, TileMode } from '@nativescript-community/ui-canvas';
 import { Legend, LegendDirection, LegendForm, LegendHorizontalAlignment, LegendOrientation, LegendVerticalAlignment } from '../components/Legend';
 import { BarDataSet } from '../data/BarDataSet';
 import { ViewPortHandler } from '../utils/ViewPortHandler';
@@ -11,6 +11,9 @@ import { PieDataSet } from '../data/PieDataSet';
 import { CandleDataSet } from '../data/CandleDataSet';
 import { profile } from '@nativescript/core/profiling';
 import { IDataSet } from '../interfaces/datasets/IDataSet';
+import { WaterfallDataSet } from '../data/WaterfallDataSet';
+import { HeatmapDataSet } from '../data/HeatmapDataSet';
+import { LineScatterCandleRadarDataSet } from '../data/LineScatterCandleRadarDataSet';
 
 export class LegendRenderer extends Renderer {
     /**
@@ -84,6 +87,20 @@ export class LegendRenderer extends Renderer {
                         // add the legend description label
                         this.computedEntries.push(new LegendEntry(dataSet.getLabel(), LegendForm.NONE, NaN, NaN, null, ColorTemplate.COLOR_NONE));
                     }
+                } else if (dataSet instanceof WaterfallDataSet) {
+                    // waterfall bars are colored by increase, decrease and total
+                    for (let j = 0; j < clrs.length; j++) {
+                        // add the label to the last entry
+                        const label = j === clrs.length - 1 ? dataSet.getLabel() : null;
+                        this.computedEntries.push(new LegendEntry(label, dataSet.getForm(), dataSet.getFormSize(), dataSet.getFormLineWidth(), dataSet.getFormLineDashEffect(), clrs[j]));
+                    }
+                } else if (dataSet instanceof HeatmapDataSet) {
+                    // the color scale is shown as a gradient strip
+                    const { colors, positions } = dataSet.getColorScale().getGradientStops(dataSet.getValueMin(), dataSet.getValueMax());
+                    const entry = new LegendEntry(dataSet.getLabel(), LegendForm.GRADIENT, this.mLegend.getFormSize() * 5, NaN, null, colors[0]);
+                    entry.formColors = colors;
+                    entry.formColorPositions = positions;
+                    this.computedEntries.push(entry);
                 } else if (dataSet.constructor.name === 'PieDataSet') {
                     const pds = dataSet as PieDataSet;
 
@@ -127,6 +144,16 @@ export class LegendRenderer extends Renderer {
                         this.computedEntries.push(new LegendEntry(label, dataSet.getForm(), dataSet.getFormSize(), dataSet.getFormLineWidth(), dataSet.getFormLineDashEffect(), clrs[j]));
                     }
                 }
+
+                // the trendline gets its own line entry
+                if (dataSet instanceof LineScatterCandleRadarDataSet) {
+                    const trendline = dataSet.getTrendline();
+                    if (trendline && trendline.isDrawInLegendEnabled() && trendline.isFitted()) {
+                        this.computedEntries.push(
+                            new LegendEntry(trendline.getLegendLabel(), LegendForm.LINE, NaN, trendline.getLineWidth(), trendline.getDashPathEffect(), trendline.getColor() || dataSet.getColor())
+                        );
+                    }
+                }
             }
 
             if (this.mLegend.getExtraEntries() != null) {
@@ -379,6 +406,16 @@ export class LegendRenderer extends Renderer {
                 c.drawRect(x, y - half, x + formSize, y + half, paint);
                 break;
 
+            case LegendForm.GRADIENT:
+                {
+                    const height = legend.getFormSize();
+                    paint.setStyle(Style.FILL);
+                    paint.setShader(new LinearGradient(x, 0, x + formSize, 0, entry.formColors, entry.formColorPositions, TileMode.CLAMP));
+                    c.drawRect(x, y - height / 2, x + formSize, y + height / 2, paint);
+                    paint.setShader(null);
+                }
+                break;
+
             case LegendForm.LINE:
                 {
                     const formLineWidth = isNaN(entry.formLineWidth) ? legend.getFormLineWidth() : entry.formLineWidth;
@@ -2,7 +2,7 @@ import { TypedArray } from '@nativescript-community/arraybuffers';
 import { Canvas, Direction, FillType, LinearGradient, Matrix, Paint, Path, Style, TileMode, createImage, releaseImage } from '@nativescript-community/ui-canvas';
 import { Color, ImageSource, Screen, profile } from '@nativescript/core';
 import { ChartAnimator } from '../animation/ChartAnimator';
-import { LineChart } from '../charts';
+import { LineChart, SparklineChart } from '../charts';
 import { Rounding } from '../data/DataSet';
 import { LineDataSet, Mode } from '../data/LineDataSet';
 import { Highlight } from '../highlight/Highlight';
@@ -61,8 +61,7 @@ export function splineCurve(firstPoint: XYPoint, middlePoint: XYPoint, afterPoin
         }
     };
 }
-function getXYValue(dataSet, index) {
-    const yKey = dataSet.yProperty;
+function getXYValue(dataSet, index, yKey = dataSet.yProperty) {
     const entry = dataSet.getEntryForIndex(index);
     if (entry[yKey] === undefined || entry[yKey] === null) {
         return null;
@@ -151,7 +150,7 @@ export class DataSetImageCache {
 }
 
 export class LineChartRenderer extends LineRadarRenderer {
-    public mChart: LineChart;
+    public mChart: LineChart | SparklineChart;
 
     /**
      * palet for the inner circle of the value indicators
@@ -179,13 +178,20 @@ export class LineChartRenderer extends LineRadarRenderer {
         }
         return LineChartRenderer.mFillPath;
     }
+    protected static mFillRangePath: Path;
+    protected get fillRangePath() {
+        if (!LineChartRenderer.mFillRangePath) {
+            LineChartRenderer.mFillRangePath = new Path();
+        }
+        return LineChartRenderer.mFillRangePath;
+    }
 
     /**
      * cache for the circle bitmaps of all datasets
      */
     private mImageCaches = new Map<ILineDataSet, DataSetImageCache>();
 
-    constructor(chart: LineChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+    constructor(chart: LineChart | SparklineChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
         super(animator, viewPortHandler);
         this.mChart = chart;
         // if (__ANDROID__) {
@@ -226,6 +232,12 @@ export class LineChartRenderer extends LineRadarRenderer {
             const renderPaint = this.renderPaint;
             c.drawBitmap(drawBitmap, 0, 0, renderPaint);
         }
+
+        const customRender = this.mChart.getCustomRenderer();
+        for (const set of lineData.getVisibleDataSets()) {
+            this.drawErrorBars(c, this.mChart, set, customRender);
+            this.drawTrendline(c, this.mChart, set, customRender);
+        }
     }
 
     @profile
@@ -245,7 +257,7 @@ export class LineChartRenderer extends LineRadarRenderer {
     }
 
     @profile
-    generateHorizontalBezierPath(dataSet: ILineDataSet, outputPath: Path) {
+    generateHorizontalBezierPath(dataSet: ILineDataSet, outputPath: Path, yKey = dataSet.yProperty) {
         if (this.mXBounds.range >= 1) {
             const pointsPerEntryPair = 6;
             const entryCount = dataSet.getEntryCount();
@@ -254,7 +266,6 @@ export class LineChartRenderer extends LineRadarRenderer {
             }
 
             const phaseY = this.mAnimator.getPhaseY();
-            const yKey = dataSet.yProperty;
 
             const firstIndex = Math.max(0, this.mXBounds.min);
             // let firstIndex = this.mXBounds.min + 1;
@@ -287,6 +298,8 @@ export class LineChartRenderer extends LineRadarRenderer {
                 float32arr[index++] = curXVal;
                 float32arr[index++] = cur[yKey] * phaseY;
             }
+            // the path is built in the scale of the axes
+            this.mChart.getTransformer(dataSet.getAxisDependency()).pointValuesToScale(float32arr, 0, index);
             const points = Utils.pointsFromBuffer(float32arr);
             if (__ANDROID__ && Utils.supportsDirectArrayBuffers()) {
                 outputPath['setCubicLinesBuffer'](points, 0, index);
@@ -301,7 +314,7 @@ export class LineChartRenderer extends LineRadarRenderer {
     }
 
     @profile
-    generateCubicPath(dataSet: ILineDataSet, outputPath: Path) {
+    generateCubicPath(dataSet: ILineDataSet, outputPath: Path, yKey = dataSet.yProperty) {
         if (this.mXBounds.range >= 1) {
             const pointsPerEntryPair = 6;
             const entryCount = dataSet.getEntryCount();
@@ -309,8 +322,6 @@ export class LineChartRenderer extends LineRadarRenderer {
                 this.mLineBuffer = Utils.createArrayBuffer(Math.max(entryCount * pointsPerEntryPair, pointsPerEntryPair) * 2);
             }
             const phaseY = this.mAnimator.getPhaseY();
-            const xKey = dataSet.xProperty;
-            const yKey = dataSet.yProperty;
             const intensity = dataSet.getCubicIntensity();
 
             // Take an extra polet from the left, and an extra from the right.
@@ -331,7 +342,7 @@ export class LineChartRenderer extends LineRadarRenderer {
             let prev: XYPoint;
             let prevControlPoints;
             for (let j = firstIndex; j <= lastIndex; j++) {
-                point = getXYValue(dataSet, j);
+                point = getXYValue(dataSet, j, yKey);
                 if (!point) {
                     if (j === 0) {
                         return [];
@@ -342,7 +353,7 @@ export class LineChartRenderer extends LineRadarRenderer {
                     prev = point;
                 }
                 nextIndex = j + 1 < dataSet.getEntryCount() ? j + 1 : j;
-                next = getXYValue(dataSet, nextIndex);
+                next = getXYValue(dataSet, nextIndex, yKey);
                 if (!next) {
                     continue;
                 }
@@ -362,6 +373,8 @@ export class LineChartRenderer extends LineRadarRenderer {
                 prevControlPoints = controlPoints;
                 prev = point;
             }
+            // the path is built in the scale of the axes
+            this.mChart.getTransformer(dataSet.getAxisDependency()).pointValuesToScale(float32arr, 0, index);
             const points = Utils.pointsFromBuffer(float32arr);
             if (__ANDROID__ && Utils.supportsDirectArrayBuffers()) {
                 outputPath['setCubicLinesBuffer'](points, 0, index);
@@ -376,7 +389,7 @@ export class LineChartRenderer extends LineRadarRenderer {
     }
 
     @profile
-    generateLinearPath(dataSet: ILineDataSet, outputPath: Path) {
+    generateLinearPath(dataSet: ILineDataSet, outputPath: Path, yKey = dataSet.yProperty) {
         if (this.mXBounds.range >= 1) {
             const isDrawSteppedEnabled = dataSet.getMode() === Mode.STEPPED;
             const entryCount = dataSet.getEntryCount();
@@ -385,7 +398,6 @@ export class LineChartRenderer extends LineRadarRenderer {
                 this.mLineBuffer = Utils.createArrayBuffer(Math.max(entryCount * pointsPerEntryPair, pointsPerEntryPair) * 2);
             }
             const phaseY = this.mAnimator.getPhaseY();
-            const yKey = dataSet.yProperty;
 
             // const filled = outputPath;
             // outputPath.reset();
@@ -403,7 +415,7 @@ export class LineChartRenderer extends LineRadarRenderer {
             let currentEntry = null;
             let currentEntryXVal;
             let currentEntryYVal;
-            let previousEntryYVal;
+            let previousEntryYVal = entry[yKey];
             // doing the if test outside is much much faster on big data
             if (isDrawSteppedEnabled) {
                 for (let x = firstIndex + 1; x <= lastIndex; x++) {
@@ -434,6 +446,8 @@ export class LineChartRenderer extends LineRadarRenderer {
                     previousEntryYVal = currentEntryYVal;
                 }
             }
+            // the path is built in the scale of the axes
+            this.mChart.getTransformer(dataSet.getAxisDependency()).pointValuesToScale(float32arr, 0, index);
             const points = Utils.pointsFromBuffer(float32arr);
             if (__ANDROID__ && Utils.supportsDirectArrayBuffers()) {
                 outputPath['setLinesBuffer'](points, 0, index);
@@ -447,11 +461,119 @@ export class LineChartRenderer extends LineRadarRenderer {
         }
     }
 
+    /**
+     * Returns the property holding the y value to draw for the entries of the
+     * given DataSet, which is the cumulative value when the LineData is
+     * stacked.
+     *
+     * @param dataSet
+     */
+    protected getYKey(dataSet: ILineDataSet) {
+        return this.mChart.getLineData().isStacked() ? 'stackedY' : dataSet.yProperty;
+    }
+
+    /**
+     * Generates the path of the given DataSet within the current x bounds
+     * according to its drawing mode.
+     *
+     * @param dataSet
+     * @param outputPath
+     * @param yKey property of the entries to use as y value
+     */
+    protected generatePath(dataSet: ILineDataSet, outputPath: Path, yKey = dataSet.yProperty): [any, number] | [] {
+        switch (dataSet.getMode()) {
+            default:
+            case Mode.LINEAR:
+            case Mode.STEPPED:
+                return this.generateLinearPath(dataSet, outputPath, yKey) as [any, number];
+
+            case Mode.CUBIC_BEZIER:
+                return this.generateCubicPath(dataSet, outputPath, yKey) as [any, number];
+
+            case Mode.HORIZONTAL_BEZIER:
+                return this.generateHorizontalBezierPath(dataSet, outputPath, yKey) as [any, number];
+        }
+    }
+
+    /**
+     * Builds the closed area between the upper and the lower bound of the
+     * fill range of the given DataSet: the upper bound from left to right,
+     * then the lower bound from right to left. Returns false if there is
+     * nothing to fill.
+     *
+     * @param dataSet
+     * @param linePath the already generated path of the line of the DataSet
+     * @param outputPath
+     */
+    protected generateFillRangePath(dataSet: LineDataSet, linePath: Path, outputPath: Path) {
+        // stacked DataSets are filled between the previous and their own cumulative line
+        const stacked = this.mChart.getLineData().isStacked();
+        const highKey = stacked ? null : dataSet.getFillHighProperty();
+        outputPath.reset();
+        if (highKey) {
+            this.generatePath(dataSet, outputPath, highKey);
+        } else {
+            outputPath.addPath(linePath);
+        }
+
+        const lowerPath = this.fillRangePath;
+        const target = stacked ? null : (dataSet.getFillTargetDataSet() as LineDataSet);
+        let lowerSet: ILineDataSet = dataSet;
+        let length: number;
+        if (target) {
+            // the target has its own visible entries
+            lowerSet = target;
+            const { min, max, range } = this.mXBounds;
+            this.mXBounds.set(this.mChart, target, this.mAnimator);
+            length = this.generatePath(target, lowerPath)[1];
+            this.mXBounds.min = min;
+            this.mXBounds.max = max;
+            this.mXBounds.range = range;
+        } else {
+            length = this.generatePath(dataSet, lowerPath, stacked ? 'stackedBase' : dataSet.getFillLowProperty() || dataSet.yProperty)[1];
+        }
+        if (!length) {
+            return false;
+        }
+
+        // append the lower bound backwards from the line buffer
+        const buffer = this.mLineBuffer;
+        const mode = lowerSet.getMode();
+        if (mode === Mode.CUBIC_BEZIER || mode === Mode.HORIZONTAL_BEZIER) {
+            // buffer holds a start point followed by (control1, control2, end) triplets
+            outputPath.lineTo(buffer[length - 2], buffer[length - 1]);
+            for (let i = length - 6; i >= 2; i -= 6) {
+                outputPath.cubicTo(buffer[i + 2], buffer[i + 3], buffer[i], buffer[i + 1], buffer[i - 2], buffer[i - 1]);
+            }
+        } else {
+            for (let i = length - 2; i >= 0; i -= 2) {
+                outputPath.lineTo(buffer[i], buffer[i + 1]);
+            }
+        }
+        outputPath.close();
+        return true;
+    }
+
+    protected drawFillRange(c: Canvas, dataSet: LineDataSet, linePath: Path, trans: Transformer) {
+        const fillPath = this.fillPath;
+        if (!this.generateFillRangePath(dataSet, linePath, fillPath)) {
+            return;
+        }
+        trans.pathValueToPixel(fillPath);
+
+        const drawable = dataSet.getFillDrawable();
+        if (drawable != null) {
+            this.drawFilledPathBitmap(c, fillPath, drawable, dataSet.getFillShader());
+        } else {
+            this.drawFilledPath(c, fillPath, dataSet.getFillColor(), dataSet.getFillAlpha(), dataSet.getFillShader());
+        }
+    }
+
     getMultiColorsShader(colors: { color: string | Color; [k: string]: any }[], points, trans: Transformer, dataSet: LineDataSet) {
         const nbColors = colors.length;
         const xKey = dataSet.xProperty;
         if (nbColors > 0) {
-            trans.pointValuesToPixel(points);
+            trans.scaledPointValuesToPixel(points);
             const shaderColors = [];
             const positions = [];
             const firstIndex = Math.max(0, this.mXBounds.min);
@@ -527,22 +649,7 @@ export class LineChartRenderer extends LineRadarRenderer {
         const linePath = Utils.getTempPath();
 
         this.mXBounds.set(this.mChart, dataSet, this.mAnimator);
-        let points;
-        switch (dataSet.getMode()) {
-            default:
-            case Mode.LINEAR:
-            case Mode.STEPPED:
-                points = this.generateLinearPath(dataSet, linePath)[0];
-                break;
-
-            case Mode.CUBIC_BEZIER:
-                points = this.generateCubicPath(dataSet, linePath)[0];
-                break;
-
-            case Mode.HORIZONTAL_BEZIER:
-                points = this.generateHorizontalBezierPath(dataSet, linePath)[0];
-                break;
-        }
+        const points = this.generatePath(dataSet, linePath, this.getYKey(dataSet))[0];
 
         if (!points) {
             return result;
@@ -564,12 +671,16 @@ export class LineChartRenderer extends LineRadarRenderer {
                 oldShader = renderPaint.getShader();
                 renderPaint.setShader(paintColorsShader);
             }
-            const fillPath = this.fillPath;
-            fillPath.reset();
-            fillPath.addPath(linePath);
-            const minEntryValue = dataSet.getEntryXValue(dataSet.getEntryForIndex(this.mXBounds.min), this.mXBounds.min);
-            const maxEntryValue = dataSet.getEntryXValue(dataSet.getEntryForIndex(this.mXBounds.min + this.mXBounds.range), this.mXBounds.min + this.mXBounds.range);
-            this.drawFill(c, dataSet, fillPath, trans, minEntryValue, maxEntryValue);
+            if (dataSet.isFillRangeEnabled() || this.mChart.getLineData().isStacked()) {
+                this.drawFillRange(c, dataSet, linePath, trans);
+            } else {
+                const fillPath = this.fillPath;
+                fillPath.reset();
+                fillPath.addPath(linePath);
+                const minEntryValue = dataSet.getEntryXValue(dataSet.getEntryForIndex(this.mXBounds.min), this.mXBounds.min);
+                const maxEntryValue = dataSet.getEntryXValue(dataSet.getEntryForIndex(this.mXBounds.min + this.mXBounds.range), this.mXBounds.min + this.mXBounds.range);
+                this.drawFill(c, dataSet, fillPath, trans, minEntryValue, maxEntryValue);
+            }
             if (paintColorsShader && useColorsForFill) {
                 renderPaint.setShader(oldShader);
                 oldShader = null;
@@ -610,6 +721,12 @@ export class LineChartRenderer extends LineRadarRenderer {
         if (fillMin === undefined) {
             fillMin = dataSet.getFillFormatter().getFillLinePosition(dataSet, this.mChart);
         }
+        if (trans) {
+            // the line path is built in the scale of the axes
+            min = trans.valueToScaleX(min);
+            max = trans.valueToScaleX(max);
+            fillMin = trans.valueToScaleY(fillMin);
+        }
         spline.lineTo(max, fillMin);
         spline.lineTo(min, fillMin);
         spline.close();
@@ -639,7 +756,7 @@ export class LineChartRenderer extends LineRadarRenderer {
 
         this.mXBounds.set(this.mChart, dataSet, this.mAnimator);
 
-        const { points, count } = trans.generateTransformedValues(dataSet, this.mAnimator.getPhaseX(), this.mAnimator.getPhaseY(), this.mXBounds.min, this.mXBounds.max);
+        const { points, count } = trans.generateTransformedValues(dataSet, this.mAnimator.getPhaseX(), this.mAnimator.getPhaseY(), this.mXBounds.min, this.mXBounds.max, this.getYKey(dataSet));
         const formatter = dataSet.getValueFormatter();
 
         const iconsOffset = dataSet.getIconsOffset();
@@ -697,7 +814,7 @@ export class LineChartRenderer extends LineRadarRenderer {
         paint.setColor(dataSet.getCircleHoleColor());
         const phaseY = this.mAnimator.getPhaseY();
 
-        const yKey = dataSet.yProperty;
+        const yKey = this.getYKey(dataSet);
         const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
 
         this.mXBounds.set(this.mChart, dataSet, this.mAnimator);
@@ -788,7 +905,7 @@ export class LineChartRenderer extends LineRadarRenderer {
 
             if (!this.isInBoundsX(entry, set)) continue;
 
-            const yKey = set.yProperty;
+            const yKey = this.getYKey(set);
 
             const pix = this.mChart.getTransformer(set.getAxisDependency()).getPixelForValues(set.getEntryXValue(entry, index), entry[yKey] * this.mAnimator.getPhaseY());
 
@@ -1,19 +1,111 @@
-import { Canvas } from '@nativescript-community/ui-canvas';
+import { Canvas, Paint, Path } from '@nativescript-community/ui-canvas';
 import { ChartAnimator } from '../animation/ChartAnimator';
+import { TrendlineType } from '../data/Trendline';
+import { BarLineScatterCandleBubbleDataProvider } from '../interfaces/dataprovider/BarLineScatterCandleBubbleDataProvider';
 import { ILineScatterCandleRadarDataSet } from '../interfaces/datasets/ILineScatterCandleRadarDataSet';
 import { Utils } from '../utils/Utils';
 import { ViewPortHandler } from '../utils/ViewPortHandler';
 import { BarLineScatterCandleBubbleRenderer } from './BarLineScatterCandleBubbleRenderer';
 
+export interface TrendlineCustomRenderer {
+    drawTrendline?: (c: Canvas, set: ILineScatterCandleRadarDataSet<any>, path: Path, paint: Paint) => void;
+}
+
 /**
  * Created by Philipp Jahoda on 11/07/15.
  */
 export abstract class LineScatterCandleRadarRenderer extends BarLineScatterCandleBubbleRenderer {
+    /**
+     * number of segments the curved trendlines are drawn with
+     */
+    protected mTrendlineSegmentCount = 100;
+
+    /**
+     * palet used for drawing the trendlines
+     */
+    protected mTrendlinePaint: Paint;
 
     constructor(animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
         super(animator, viewPortHandler);
     }
 
+    public get trendlinePaint() {
+        if (!this.mTrendlinePaint) {
+            this.mTrendlinePaint = Utils.getTemplatePaint('black-stroke');
+        }
+        return this.mTrendlinePaint;
+    }
+
+    /**
+     * Draws the trendline of the given DataSet over the visible x range of
+     * the entries, the moving average going through its points and the other
+     * fits being sampled.
+     *
+     * @param c
+     * @param chart
+     * @param dataSet
+     * @param customRender
+     */
+    protected drawTrendline(c: Canvas, chart: BarLineScatterCandleBubbleDataProvider, dataSet: ILineScatterCandleRadarDataSet<any>, customRender?: TrendlineCustomRenderer) {
+        const trendline = dataSet.getTrendline();
+        if (!trendline || !trendline.isFitted()) {
+            return;
+        }
+        const xMin = Math.max(dataSet.getXMin(), chart.getLowestVisibleX());
+        const xMax = Math.min(dataSet.getXMax(), chart.getHighestVisibleX());
+        if (xMin > xMax) {
+            return;
+        }
+        const phaseY = this.mAnimator.getPhaseY();
+
+        let values;
+        if (trendline.getType() === TrendlineType.MOVING_AVERAGE) {
+            const points = trendline.getPoints();
+            values = Utils.getTempArray(points.length * 2);
+            points.forEach((point, i) => {
+                values[i * 2] = point.x;
+                values[i * 2 + 1] = point.y * phaseY;
+            });
+        } else {
+            const segmentCount = trendline.getType() === TrendlineType.LINEAR ? 1 : this.mTrendlineSegmentCount;
+            values = Utils.getTempArray((segmentCount + 1) * 2);
+            for (let i = 0; i <= segmentCount; i++) {
+                const x = xMin + ((xMax - xMin) * i) / segmentCount;
+                values[i * 2] = x;
+                values[i * 2 + 1] = trendline.getValue(x) * phaseY;
+            }
+        }
+        chart.getTransformer(dataSet.getAxisDependency()).pointValuesToPixel(values);
+
+        // undefined values (NaN) break the line
+        const path = Utils.getTempPath();
+        path.reset();
+        let moveTo = true;
+        for (let i = 0; i < values.length; i += 2) {
+            if (isNaN(values[i + 1])) {
+                moveTo = true;
+            } else if (moveTo) {
+                path.moveTo(values[i], values[i + 1]);
+                moveTo = false;
+            } else {
+                path.lineTo(values[i], values[i + 1]);
+            }
+        }
+
+        const paint = this.trendlinePaint;
+        paint.setColor(trendline.getColor() || dataSet.getColor());
+        paint.setStrokeWidth(trendline.getLineWidth());
+        paint.setPathEffect(trendline.getDashPathEffect());
+        c.save();
+        c.clipRect(this.mViewPortHandler.getContentRect());
+        if (customRender && customRender.drawTrendline) {
+            customRender.drawTrendline(c, dataSet, path, paint);
+        } else {
+            c.drawPath(path, paint);
+        }
+        c.restore();
+    }
+
     /**
      * Draws vertical & horizontal highlight-lines if enabled.
      *
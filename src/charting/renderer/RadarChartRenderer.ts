@@ -2,7 +2,7 @@ import { Canvas, Direction, Paint, Path, Style } from '@nativescript-community/u
 import { TypedArray } from '@nativescript-community/arraybuffers';
 import { Color } from '@nativescript/core';
 import { ChartAnimator } from '../animation/ChartAnimator';
-import { RadarChart } from '../charts/RadarChart';
+import { RadarChart, RadarChartMode, RadarWebShape } from '../charts/RadarChart';
 import { Highlight } from '../highlight/Highlight';
 import { IRadarDataSet } from '../interfaces/datasets/IRadarDataSet';
 import { ColorTemplate } from '../utils/ColorTemplate';
@@ -45,9 +45,83 @@ export class RadarChartRenderer extends LineRadarRenderer {
         const radarData = this.mChart.getData();
         const mostEntries = radarData.getMaxEntryCountSet().getEntryCount();
 
+        const polarArea = this.mChart.getChartMode() === RadarChartMode.POLAR_AREA;
+
         for (const set of radarData.getDataSets()) {
             if (set.isVisible()) {
-                this.drawDataSet(c, set, mostEntries);
+                if (polarArea) {
+                    this.drawPolarAreaDataSet(c, set);
+                } else {
+                    this.drawDataSet(c, set, mostEntries);
+                }
+            }
+        }
+    }
+
+    /**
+     * Sets the given path to the wedge of the given radius centered on the
+     * web line of the entry at the given index.
+     *
+     * @param path
+     * @param index
+     * @param radius
+     */
+    protected getWedgePath(path: Path, index: number, radius: number) {
+        const sliceangle = this.mChart.getSliceAngle();
+        const center = this.mChart.getCenterOffsets();
+        const startAngle = this.mChart.getRotationAngle() + sliceangle * (index - 0.5) * this.mAnimator.getPhaseX();
+        const rect = Utils.getTempRectF();
+        rect.set(center.x - radius, center.y - radius, center.x + radius, center.y + radius);
+
+        path.reset();
+        path.moveTo(center.x, center.y);
+        path.arcTo(rect, startAngle, sliceangle * this.mAnimator.getPhaseX());
+        path.close();
+        return path;
+    }
+
+    /**
+     * Draws the RadarDataSet as a polar area chart: a wedge per entry, whose
+     * radius is the value of the entry, filled with the color of the entry.
+     *
+     * @param c
+     * @param dataSet
+     */
+    protected drawPolarAreaDataSet(c: Canvas, dataSet: IRadarDataSet) {
+        const phaseY = this.mAnimator.getPhaseY();
+        const factor = this.mChart.getFactor();
+        const minVal = this.mChart.getYChartMin();
+        const yProperty = dataSet.yProperty;
+        const lineWidth = dataSet.getLineWidth();
+        const renderPaint = this.renderPaint;
+        const customRender = this.mChart.getCustomRenderer();
+        const path = Utils.getTempPath();
+
+        for (let j = 0; j < dataSet.getEntryCount(); j++) {
+            const e = dataSet.getEntryForIndex(j);
+            if (e == null) continue;
+
+            const radius = (e[yProperty] - minVal) * factor * phaseY;
+            if (!(radius > 0)) continue;
+
+            this.getWedgePath(path, j, radius);
+            const color = dataSet.getColor(j);
+
+            renderPaint.setStyle(Style.FILL);
+            renderPaint.setColor(color);
+            // set alpha after color
+            renderPaint.setAlpha(dataSet.getFillAlpha());
+            if (customRender && customRender.drawWedge) {
+                customRender.drawWedge(c, e, path, renderPaint);
+            } else {
+                c.drawPath(path, renderPaint);
+            }
+
+            if (lineWidth > 0) {
+                renderPaint.setStyle(Style.STROKE);
+                renderPaint.setColor(color);
+                renderPaint.setStrokeWidth(lineWidth);
+                c.drawPath(path, renderPaint);
             }
         }
     }
@@ -231,6 +305,10 @@ export class RadarChartRenderer extends LineRadarRenderer {
         const rotationangle = this.mChart.getRotationAngle();
 
         const center = this.mChart.getCenterOffsets();
+        const circular = this.mChart.getWebShape() === RadarWebShape.CIRCLE;
+
+        // in polar area mode the web lines are between the wedges
+        const webAngle = rotationangle + (this.mChart.getChartMode() === RadarChartMode.POLAR_AREA ? sliceangle / 2 : 0);
 
         // draw the web lines that come from the center
         const lineWidth = this.mChart.getWebLineWidth();
@@ -245,7 +323,7 @@ export class RadarChartRenderer extends LineRadarRenderer {
 
             const p: MPPointF = { x: 0, y: 0 };
             for (let i = 0; i < maxEntryCount; i += xIncrements) {
-                Utils.getPosition(center, this.mChart.getYRange() * factor, sliceangle * i + rotationangle, p);
+                Utils.getPosition(center, this.mChart.getYRange() * factor, sliceangle * i + webAngle, p);
 
                 c.drawLine(center.x, center.y, p.x, p.y, paint);
             }
@@ -266,11 +344,15 @@ export class RadarChartRenderer extends LineRadarRenderer {
             const p1out: MPPointF = { x: 0, y: 0 };
             const p2out: MPPointF = { x: 0, y: 0 };
             for (let j = 0; j < labelCount; j++) {
+                if (circular) {
+                    c.drawCircle(center.x, center.y, (this.mChart.getYAxis().mEntries[j] - this.mChart.getYChartMin()) * factor, paint);
+                    continue;
+                }
                 for (let i = 0; i < this.mChart.getData().getEntryCount(); i++) {
                     const r = (this.mChart.getYAxis().mEntries[j] - this.mChart.getYChartMin()) * factor;
 
-                    Utils.getPosition(center, r, sliceangle * i + rotationangle, p1out);
-                    Utils.getPosition(center, r, sliceangle * (i + 1) + rotationangle, p2out);
+                    Utils.getPosition(center, r, sliceangle * i + webAngle, p1out);
+                    Utils.getPosition(center, r, sliceangle * (i + 1) + webAngle, p2out);
 
                     c.drawLine(p1out.x, p1out.y, p2out.x, p2out.y, this.mWebPaint);
                 }
@@ -292,6 +374,7 @@ export class RadarChartRenderer extends LineRadarRenderer {
         const pOut: MPPointF = { x: 0, y: 0 };
 
         const radarData = this.mChart.getData();
+        const polarArea = this.mChart.getChartMode() === RadarChartMode.POLAR_AREA;
 
         for (const high of indices) {
             const set = radarData.getDataSetByIndex(high.dataSetIndex);
@@ -310,6 +393,15 @@ export class RadarChartRenderer extends LineRadarRenderer {
             high.drawX = pOut.x;
             high.drawY = pOut.y;
 
+            if (polarArea) {
+                // outline the wedge
+                const paint = this.highlightPaint;
+                paint.setColor(set.getHighLightColor());
+                paint.setStrokeWidth(set.getHighlightLineWidth());
+                c.drawPath(this.getWedgePath(Utils.getTempPath(), high.x, Math.max(0, y * factor * this.mAnimator.getPhaseY())), paint);
+                continue;
+            }
+
             // draw the lines
             this.drawHighlightLines(c, pOut.x, pOut.y, set);
 
@@ -344,7 +436,7 @@ export class RadarChartRenderer extends LineRadarRenderer {
     public drawHighlightCircle(c: Canvas, point: MPPointF, innerRadius, outerRadius, fillColor, strokeColor, strokeWidth) {
         c.save();
 
-        const paint  = Utils.getTempPaint();
+        const paint = Utils.getTempPaint();
         if (fillColor && fillColor !== ColorTemplate.COLOR_NONE) {
             const p = Utils.getTempPath();
             p.reset();
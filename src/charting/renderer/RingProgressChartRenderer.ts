@@ -0,0 +1,155 @@
+import { Canvas, Cap, Paint, RectF, Style } from '@nativescript-community/ui-canvas';
+import { ChartAnimator } from '../animation/ChartAnimator';
+import { CustomRenderer, RingProgressChart } from '../charts/RingProgressChart';
+import { Entry } from '../data/Entry';
+import { RingProgressDataSet } from '../data/RingProgressDataSet';
+import { Highlight } from '../highlight/Highlight';
+import { Utils } from '../utils/Utils';
+import { ViewPortHandler } from '../utils/ViewPortHandler';
+import { DataRenderer } from './DataRenderer';
+
+export class RingProgressChartRenderer extends DataRenderer {
+    protected mChart: RingProgressChart;
+
+    constructor(chart: RingProgressChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+        super(animator, viewPortHandler);
+        this.mChart = chart;
+    }
+
+    /**
+     * Sets the given rect to the bounds of the circle going through the middle
+     * of the ring of the DataSet at the given index and returns its radius.
+     *
+     * @param index
+     * @param box
+     */
+    protected getRingBox(index: number, box: RectF) {
+        const center = this.mChart.getCenterOffsets();
+        const radii = this.mChart.getRingRadii(index);
+        const radius = (radii.outer + radii.inner) / 2;
+        box.set(center.x - radius, center.y - radius, center.x + radius, center.y + radius);
+        return radius;
+    }
+
+    protected drawArc(c: Canvas, e: Entry, box: RectF, startAngle: number, sweepAngle: number, paint: Paint, customRender: CustomRenderer) {
+        if (customRender && customRender.drawRing) {
+            customRender.drawRing(c, e, box, startAngle, sweepAngle, paint);
+        } else {
+            c.drawArc(box, startAngle, sweepAngle, false, paint);
+        }
+    }
+
+    public drawData(c: Canvas) {
+        const data = this.mChart.getData();
+        const thickness = this.mChart.getRingThickness();
+        if (thickness <= 0) {
+            return;
+        }
+        const customRender = this.mChart.getCustomRenderer();
+        const paint = this.renderPaint;
+        paint.setStyle(Style.STROKE);
+        paint.setStrokeWidth(thickness);
+        const cap = paint.getStrokeCap();
+        if (this.mChart.isDrawRoundCapsEnabled()) {
+            paint.setStrokeCap(Cap.ROUND);
+        }
+
+        for (let i = 0; i < data.getDataSetCount(); i++) {
+            const set = data.getDataSetByIndex(i);
+            if (set.isVisible()) {
+                this.drawRing(c, set, i, thickness, paint, customRender);
+            }
+        }
+        paint.setStrokeCap(cap);
+    }
+
+    /**
+     * Draws the track, the progress and the icon of the ring of the given
+     * DataSet. Progress over a full lap is drawn as a full circle, the tip of
+     * the last lap being drawn again on top of it with a shadow cast forward.
+     *
+     * @param c
+     * @param dataSet
+     * @param index
+     * @param thickness
+     * @param paint
+     * @param customRender
+     */
+    protected drawRing(c: Canvas, dataSet: RingProgressDataSet, index: number, thickness: number, paint: Paint, customRender: CustomRenderer) {
+        const box = Utils.getTempRectF();
+        const radius = this.getRingBox(index, box);
+        const e = dataSet.getEntryForIndex(0);
+        const startAngle = this.mChart.getRotationAngle();
+
+        if (this.mChart.isDrawTrackEnabled()) {
+            const trackColor = dataSet.getTrackColor();
+            paint.setColor(trackColor || dataSet.getColor());
+            if (!trackColor) {
+                paint.setAlpha(dataSet.getTrackAlpha());
+            }
+            this.drawArc(c, e, box, startAngle, 360, paint, customRender);
+        }
+
+        const sweepAngle = dataSet.getProgress() * 360 * this.mAnimator.getPhaseY();
+        paint.setColor(dataSet.getColor());
+        if (sweepAngle <= 360) {
+            if (sweepAngle > 0) {
+                this.drawArc(c, e, box, startAngle, sweepAngle, paint, customRender);
+            }
+        } else {
+            this.drawArc(c, e, box, startAngle, 360, paint, customRender);
+
+            // the tip covers about one ring thickness of the last lap
+            const endAngle = startAngle + sweepAngle;
+            const tipSweep = Math.min(sweepAngle - 360, ((thickness / radius) * 180) / Math.PI);
+            if (this.mChart.isDrawOverflowShadowEnabled()) {
+                const shadowRadius = this.mChart.getOverflowShadowRadius();
+                const angle = (endAngle * Math.PI) / 180;
+                // the shadow is cast along the direction of the progress
+                paint.setShadowLayer(shadowRadius, -Math.sin(angle) * shadowRadius, Math.cos(angle) * shadowRadius, this.mChart.getOverflowShadowColor());
+            }
+            this.drawArc(c, e, box, endAngle - tipSweep, tipSweep, paint, customRender);
+            paint.clearShadowLayer();
+        }
+
+        const icon = dataSet.getIcon();
+        if (icon) {
+            const center = this.mChart.getCenterOffsets();
+            const offset = dataSet.getIconsOffset();
+            const pos = this.mChart.getPosition(center, radius, startAngle);
+            Utils.drawIcon(c, this.mChart, icon, pos.x + offset.x, pos.y + offset.y);
+        }
+    }
+
+    public drawValues(c: Canvas) {}
+
+    public drawExtras(c: Canvas) {}
+
+    public drawHighlighted(c: Canvas, indices: Highlight[]) {
+        const data = this.mChart.getData();
+        const customRender = this.mChart.getCustomRenderer();
+        const paint = this.highlightPaint;
+        const box = Utils.getTempRectF();
+        const center = this.mChart.getCenterOffsets();
+
+        for (const high of indices) {
+            const set = data.getDataSetByIndex(high.dataSetIndex);
+            if (set == null || !set.isHighlightEnabled()) {
+                continue;
+            }
+            const radius = this.getRingBox(high.dataSetIndex, box);
+            const radii = this.mChart.getRingRadii(high.dataSetIndex);
+
+            // markers point to the tip of the progress
+            const pos = this.mChart.getPosition(center, radius, this.mChart.getRotationAngle() + set.getProgress() * 360 * this.mAnimator.getPhaseY());
+            high.drawX = pos.x;
+            high.drawY = pos.y;
+            if (customRender && customRender.drawHighlight) {
+                customRender.drawHighlight(c, high, box, paint);
+            } else {
+                c.drawCircle(center.x, center.y, radii.outer, paint);
+                c.drawCircle(center.x, center.y, radii.inner, paint);
+            }
+        }
+    }
+}
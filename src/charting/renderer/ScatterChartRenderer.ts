@@ -24,6 +24,8 @@ export class ScatterChartRenderer extends LineScatterCandleRadarRenderer {
         for (const set of scatterData.getDataSets()) {
             if (set.isVisible()) {
                 this.drawDataSet(c, set);
+                this.drawErrorBars(c, this.mChart, set, this.mChart.getCustomRenderer());
+                this.drawTrendline(c, this.mChart, set, this.mChart.getCustomRenderer());
             }
         }
     }
@@ -49,7 +51,7 @@ export class ScatterChartRenderer extends LineScatterCandleRadarRenderer {
         const yKey = dataSet.yProperty;
         const customRender = this.mChart.getCustomRenderer();
         const renderPaint = this.renderPaint;
-        const pixelBuffer = Utils.getTempArray(2)
+        const pixelBuffer = Utils.getTempArray(2);
         const previousShader = renderPaint.getShader();
         const shader = dataSet.getFillShader();
         if (shader) {
@@ -0,0 +1,216 @@
+import { Canvas, Paint, Style } from '@nativescript-community/ui-canvas';
+import { ChartAnimator } from '../animation/ChartAnimator';
+import { SparklineChart, SparklineMarker, SparklineVariant } from '../charts/SparklineChart';
+import { LineDataSet } from '../data/LineDataSet';
+import { Utils } from '../utils/Utils';
+import { ViewPortHandler } from '../utils/ViewPortHandler';
+import { LineChartRenderer } from './LineChartRenderer';
+
+export class SparklineChartRenderer extends LineChartRenderer {
+    public mChart: SparklineChart;
+
+    /**
+     * palet for the reference band
+     */
+    protected mReferenceBandPaint: Paint;
+
+    constructor(chart: SparklineChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+        super(chart, animator, viewPortHandler);
+    }
+
+    public get referenceBandPaint() {
+        if (!this.mReferenceBandPaint) {
+            this.mReferenceBandPaint = Utils.getTemplatePaint('black-fill');
+            this.mReferenceBandPaint.setColor('#E0E0E0');
+        }
+        return this.mReferenceBandPaint;
+    }
+
+    /**
+     * Draws the DataSets directly on the canvas: sparklines never draw the
+     * circles which need the offscreen bitmap of the LineChartRenderer.
+     *
+     * @param c
+     */
+    public drawData(c: Canvas) {
+        this.drawReferenceBand(c);
+
+        const bars = this.mChart.isBarVariant();
+        for (const set of this.mChart.getLineData().getVisibleDataSets()) {
+            if (bars) {
+                this.drawBars(c, set);
+            } else {
+                this.drawDataSet(c, set);
+            }
+        }
+    }
+
+    protected draw(c: Canvas, dataSet: LineDataSet) {
+        if (this.mChart.getVariant() === SparklineVariant.AREA && !dataSet.isDrawFilledEnabled()) {
+            this.drawArea(c, dataSet);
+        }
+        return super.draw(c, dataSet);
+    }
+
+    /**
+     * Fills the area below the line of the given DataSet, for DataSets
+     * which are not filled themselves.
+     *
+     * @param c
+     * @param dataSet
+     */
+    protected drawArea(c: Canvas, dataSet: LineDataSet) {
+        const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
+        const fillPath = this.fillPath;
+
+        this.mXBounds.set(this.mChart, dataSet, this.mAnimator);
+        const points = this.generatePath(dataSet, fillPath, this.getYKey(dataSet))[0];
+        if (!points) {
+            return;
+        }
+        const minEntryValue = dataSet.getEntryXValue(dataSet.getEntryForIndex(this.mXBounds.min), this.mXBounds.min);
+        const maxEntryValue = dataSet.getEntryXValue(dataSet.getEntryForIndex(this.mXBounds.min + this.mXBounds.range), this.mXBounds.min + this.mXBounds.range);
+        this.drawFill(c, dataSet, fillPath, trans, minEntryValue, maxEntryValue);
+    }
+
+    /**
+     * Draws the entries of the given DataSet as bars, from 0 to their value
+     * or to 1 / -1 for the WIN_LOSS variant.
+     *
+     * @param c
+     * @param dataSet
+     */
+    protected drawBars(c: Canvas, dataSet: LineDataSet) {
+        if (dataSet.getEntryCount() < 1) return;
+        const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
+        const phaseY = this.mAnimator.getPhaseY();
+        const winLoss = this.mChart.getVariant() === SparklineVariant.WIN_LOSS;
+        const barWidthHalf = this.mChart.getBarWidth(dataSet) / 2;
+        const negativeColor = this.mChart.getNegativeColor();
+        const yKey = dataSet.yProperty;
+
+        this.mXBounds.set(this.mChart, dataSet, this.mAnimator);
+
+        const paint = this.renderPaint;
+        paint.setStyle(Style.FILL);
+        const rect = Utils.getTempRectF();
+        const customRender = this.mChart.getCustomRenderer();
+        for (let j = this.mXBounds.min; j <= this.mXBounds.range + this.mXBounds.min; j++) {
+            const e = dataSet.getEntryForIndex(j);
+            const y = e && e[yKey];
+            if (y === undefined || y === null) continue;
+
+            const value = winLoss ? Math.sign(y) : y;
+            if (value === 0) continue;
+
+            const x = dataSet.getEntryXValue(e, j);
+            rect.set(x - barWidthHalf, Math.max(value, 0) * phaseY, x + barWidthHalf, Math.min(value, 0) * phaseY);
+            trans.rectValueToPixel(rect);
+
+            paint.setColor(value < 0 && negativeColor ? negativeColor : dataSet.getColor(j));
+            if (customRender && customRender.drawBar) {
+                customRender.drawBar(c, e, rect, paint);
+            } else {
+                c.drawRect(rect, paint);
+            }
+        }
+    }
+
+    /**
+     * Draws the reference band across the whole width of the chart.
+     *
+     * @param c
+     */
+    protected drawReferenceBand(c: Canvas) {
+        const low = this.mChart.getReferenceBandLow();
+        const high = this.mChart.getReferenceBandHigh();
+        if (low === null || high === null) {
+            return;
+        }
+        const trans = this.mChart.getTransformer();
+        const rect = Utils.getTempRectF();
+        rect.set(this.mViewPortHandler.contentLeft(), trans.getPixelForValues(0, high).y, this.mViewPortHandler.contentRight(), trans.getPixelForValues(0, low).y);
+
+        const paint = this.referenceBandPaint;
+        const customRender = this.mChart.getCustomRenderer();
+        if (customRender && customRender.drawReferenceBand) {
+            customRender.drawReferenceBand(c, rect, paint);
+        } else {
+            c.drawRect(rect, paint);
+        }
+    }
+
+    /**
+     * Draws the min, max and last point markers instead of the circles.
+     *
+     * @param c
+     */
+    public drawExtras(c: Canvas) {
+        const chart = this.mChart;
+        if (!chart.isDrawMinMarkerEnabled() && !chart.isDrawMaxMarkerEnabled() && !chart.isDrawLastMarkerEnabled()) {
+            return;
+        }
+        for (const set of chart.getLineData().getVisibleDataSets()) {
+            this.drawPointMarkers(c, set);
+        }
+    }
+
+    protected drawPointMarkers(c: Canvas, dataSet: LineDataSet) {
+        if (dataSet.getEntryCount() < 1) return;
+        const chart = this.mChart;
+        const winLoss = chart.getVariant() === SparklineVariant.WIN_LOSS;
+        const yKey = chart.isBarVariant() ? dataSet.yProperty : this.getYKey(dataSet);
+
+        // find the markers among the entries drawn so far
+        this.mXBounds.set(chart, dataSet, this.mAnimator);
+        let minIndex = -1;
+        let maxIndex = -1;
+        let lastIndex = -1;
+        let minValue = Infinity;
+        let maxValue = -Infinity;
+        for (let j = this.mXBounds.min; j <= this.mXBounds.range + this.mXBounds.min; j++) {
+            const e = dataSet.getEntryForIndex(j);
+            const y = e && e[yKey];
+            if (y === undefined || y === null) continue;
+            if (y < minValue) {
+                minValue = y;
+                minIndex = j;
+            }
+            if (y > maxValue) {
+                maxValue = y;
+                maxIndex = j;
+            }
+            lastIndex = j;
+        }
+        if (lastIndex === -1) {
+            return;
+        }
+
+        const markers: [SparklineMarker, number][] = [];
+        if (chart.isDrawLastMarkerEnabled()) markers.push([SparklineMarker.LAST, lastIndex]);
+        if (chart.isDrawMinMarkerEnabled()) markers.push([SparklineMarker.MIN, minIndex]);
+        if (chart.isDrawMaxMarkerEnabled()) markers.push([SparklineMarker.MAX, maxIndex]);
+
+        const trans = chart.getTransformer(dataSet.getAxisDependency());
+        const phaseY = this.mAnimator.getPhaseY();
+        const radius = chart.getMarkerRadius();
+        const customRender = chart.getCustomRenderer();
+        const paint = Utils.getTempPaint();
+        paint.setStyle(Style.FILL);
+        const point = Utils.getTempArray(2);
+        for (const [marker, index] of markers) {
+            const e = dataSet.getEntryForIndex(index);
+            const y = e[yKey];
+            point[0] = dataSet.getEntryXValue(e, index);
+            point[1] = (winLoss ? Math.sign(y) : y) * phaseY;
+            trans.pointValuesToPixel(point);
+
+            paint.setColor(chart.getMarkerColor(marker) || dataSet.getColor(index));
+            if (customRender && customRender.drawPointMarker) {
+                customRender.drawPointMarker(c, e, marker, point[0], point[1], radius, paint);
+            } else {
+                c.drawCircle(point[0], point[1], radius, paint);
+            }
+        }
+    }
+}
@@ -0,0 +1,161 @@
+import { Canvas, Path, Style } from '@nativescript-community/ui-canvas';
+import { ChartAnimator } from '../animation/ChartAnimator';
+import { SunburstChart, SunburstNode } from '../charts/SunburstChart';
+import { Highlight } from '../highlight/Highlight';
+import { IPieDataSet } from '../interfaces/datasets/IPieDataSet';
+import { Utils } from '../utils/Utils';
+import { ViewPortHandler } from '../utils/ViewPortHandler';
+import { PieChartRenderer } from './PieChartRenderer';
+
+export class SunburstChartRenderer extends PieChartRenderer {
+    protected mChart: SunburstChart;
+
+    constructor(chart: SunburstChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+        super(chart, animator, viewPortHandler);
+    }
+
+    public drawData(c: Canvas) {
+        const dataSet = this.mChart.getData().getDataSet();
+        if (dataSet != null && dataSet.isVisible()) {
+            this.drawDataSet(c, dataSet);
+        }
+    }
+
+    /**
+     * Builds the ring segment path of the given node.
+     *
+     * @param path
+     * @param node
+     * @param shift distance the outer edge is pushed outwards, in pixels
+     */
+    protected prepareNodePath(path: Path, node: SunburstNode, shift = 0) {
+        const phaseY = this.mAnimator.getPhaseY();
+        const center = this.mChart.getCenterCircleBox();
+        const innerRadius = this.mChart.getRingInnerRadius(node.ring);
+        const outerRadius = this.mChart.getRingOuterRadius(node.ring) + shift;
+        const startAngle = this.mChart.getRotationAngle() + node.startAngle * phaseY;
+        const sweepAngle = node.sweepAngle * phaseY;
+        const endAngle = startAngle + sweepAngle;
+
+        const rect = Utils.getTempRectF();
+        path.reset();
+        rect.set(center.x - outerRadius, center.y - outerRadius, center.x + outerRadius, center.y + outerRadius);
+        path.arcTo(rect, startAngle, sweepAngle);
+        path.lineTo(center.x + innerRadius * Math.cos(endAngle * Utils.DEG2RAD), center.y + innerRadius * Math.sin(endAngle * Utils.DEG2RAD));
+        if (innerRadius > 0) {
+            rect.set(center.x - innerRadius, center.y - innerRadius, center.x + innerRadius, center.y + innerRadius);
+            path.arcTo(rect, endAngle, -sweepAngle);
+        }
+        path.close();
+    }
+
+    /**
+     * Returns the alpha of the nodes of the given ring, nodes get lighter
+     * going outwards.
+     *
+     * @param ring
+     */
+    protected getRingAlpha(ring: number) {
+        return Math.round(255 * Math.max(0.3, 1 - ring * 0.2));
+    }
+
+    protected drawDataSet(c: Canvas, dataSet: IPieDataSet) {
+        const customRender = this.mChart.getCustomRenderer();
+        const renderPaint = this.renderPaint;
+        const pathBuffer = Utils.getTempPath();
+        const sliceSpace = this.getSliceSpace(dataSet);
+        const separatorPaint = Utils.getTempPaint();
+        separatorPaint.setStyle(Style.STROKE);
+        separatorPaint.setColor(this.holePaint.getColor());
+        separatorPaint.setStrokeWidth(sliceSpace);
+
+        for (const node of this.mChart.getNodes()) {
+            if (node.sweepAngle <= 0) {
+                continue;
+            }
+            this.prepareNodePath(pathBuffer, node);
+
+            // nodes take the color of their root entry
+            renderPaint.setColor(dataSet.getColor(node.path[0]));
+            renderPaint.setAlpha(this.getRingAlpha(node.ring));
+            if (customRender && customRender.drawSlice) {
+                customRender.drawSlice(c, node.entry, pathBuffer, renderPaint);
+            } else {
+                c.drawPath(pathBuffer, renderPaint);
+            }
+            if (sliceSpace > 0) {
+                c.drawPath(pathBuffer, separatorPaint);
+            }
+        }
+
+        return false;
+    }
+
+    public drawValues(c: Canvas) {
+        const dataSet = this.mChart.getData().getDataSet();
+        const drawEntryLabels = this.mChart.isDrawEntryLabelsEnabled();
+        if (dataSet == null || (!dataSet.isDrawValuesEnabled() && !drawEntryLabels)) {
+            return;
+        }
+
+        this.applyValueTextStyle(dataSet);
+        const paint = this.valuePaint;
+        const entryLabelsPaint = this.entryLabelsPaint;
+        const lineHeight = Utils.calcTextHeight(paint, 'Q') + 4;
+        const formatter = dataSet.getValueFormatter();
+        const center = this.mChart.getCenterCircleBox();
+        const rotationAngle = this.mChart.getRotationAngle();
+        const phaseY = this.mAnimator.getPhaseY();
+        const customRender = this.mChart.getCustomRenderer();
+
+        const pos = { x: 0, y: 0 };
+        for (const node of this.mChart.getNodes()) {
+            const r = (this.mChart.getRingInnerRadius(node.ring) + this.mChart.getRingOuterRadius(node.ring)) / 2;
+            // skip slices too thin to hold a label
+            if ((node.sweepAngle * Utils.DEG2RAD * r) / 2 < lineHeight) {
+                continue;
+            }
+            this.mChart.getPosition(center, r, rotationAngle + (node.startAngle + node.sweepAngle / 2) * phaseY, pos);
+
+            const drawLabel = drawEntryLabels && node.entry.label;
+            if (dataSet.isDrawValuesEnabled()) {
+                const y = drawLabel ? pos.y + lineHeight : pos.y + lineHeight / 2;
+                this.drawValue(c, formatter.getPieLabel(node.value, node.entry), pos.x, y, dataSet.getValueTextColor(node.path[0]), paint, customRender);
+            }
+            if (drawLabel) {
+                this.drawEntryLabel(c, node.entry.label, pos.x, pos.y, entryLabelsPaint);
+            }
+        }
+    }
+
+    public drawExtras(c: Canvas) {
+        this.drawHole(c);
+        this.drawCenterText(c);
+    }
+
+    public drawHighlighted(c: Canvas, indices: Highlight[]) {
+        const dataSet = this.mChart.getData().getDataSet();
+        if (dataSet == null || !dataSet.isHighlightEnabled()) {
+            return;
+        }
+        const customRender = this.mChart.getCustomRenderer();
+        const renderPaint = this.renderPaint;
+        const pathBuffer = Utils.getTempPath();
+
+        for (const high of indices) {
+            const node = this.mChart.getNodeForHighlight(high);
+            if (node == null) {
+                continue;
+            }
+            this.prepareNodePath(pathBuffer, node, dataSet.getSelectionShift());
+
+            // highlighted nodes are drawn fully opaque and pushed outwards
+            renderPaint.setColor(dataSet.getColor(node.path[0]));
+            if (customRender && customRender.drawHighlight) {
+                customRender.drawHighlight(c, high, pathBuffer, renderPaint);
+            } else {
+                c.drawPath(pathBuffer, renderPaint);
+            }
+        }
+    }
+}
@@ -0,0 +1,275 @@
+import { Canvas, Paint, Path, Style } from '@nativescript-community/ui-canvas';
+import { ChartAnimator } from '../animation/ChartAnimator';
+import { TimelineBuffer } from '../buffer/TimelineBuffer';
+import { TimelineChart } from '../charts/TimelineChart';
+import { TimelineDataSet } from '../data/TimelineDataSet';
+import { TimelineEntry } from '../data/TimelineEntry';
+import { Highlight } from '../highlight/Highlight';
+import { IBarDataSet } from '../interfaces/datasets/IBarDataSet';
+import { ITimelineDataSet } from '../interfaces/datasets/ITimelineDataSet';
+import { Utils } from '../utils/Utils';
+import { ViewPortHandler } from '../utils/ViewPortHandler';
+import { HorizontalBarChartRenderer } from './HorizontalBarChartRenderer';
+
+export class TimelineChartRenderer extends HorizontalBarChartRenderer {
+    public mChart: TimelineChart;
+
+    /**
+     * palet for the "now" marker line
+     */
+    protected mNowLinePaint: Paint;
+
+    /**
+     * palet for the dependency arrows
+     */
+    protected mDependencyPaint: Paint;
+
+    protected mArrowHeadPath: Path;
+
+    /**
+     * horizontal distance between the end of a task and the bend of the
+     * dependency arrows leaving it, in pixels
+     */
+    protected mDependencyOffset = 8;
+
+    /**
+     * size of the dependency arrow heads in pixels
+     */
+    protected mArrowSize = 6;
+
+    constructor(chart: TimelineChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+        super(chart, animator, viewPortHandler);
+    }
+
+    public get nowLinePaint() {
+        if (!this.mNowLinePaint) {
+            this.mNowLinePaint = Utils.getTemplatePaint('black-stroke');
+            this.mNowLinePaint.setColor('red');
+            this.mNowLinePaint.setStrokeWidth(1.5);
+        }
+        return this.mNowLinePaint;
+    }
+
+    public get dependencyPaint() {
+        if (!this.mDependencyPaint) {
+            this.mDependencyPaint = Utils.getTemplatePaint('black-stroke');
+            this.mDependencyPaint.setColor('gray');
+        }
+        return this.mDependencyPaint;
+    }
+
+    protected get arrowHeadPath() {
+        if (!this.mArrowHeadPath) {
+            this.mArrowHeadPath = new Path();
+        }
+        return this.mArrowHeadPath;
+    }
+
+    public initBuffers() {
+        const barData = this.mChart.getBarData();
+        this.mBarBuffers = [];
+
+        for (let i = 0; i < barData.getDataSetCount(); i++) {
+            const set = barData.getDataSetByIndex(i);
+            this.mBarBuffers.push(new TimelineBuffer(set.getEntryCount() * 4, barData.getDataSetCount()));
+        }
+    }
+
+    protected drawDataSet(c: Canvas, dataSet: IBarDataSet, index: number): boolean {
+        const result = super.drawDataSet(c, dataSet, index);
+        const set = dataSet as ITimelineDataSet;
+        if (set.isDrawProgressEnabled()) {
+            this.drawProgress(c, set);
+        }
+        return result;
+    }
+
+    /**
+     * Draws the completed part of the tasks over their bars.
+     *
+     * @param c
+     * @param dataSet
+     */
+    protected drawProgress(c: Canvas, dataSet: ITimelineDataSet) {
+        const trans = this.mChart.getTransformer(dataSet.getAxisDependency());
+        const phaseY = this.mAnimator.getPhaseY();
+        const barWidthHalf = this.getBarWidth(dataSet) / 2;
+        const yKey = dataSet.yProperty;
+        const count = Math.min(Math.ceil(dataSet.getEntryCount() * this.mAnimator.getPhaseX()), dataSet.getEntryCount());
+
+        const paint = Utils.getTempPaint();
+        paint.setStyle(Style.FILL);
+        paint.setColor(dataSet.getProgressColor());
+        paint.setAlpha(dataSet.getProgressAlpha());
+
+        const rect = Utils.getTempRectF();
+        for (let i = 0; i < count; i++) {
+            const e = dataSet.getEntryForIndex(i) as TimelineEntry;
+            if (e == null || !(e.progress > 0)) {
+                continue;
+            }
+            const x = dataSet.getEntryXValue(e, i);
+            const progress = Math.min(1, e.progress);
+            rect.set(e.start, x - barWidthHalf, e.start + phaseY * progress * (e[yKey] - e.start), x + barWidthHalf);
+            trans.rectValueToPixel(rect);
+
+            if (!this.mViewPortHandler.isInBoundsTop(rect.bottom) || !this.mViewPortHandler.isInBoundsBottom(rect.top)) {
+                continue;
+            }
+            c.drawRect(rect, paint);
+        }
+    }
+
+    public drawExtras(c: Canvas) {
+        c.save();
+        c.clipRect(this.mViewPortHandler.getContentRect());
+        if (this.mChart.isDrawDependenciesEnabled()) {
+            this.drawDependencies(c);
+        }
+        this.drawNowLine(c);
+        c.restore();
+    }
+
+    /**
+     * Draws the arrows going from the end of each task to the start of the
+     * tasks depending on it.
+     *
+     * @param c
+     */
+    protected drawDependencies(c: Canvas) {
+        const barData = this.mChart.getBarData();
+        const dataSets = barData.getDataSets().filter((set) => set.isVisible()) as TimelineDataSet[];
+
+        // find the tasks by id
+        const tasks = new Map<string | number, { entry: TimelineEntry; set: TimelineDataSet; index: number }>();
+        for (const set of dataSets) {
+            for (let index = 0; index < set.getEntryCount(); index++) {
+                const entry = set.getEntryForIndex(index) as TimelineEntry;
+                if (entry && entry.id !== undefined && entry.id !== null) {
+                    tasks.set(entry.id, { entry, set, index });
+                }
+            }
+        }
+        if (tasks.size === 0) {
+            return;
+        }
+
+        const customRender = this.mChart.getCustomRenderer();
+        const paint = this.dependencyPaint;
+        const headPaint = Utils.getTempPaint();
+        headPaint.setStyle(Style.FILL);
+        headPaint.setColor(paint.getColor());
+        const linePath = Utils.getTempPath();
+        const headPath = this.arrowHeadPath;
+        const arrowSize = this.mArrowSize;
+
+        for (const set of dataSets) {
+            const trans = this.mChart.getTransformer(set.getAxisDependency());
+            for (let index = 0; index < set.getEntryCount(); index++) {
+                const to = set.getEntryForIndex(index) as TimelineEntry;
+                if (!to || !to.dependsOn) {
+                    continue;
+                }
+                const end = trans.getPixelForValues(to.start, set.getEntryXValue(to, index));
+                const endX = end.x;
+                const endY = end.y;
+                for (const id of to.dependsOn) {
+                    const from = tasks.get(id);
+                    if (!from) {
+                        continue;
+                    }
+                    const start = this.mChart.getTransformer(from.set.getAxisDependency()).getPixelForValues(from.entry[from.set.yProperty], from.set.getEntryXValue(from.entry, from.index));
+                    const bendX = start.x + this.mDependencyOffset;
+
+                    linePath.reset();
+                    linePath.moveTo(start.x, start.y);
+                    linePath.lineTo(bendX, start.y);
+                    linePath.lineTo(bendX, endY);
+                    linePath.lineTo(endX, endY);
+
+                    // the head points in the direction of the last segment
+                    const direction = endX >= bendX ? 1 : -1;
+                    headPath.reset();
+                    headPath.moveTo(endX, endY);
+                    headPath.lineTo(endX - direction * arrowSize, endY - arrowSize / 2);
+                    headPath.lineTo(endX - direction * arrowSize, endY + arrowSize / 2);
+                    headPath.close();
+
+                    if (customRender && customRender.drawDependency) {
+                        customRender.drawDependency(c, from.entry, to, linePath, headPath, paint);
+                    } else {
+                        c.drawPath(linePath, paint);
+                        c.drawPath(headPath, headPaint);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Draws the "now" marker line across the rows.
+     *
+     * @param c
+     */
+    protected drawNowLine(c: Canvas) {
+        const now = this.mChart.getNowValue();
+        if (now === null || now === undefined) {
+            return;
+        }
+        const x = this.mChart.getTransformer().getPixelForValues(now, 0).x;
+        if (!this.mViewPortHandler.isInBoundsX(x)) {
+            return;
+        }
+        const top = this.mViewPortHandler.contentTop();
+        const bottom = this.mViewPortHandler.contentBottom();
+        const paint = this.nowLinePaint;
+        const customRender = this.mChart.getCustomRenderer();
+        if (customRender && customRender.drawNowLine) {
+            customRender.drawNowLine(c, x, top, bottom, paint);
+        } else {
+            c.drawLine(x, top, x, bottom, paint);
+        }
+    }
+
+    public drawHighlighted(c: Canvas, indices: Highlight[]) {
+        const barData = this.mChart.getBarData();
+        const barRect = Utils.getTempRectF();
+        let entry: TimelineEntry, index: number;
+        for (let i = 0; i < indices.length; i++) {
+            const high = indices[i];
+            const set = barData.getDataSetByIndex(high.dataSetIndex);
+
+            if (set === null || !set.isHighlightEnabled()) {
+                continue;
+            }
+            if (high.entry) {
+                entry = high.entry as TimelineEntry;
+                index = high.entryIndex;
+            } else {
+                const r = set.getEntryAndIndexForXValue(high.x, high.y);
+                entry = r.entry as TimelineEntry;
+                index = r.index;
+            }
+            if (!this.isInBoundsX(entry, set)) {
+                continue;
+            }
+
+            const trans = this.mChart.getTransformer(set.getAxisDependency());
+
+            const paint = this.highlightPaint;
+            paint.setColor(set.getHighLightColor());
+            paint.setAlpha(set.getHighLightAlpha());
+
+            const x = set.getEntryXValue(entry, index);
+            this.prepareBarHighlight(x, entry[set.yProperty], entry.start, this.getBarWidth(set) / 2, trans, barRect);
+
+            this.setHighlightDrawPos(high, barRect);
+            const customRender = this.mChart.getCustomRenderer();
+            if (customRender && customRender.drawHighlight) {
+                customRender.drawHighlight(c, high, barRect.left, barRect.top, barRect.right, barRect.bottom, paint);
+            } else {
+                c.drawRect(barRect, paint);
+            }
+        }
+    }
+}
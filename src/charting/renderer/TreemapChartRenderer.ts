@@ -0,0 +1,147 @@
+import { Align, Canvas, Style } from '@nativescript-community/ui-canvas';
+import { ChartAnimator } from '../animation/ChartAnimator';
+import { TreemapChart } from '../charts/TreemapChart';
+import { Highlight } from '../highlight/Highlight';
+import { Utils } from '../utils/Utils';
+import { ViewPortHandler } from '../utils/ViewPortHandler';
+import { DataRenderer } from './DataRenderer';
+
+export class TreemapChartRenderer extends DataRenderer {
+    protected mChart: TreemapChart;
+
+    /**
+     * space between the labels and the edges of their node, in dp
+     */
+    protected mLabelPadding = 4;
+
+    constructor(chart: TreemapChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+        super(animator, viewPortHandler);
+        this.mChart = chart;
+    }
+
+    /**
+     * Returns the alpha of the nodes at the given depth, nodes get lighter
+     * going down so that the padding around them shows their parent.
+     *
+     * @param depth
+     */
+    protected getDepthAlpha(depth: number) {
+        return Math.round(255 * Math.max(0.4, 1 - depth * 0.15));
+    }
+
+    public drawData(c: Canvas) {
+        const dataSet = this.mChart.getData().getDataSet();
+        if (dataSet == null || !dataSet.isVisible()) {
+            return;
+        }
+        const customRender = this.mChart.getCustomRenderer();
+        const renderPaint = this.renderPaint;
+        renderPaint.setStyle(Style.FILL);
+        const rect = Utils.getTempRectF();
+
+        c.save();
+        c.clipRect(this.mViewPortHandler.getContentRect());
+        for (const node of this.mChart.getNodes()) {
+            this.mChart.getNodeRect(node, rect);
+            if (rect.width() <= 0 || rect.height() <= 0) {
+                continue;
+            }
+            renderPaint.setColor(this.mChart.getNodeColor(node));
+            renderPaint.setAlpha(this.getDepthAlpha(node.depth));
+            if (customRender && customRender.drawNode) {
+                customRender.drawNode(c, node, rect, renderPaint);
+            } else {
+                c.drawRect(rect, renderPaint);
+            }
+        }
+        c.restore();
+    }
+
+    /**
+     * Draws the labels of the nodes, ellipsized to fit in them: in the header
+     * strip of expanded nodes and in the top left corner of the others,
+     * followed by their value.
+     *
+     * @param c
+     */
+    public drawValues(c: Canvas) {
+        const dataSet = this.mChart.getData().getDataSet();
+        const drawLabels = this.mChart.isDrawLabelsEnabled();
+        if (dataSet == null || !dataSet.isVisible() || (!dataSet.isDrawValuesEnabled() && !drawLabels)) {
+            return;
+        }
+
+        this.applyValueTextStyle(dataSet);
+        const paint = this.valuePaint;
+        paint.setTextAlign(Align.LEFT);
+        const lineHeight = Utils.calcTextHeight(paint, 'Q');
+        const padding = this.mLabelPadding;
+        const headerHeight = this.mChart.getHeaderHeight();
+        const formatter = dataSet.getValueFormatter();
+        const rootDepth = this.mChart.getRootPath().length;
+        const customRender = this.mChart.getCustomRenderer();
+        const rect = Utils.getTempRectF();
+
+        c.save();
+        c.clipRect(this.mViewPortHandler.getContentRect());
+        for (const node of this.mChart.getNodes()) {
+            this.mChart.getNodeRect(node, rect);
+            const maxWidth = rect.width() - 2 * padding;
+            if (maxWidth <= 0) {
+                continue;
+            }
+            const color = dataSet.getValueTextColor(node.path[rootDepth]);
+            const label = drawLabels ? node.entry.label : null;
+
+            if (node.expanded) {
+                // the label is centered vertically in the header strip
+                if (label && headerHeight >= lineHeight) {
+                    const text = Utils.ellipsizeText(paint, label, maxWidth);
+                    this.drawValue(c, text, rect.left + padding, rect.top + (headerHeight + lineHeight) / 2, color, paint, customRender);
+                }
+                continue;
+            }
+
+            let y = rect.top + padding + lineHeight;
+            if (label && y <= rect.bottom - padding) {
+                this.drawValue(c, Utils.ellipsizeText(paint, label, maxWidth), rect.left + padding, y, color, paint, customRender);
+                y += lineHeight + padding / 2;
+            }
+            if (dataSet.isDrawValuesEnabled() && y <= rect.bottom - padding) {
+                this.drawValue(c, Utils.ellipsizeText(paint, formatter.getPieLabel(node.value, node.entry), maxWidth), rect.left + padding, y, color, paint, customRender);
+            }
+        }
+        c.restore();
+    }
+
+    public drawExtras(c: Canvas) {}
+
+    public drawHighlighted(c: Canvas, indices: Highlight[]) {
+        const dataSet = this.mChart.getData().getDataSet();
+        if (dataSet == null || !dataSet.isHighlightEnabled()) {
+            return;
+        }
+        const customRender = this.mChart.getCustomRenderer();
+        const paint = this.highlightPaint;
+        const rect = Utils.getTempRectF();
+
+        for (const high of indices) {
+            const node = this.mChart.getNodeForHighlight(high);
+            if (node == null) {
+                continue;
+            }
+            this.mChart.getNodeRect(node, rect);
+
+            // keep the outline inside the node
+            const inset = paint.getStrokeWidth() / 2;
+            rect.set(rect.left + inset, rect.top + inset, rect.right - inset, rect.bottom - inset);
+            high.drawX = rect.centerX();
+            high.drawY = rect.centerY();
+            if (customRender && customRender.drawHighlight) {
+                customRender.drawHighlight(c, high, rect, paint);
+            } else {
+                c.drawRect(rect, paint);
+            }
+        }
+    }
+}
@@ -0,0 +1,127 @@
+import { Canvas, Paint } from '@nativescript-community/ui-canvas';
+import { ChartAnimator } from '../animation/ChartAnimator';
+import { WaterfallBuffer } from '../buffer/WaterfallBuffer';
+import { WaterfallChart } from '../charts/WaterfallChart';
+import { WaterfallEntry } from '../data/WaterfallEntry';
+import { Highlight } from '../highlight/Highlight';
+import { IBarDataSet } from '../interfaces/datasets/IBarDataSet';
+import { IWaterfallDataSet } from '../interfaces/datasets/IWaterfallDataSet';
+import { Utils } from '../utils/Utils';
+import { ViewPortHandler } from '../utils/ViewPortHandler';
+import { BarChartRenderer } from './BarChartRenderer';
+
+export class WaterfallChartRenderer extends BarChartRenderer {
+    public mChart: WaterfallChart;
+
+    /**
+     * palet for the connector lines
+     */
+    protected mConnectorPaint: Paint;
+
+    constructor(chart: WaterfallChart, animator: ChartAnimator, viewPortHandler: ViewPortHandler) {
+        super(chart, animator, viewPortHandler);
+    }
+
+    public get connectorPaint() {
+        if (!this.mConnectorPaint) {
+            this.mConnectorPaint = Utils.getTemplatePaint('black-stroke');
+        }
+        return this.mConnectorPaint;
+    }
+
+    public initBuffers() {
+        const barData = this.mChart.getBarData();
+        this.mBarBuffers = [];
+
+        for (let i = 0; i < barData.getDataSetCount(); i++) {
+            const set = barData.getDataSetByIndex(i);
+            this.mBarBuffers.push(new WaterfallBuffer(set.getEntryCount() * 4, barData.getDataSetCount()));
+        }
+    }
+
+    protected drawDataSet(c: Canvas, dataSet: IBarDataSet, index: number): boolean {
+        const result = super.drawDataSet(c, dataSet, index);
+        const set = dataSet as IWaterfallDataSet;
+        if (set.isDrawConnectorsEnabled()) {
+            this.drawConnectors(c, set);
+        }
+        return result;
+    }
+
+    /**
+     * Draws the lines joining the end of each bar to the next bar.
+     *
+     * @param c
+     * @param dataSet
+     */
+    protected drawConnectors(c: Canvas, dataSet: IWaterfallDataSet) {
+        const phaseY = this.mAnimator.getPhaseY();
+        const count = Math.min(Math.ceil(dataSet.getEntryCount() * this.mAnimator.getPhaseX()), dataSet.getEntryCount());
+        if (count < 2) {
+            return;
+        }
+        const barWidthHalf = this.mChart.getBarData().getBarWidth() / 2;
+        const points: number[] = [];
+
+        let previous = dataSet.getEntryForIndex(0) as WaterfallEntry;
+        let previousX = dataSet.getEntryXValue(previous, 0);
+        for (let i = 1; i < count; i++) {
+            const e = dataSet.getEntryForIndex(i) as WaterfallEntry;
+            const x = dataSet.getEntryXValue(e, i);
+            const level = previous.start + phaseY * (previous.cumulative - previous.start);
+            points.push(previousX + barWidthHalf, level, x - barWidthHalf, level);
+            previous = e;
+            previousX = x;
+        }
+
+        this.mChart.getTransformer(dataSet.getAxisDependency()).pointValuesToPixel(points);
+
+        const paint = this.connectorPaint;
+        paint.setColor(dataSet.getConnectorColor());
+        paint.setStrokeWidth(dataSet.getConnectorWidth());
+        paint.setPathEffect(dataSet.getConnectorDashPathEffect());
+        c.drawLines(points, paint);
+    }
+
+    public drawHighlighted(c: Canvas, indices: Highlight[]) {
+        const barData = this.mChart.getBarData();
+        const barRect = Utils.getTempRectF();
+        let entry: WaterfallEntry, index: number;
+        for (let i = 0; i < indices.length; i++) {
+            const high = indices[i];
+            const set = barData.getDataSetByIndex(high.dataSetIndex);
+
+            if (set === null || !set.isHighlightEnabled()) {
+                continue;
+            }
+            if (high.entry) {
+                entry = high.entry;
+                index = high.entryIndex;
+            } else {
+                const r = set.getEntryAndIndexForXValue(high.x, high.y);
+                entry = r.entry;
+                index = r.index;
+            }
+            if (!this.isInBoundsX(entry, set)) {
+                continue;
+            }
+
+            const trans = this.mChart.getTransformer(set.getAxisDependency());
+
+            const paint = this.highlightPaint;
+            paint.setColor(set.getHighLightColor());
+            paint.setAlpha(set.getHighLightAlpha());
+
+            const x = set.getEntryXValue(entry, index);
+            this.prepareBarHighlight(x, entry.cumulative, entry.start, barData.getBarWidth() / 2, trans, barRect);
+
+            this.setHighlightDrawPos(high, barRect);
+            const customRender = this.mChart.getCustomRenderer();
+            if (customRender && customRender.drawHighlight) {
+                customRender.drawHighlight(c, high, barRect.left, barRect.top, barRect.right, barRect.bottom, paint);
+            } else {
+                c.drawRect(barRect, paint);
+            }
+        }
+    }
+}
@@ -4,6 +4,7 @@ import { profile } from '@nativescript/core';
 import { LimitLabelPosition, LimitLine } from '../components/LimitLine';
 import { XAxis, XAxisPosition } from '../components/XAxis';
 import { MPPointF } from '../utils/MPPointF';
+import { TimeScale } from '../utils/TimeScale';
 import { Transformer } from '../utils/Transformer';
 import { Utils } from '../utils/Utils';
 import { ViewPortHandler } from '../utils/ViewPortHandler';
@@ -56,20 +57,186 @@ export class XAxisRenderer extends AxisRenderer {
     }
 
     protected computeAxisValues(min, max) {
-        super.computeAxisValues(min, max);
+        if (this.mXAxis.isCategoryAxisEnabled()) {
+            this.mXAxis.mSecondaryLabels = [];
+            this.computeCategoryAxisValues(min, max);
+        } else if (this.mXAxis.isTimeScaleEnabled()) {
+            this.computeTimeAxisValues(min, max);
+        } else {
+            this.mXAxis.mSecondaryLabels = [];
+            super.computeAxisValues(min, max);
+        }
 
         this.computeSize();
     }
+
+    /**
+     * Sets up the axis values of a category axis: one entry on the center of
+     * each visible category. When the labels do not fit in the space of a
+     * category, only the labels of every n-th category are kept, n being
+     * picked from the widest visible label so that the kept ones do not
+     * change while panning.
+     *
+     * @param min
+     * @param max
+     */
+    protected computeCategoryAxisValues(min, max) {
+        const axis = this.mXAxis;
+        const categories = axis.getCategories();
+        const width = axis.getCategoryWidth();
+        if (min > max) {
+            [min, max] = [max, min];
+        }
+        axis.mEntries = [];
+        axis.mLabels = [];
+        axis.mCenteredEntries = [];
+        axis.mDecimals = 0;
+        if (categories.length === 0 || !(width > 0)) {
+            axis.mEntryCount = 0;
+            return;
+        }
+
+        // the epsilon keeps categories centered on the range bounds
+        const start = axis.getCategoryStart();
+        const first = Math.max(0, Math.ceil((min - start) / width - 1e-9));
+        const last = Math.min(categories.length - 1, Math.floor((max - start) / width + 1e-9));
+        const indexes: number[] = [];
+        for (let i = first; i <= last; i++) {
+            indexes.push(i);
+        }
+
+        const paint = this.axisLabelsPaint;
+        paint.setFont(axis.getFont());
+        let labelExtent = 0;
+        for (const i of indexes) {
+            labelExtent = Math.max(labelExtent, this.getCategoryLabelExtent(paint, categories[i] || ''));
+        }
+        const spacing = this.getCategorySpacing(start, width);
+        const labelSpace = labelExtent + 4;
+        const skip = spacing > 0 ? Math.max(1, Math.ceil(labelSpace / spacing)) : 1;
+
+        for (const i of indexes) {
+            if (axis.isInBreak(start + i * width) || axis.isBreakEnd(start + i * width)) {
+                continue;
+            }
+            axis.mEntries.push(start + i * width);
+            axis.mLabels.push(i % skip === 0 ? categories[i] || '' : '');
+        }
+        axis.mEntryCount = axis.mEntries.length;
+        if (axis.isCenterAxisLabelsEnabled()) {
+            // entries already are on the centers of the categories
+            axis.mCenteredEntries = axis.mEntries.slice();
+        }
+    }
+
+    /**
+     * Returns the distance on screen between two consecutive categories.
+     *
+     * @param start
+     * @param width
+     */
+    protected getCategorySpacing(start: number, width: number) {
+        const positions = Utils.getTempArray(4);
+        positions[0] = start;
+        positions[1] = 0;
+        positions[2] = start + width;
+        positions[3] = 0;
+        this.mTrans.pointValuesToPixel(positions);
+        return Math.abs(positions[2] - positions[0]);
+    }
+
+    /**
+     * Returns the space the given category label takes along the axis.
+     *
+     * @param paint
+     * @param label
+     */
+    protected getCategoryLabelExtent(paint: Paint, label: string) {
+        const size = Utils.calcTextSize(paint, label);
+        return Utils.getSizeOfRotatedRectangleByDegrees(size.width, size.height, this.mXAxis.getLabelRotationAngle()).width;
+    }
+
+    /**
+     * Sets up the axis values of a time scale: ticks on the calendar
+     * boundaries of the unit picked from the visible range, so that they
+     * stay in place while panning and change unit while zooming. Ticks
+     * starting a new parent unit, and the first one, get a second level
+     * label.
+     *
+     * @param min
+     * @param max
+     */
+    protected computeTimeAxisValues(min, max) {
+        const axis = this.mXAxis;
+        if (min > max) {
+            [min, max] = [max, min];
+        }
+        const range = max - min;
+        const labelCount = axis.getLabelCount();
+        if (labelCount === 0 || !(range > 0) || !Number.isFinite(range)) {
+            axis.mEntries = [];
+            axis.mLabels = [];
+            axis.mSecondaryLabels = [];
+            axis.mCenteredEntries = [];
+            axis.mEntryCount = 0;
+            return;
+        }
+
+        let duration = (range - axis.getCollapsedLength(min, max)) / Math.max(1, labelCount - 1);
+        if (axis.isGranularityEnabled()) {
+            duration = Math.max(duration, axis.getGranularity());
+        }
+        const interval = TimeScale.getInterval(duration);
+        const utc = axis.isTimeScaleUTC();
+        // ticks are computed per segment so that long breaks are skipped
+        const entries: number[] = [];
+        for (const [from, to] of axis.getSegments(min, max)) {
+            entries.push(...TimeScale.getTicks(from, to, interval, utc, axis.getFirstDayOfWeek()).filter((value) => !axis.isBreakEnd(value)));
+        }
+        axis.mTimeUnit = interval.unit;
+        axis.mTimeStep = interval.step;
+        axis.mEntries = entries;
+        axis.mEntryCount = entries.length;
+        axis.mDecimals = 0;
+
+        const formatter = axis.getValueFormatter();
+        axis.mLabels = entries.map((value) => formatter.getAxisLabel(value, axis, this.mViewPortHandler));
+
+        axis.mSecondaryLabels = [];
+        const parentUnit = TimeScale.getParentUnit(interval.unit);
+        if (axis.isDrawSecondaryTimeLabelsEnabled() && parentUnit !== null && formatter.getSecondaryAxisLabel) {
+            let previous = null;
+            for (let i = 0; i < entries.length; i++) {
+                const start = TimeScale.floor(entries[i], parentUnit, utc, axis.getFirstDayOfWeek());
+                axis.mSecondaryLabels[i] = start !== previous ? formatter.getSecondaryAxisLabel(entries[i], axis, this.mViewPortHandler) : null;
+                previous = start;
+            }
+        }
+
+        if (axis.isCenterAxisLabelsEnabled()) {
+            // calendar intervals differ in length, labels are centered between ticks
+            axis.mCenteredEntries = entries.map((value, i) => {
+                const next = i < entries.length - 1 ? entries[i + 1] : TimeScale.offset(value, interval.unit, interval.step, utc);
+                return (value + next) / 2;
+            });
+        }
+    }
     protected computeSize() {
         const axis = this.mXAxis;
         const rotation = axis.getLabelRotationAngle();
         if (this.mForceLongestLabelComputation || rotation % 360 !== 0) {
             const paint = this.axisLabelsPaint;
             paint.setFont(axis.getFont());
-            const longest = axis.getLongestLabel();
+            let longest = axis.getLongestLabel();
+            let labelHeight = Utils.calcTextHeight(paint, 'Q') + 2;
+            const secondaryLabels = axis.mSecondaryLabels.filter((label) => !!label);
+            if (secondaryLabels.length > 0) {
+                // second level labels are drawn on a line of their own
+                labelHeight *= 2;
+                longest = secondaryLabels.reduce((result, label) => (label.length > result.length ? label : result), longest);
+            }
             const labelSize = Utils.calcTextSize(paint, longest);
             const labelWidth = labelSize.width;
-            const labelHeight = Utils.calcTextHeight(paint, 'Q') + 2;
             const labelRotatedSize = Utils.getSizeOfRotatedRectangleByDegrees(labelWidth, labelHeight, axis.getLabelRotationAngle());
 
             axis.mLabelWidth = Math.round(labelWidth);
@@ -202,7 +369,10 @@ export class XAxisRenderer extends AxisRenderer {
             offsetLeft = this.mViewPortHandler.offsetLeft();
         }
         const labels = axis.mLabels;
+        const secondaryLabels = axis.mSecondaryLabels;
         const paint = this.axisLabelsPaint;
+        // second level labels are drawn away from the content
+        const secondaryOffset = secondaryLabels.length > 0 ? (anchor.y === 0 ? 1 : -1) * (Utils.calcTextHeight(paint, 'Q') + 2) : 0;
 
         for (let i = 0; i < length; i += 2) {
             let x = positions[i];
@@ -232,6 +402,10 @@ export class XAxisRenderer extends AxisRenderer {
                     }
                 }
                 this.drawLabel(c, label, x, pos, anchor, labelRotationAngleDegrees, paint, customRenderFunction);
+                const secondaryLabel = secondaryLabels[i / 2];
+                if (secondaryLabel) {
+                    this.drawLabel(c, secondaryLabel, x, pos + secondaryOffset, anchor, labelRotationAngleDegrees, paint, customRenderFunction);
+                }
             }
         }
     }
@@ -19,6 +19,10 @@ export class XAxisRendererHorizontalBarChart extends XAxisRenderer {
         this.mChart = chart;
     }
 
+    protected isAxisVertical() {
+        return true;
+    }
+
     public computeAxis(min, max, inverted) {
         // calculate the starting and entry polet of the y-labels (depending on
         // zoom / contentrect bounds)
@@ -58,6 +62,27 @@ export class XAxisRendererHorizontalBarChart extends XAxisRenderer {
         axis.mLabelRotatedHeight = Math.round(labelRotatedSize.height);
     }
 
+    /**
+     * The transformer takes (y, x) pairs of values.
+     */
+    protected getCategorySpacing(start: number, width: number) {
+        const positions = Utils.getTempArray(4);
+        positions[0] = 0;
+        positions[1] = start;
+        positions[2] = 0;
+        positions[3] = start + width;
+        this.mTrans.pointValuesToPixel(positions);
+        return Math.abs(positions[3] - positions[1]);
+    }
+
+    /**
+     * Labels of the vertical axis are stacked along their height.
+     */
+    protected getCategoryLabelExtent(paint: Paint, label: string) {
+        const size = Utils.calcTextSize(paint, label);
+        return Utils.getSizeOfRotatedRectangleByDegrees(size.width, size.height, this.mXAxis.getLabelRotationAngle()).height;
+    }
+
     @profile
     public renderAxisLabels(c: Canvas) {
         const axis = this.mXAxis;
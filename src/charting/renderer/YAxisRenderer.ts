@@ -20,6 +20,10 @@ export class YAxisRenderer extends AxisRenderer {
         this.mYAxis = yAxis;
     }
 
+    protected isAxisVertical() {
+        return true;
+    }
+
     get zeroLinePaint() {
         if (!this.mZeroLinePaint) {
             this.mZeroLinePaint = Utils.getTemplatePaint('gray-stroke');
@@ -54,29 +58,31 @@ export class YAxisRenderer extends AxisRenderer {
             rect = this.mViewPortHandler.getContentRect();
             offsetLeft = this.mViewPortHandler.offsetLeft();
         }
+        // stacked axes are moved away from the content
+        const stackOffset = axis.getStackOffset();
         if (dependency === AxisDependency.LEFT) {
             if (labelPosition === YAxisLabelPosition.OUTSIDE_CHART) {
                 paint.setTextAlign(Align.RIGHT);
-                xPos = offsetLeft - xoffset;
+                xPos = offsetLeft - stackOffset - xoffset;
             } else {
                 paint.setTextAlign(Align.LEFT);
-                xPos = offsetLeft + xoffset;
+                xPos = offsetLeft - stackOffset + xoffset;
             }
         } else {
             if (labelPosition === YAxisLabelPosition.OUTSIDE_CHART) {
                 paint.setTextAlign(Align.LEFT);
-                xPos = rect.right + xoffset;
+                xPos = rect.right + stackOffset + xoffset;
             } else {
                 paint.setTextAlign(Align.RIGHT);
-                xPos = rect.right - xoffset;
+                xPos = rect.right + stackOffset - xoffset;
             }
         }
 
         this.drawYLabels(c, xPos, positions, yoffset);
         if (dependency === AxisDependency.LEFT) {
-            this.drawMarkTicket(c, rect.left, positions, -xoffset / 2);
+            this.drawMarkTicket(c, rect.left - stackOffset, positions, -xoffset / 2);
         } else {
-            this.drawMarkTicket(c, rect.right, positions, +xoffset / 2);
+            this.drawMarkTicket(c, rect.right + stackOffset, positions, +xoffset / 2);
         }
     }
 
@@ -89,10 +95,11 @@ export class YAxisRenderer extends AxisRenderer {
         paint.setStrokeWidth(axis.getAxisLineWidth());
 
         const rect = this.mAxis.isIgnoringOffsets() ? this.mViewPortHandler.getChartRect() : this.mViewPortHandler.getContentRect();
+        const stackOffset = axis.getStackOffset();
         if (axis.getAxisDependency() === AxisDependency.LEFT) {
-            c.drawLine(rect.left, rect.top, rect.left, rect.bottom, paint);
+            c.drawLine(rect.left - stackOffset, rect.top, rect.left - stackOffset, rect.bottom, paint);
         } else {
-            c.drawLine(rect.right, rect.top, rect.right, rect.bottom, paint);
+            c.drawLine(rect.right + stackOffset, rect.top, rect.right + stackOffset, rect.bottom, paint);
         }
     }
 
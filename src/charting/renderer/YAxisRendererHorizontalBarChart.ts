@@ -35,6 +35,10 @@ export class YAxisRendererHorizontalBarChart extends YAxisRenderer {
         this.computeAxisValues(yMin, yMax);
     }
 
+    protected isAxisVertical() {
+        return false;
+    }
+
     /**
      * draws the y-axis labels to the screen
      */
@@ -60,17 +64,19 @@ export class YAxisRendererHorizontalBarChart extends YAxisRenderer {
         let yPos = 0;
 
         const rect = this.mAxis.isIgnoringOffsets() ? this.mViewPortHandler.getChartRect() : this.mViewPortHandler.getContentRect();
+        // stacked axes are moved away from the content
+        const stackOffset = axis.getStackOffset();
         if (dependency === AxisDependency.LEFT) {
             if (labelPosition === YAxisLabelPosition.OUTSIDE_CHART) {
-                yPos = rect.top - baseYOffset;
+                yPos = rect.top - stackOffset - baseYOffset;
             } else {
-                yPos = rect.top - baseYOffset;
+                yPos = rect.top - stackOffset - baseYOffset;
             }
         } else {
             if (labelPosition === YAxisLabelPosition.OUTSIDE_CHART) {
-                yPos = rect.bottom + textHeight + baseYOffset;
+                yPos = rect.bottom + stackOffset + textHeight + baseYOffset;
             } else {
-                yPos = rect.bottom + textHeight + baseYOffset;
+                yPos = rect.bottom + stackOffset + textHeight + baseYOffset;
             }
         }
 
@@ -88,10 +94,11 @@ export class YAxisRendererHorizontalBarChart extends YAxisRenderer {
         paint.setStrokeWidth(axis.getAxisLineWidth());
 
         const rect = this.mAxis.isIgnoringOffsets() ? this.mViewPortHandler.getChartRect() : this.mViewPortHandler.getContentRect();
+        const stackOffset = axis.getStackOffset();
         if (axis.getAxisDependency() === AxisDependency.LEFT) {
-            c.drawLine(rect.left, rect.top, rect.right, rect.top, paint);
+            c.drawLine(rect.left, rect.top - stackOffset, rect.right, rect.top - stackOffset, paint);
         } else {
-            c.drawLine(rect.left, rect.bottom, rect.right, rect.bottom, paint);
+            c.drawLine(rect.left, rect.bottom + stackOffset, rect.right, rect.bottom + stackOffset, paint);
         }
     }
 
@@ -1,5 +1,5 @@
 import { Canvas, Path } from '@nativescript-community/ui-canvas';
-import { RadarChart } from '../charts/RadarChart';
+import { RadarChart, RadarWebShape } from '../charts/RadarChart';
 import { YAxis } from '../components/YAxis';
 import { MPPointF } from '../utils/MPPointF';
 import { Utils } from '../utils/Utils';
@@ -195,6 +195,11 @@ export class YAxisRendererRadarChart extends YAxisRenderer {
 
             const r = (l.getLimit() - this.mChart.getYChartMin()) * factor;
 
+            if (this.mChart.getWebShape() === RadarWebShape.CIRCLE) {
+                c.drawCircle(center.x, center.y, r, paint);
+                continue;
+            }
+
             const limitPath = this.renderLimitLinesPathBuffer;
             limitPath.reset();
 
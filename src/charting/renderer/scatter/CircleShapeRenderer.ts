@@ -1,15 +1,14 @@
 import { Canvas, Paint, Style } from '@nativescript-community/ui-canvas';
-import { IScatterDataSet } from '../../interfaces/datasets/IScatterDataSet';
 import { ColorTemplate } from '../../utils/ColorTemplate';
 import { ViewPortHandler } from '../../utils/ViewPortHandler';
-import { IShapeRenderer } from './IShapeRenderer';
+import { IShapeDataSet, IShapeRenderer } from './IShapeRenderer';
 
 /**
  * Created by wajdic on 15/06/2016.
  * Created at Time 09:08
  */
 export class CircleShapeRenderer implements IShapeRenderer {
-    public renderShape(c: Canvas, dataSet: IScatterDataSet, viewPortHandler: ViewPortHandler, posX, posY, renderPaint: Paint) {
+    public renderShape(c: Canvas, dataSet: IShapeDataSet, viewPortHandler: ViewPortHandler, posX, posY, renderPaint: Paint) {
         const shapeSize = dataSet.getScatterShapeSize();
         const shapeHalf = shapeSize / 2;
         const shapeHoleSizeHalf = dataSet.getScatterShapeHoleRadius();
@@ -1,14 +1,13 @@
 import { Canvas, Paint, Style } from '@nativescript-community/ui-canvas';
-import { IScatterDataSet } from '../../interfaces/datasets/IScatterDataSet';
 import { ViewPortHandler } from '../../utils/ViewPortHandler';
-import { IShapeRenderer } from './IShapeRenderer';
+import { IShapeDataSet, IShapeRenderer } from './IShapeRenderer';
 
 /**
  * Created by wajdic on 15/06/2016.
  * Created at Time 09:08
  */
 export class CrossShapeRenderer implements IShapeRenderer {
-    public renderShape(c: Canvas, dataSet: IScatterDataSet, viewPortHandler: ViewPortHandler, posX, posY, renderPaint: Paint) {
+    public renderShape(c: Canvas, dataSet: IShapeDataSet, viewPortHandler: ViewPortHandler, posX, posY, renderPaint: Paint) {
         const shapeHalf = dataSet.getScatterShapeSize() / 2;
 
         renderPaint.setStyle(Style.STROKE);
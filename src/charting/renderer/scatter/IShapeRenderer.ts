@@ -2,13 +2,18 @@ import { Canvas, Paint } from '@nativescript-community/ui-canvas';
 import { IScatterDataSet } from '../../interfaces/datasets/IScatterDataSet';
 import { ViewPortHandler } from '../../utils/ViewPortHandler';
 
+/**
+ * The shape settings of a DataSet drawn with an IShapeRenderer.
+ */
+export type IShapeDataSet = Pick<IScatterDataSet, 'getScatterShapeSize' | 'getScatterShapeHoleRadius' | 'getScatterShapeHoleColor'>;
+
 /**
  * Created by wajdic on 15/06/2016.
  * Created at Time 09:07
  */
 export interface IShapeRenderer {
     /**
-     * Renders the provided ScatterDataSet with a shape.
+     * Renders the provided DataSet with a shape.
      *
      * @param c               Canvas object for drawing the shape
      * @param dataSet         The DataSet to be drawn
@@ -17,5 +22,5 @@ export interface IShapeRenderer {
      * @param posY            Position to draw the shape at
      * @param renderPaint     Paint object used for styling and drawing
      */
-    renderShape(c: Canvas, dataSet: IScatterDataSet, viewPortHandler: ViewPortHandler, posX, posY, renderPaint: Paint);
+    renderShape(c: Canvas, dataSet: IShapeDataSet, viewPortHandler: ViewPortHandler, posX, posY, renderPaint: Paint);
 }
@@ -0,0 +1,258 @@
+/**
+ * calendar units used for the ticks of a time scale
+ */
+export enum TimeUnit {
+    MILLISECOND,
+    SECOND,
+    MINUTE,
+    HOUR,
+    DAY,
+    WEEK,
+    MONTH,
+    YEAR
+}
+
+export interface TimeInterval {
+    unit: TimeUnit;
+    step: number;
+}
+
+const MILLIS_PER_SECOND = 1000;
+const MILLIS_PER_MINUTE = 60 * MILLIS_PER_SECOND;
+const MILLIS_PER_HOUR = 60 * MILLIS_PER_MINUTE;
+const MILLIS_PER_DAY = 24 * MILLIS_PER_HOUR;
+
+/**
+ * approximate duration of each unit, only used to pick the tick interval
+ */
+const UNIT_DURATIONS = {
+    [TimeUnit.MILLISECOND]: 1,
+    [TimeUnit.SECOND]: MILLIS_PER_SECOND,
+    [TimeUnit.MINUTE]: MILLIS_PER_MINUTE,
+    [TimeUnit.HOUR]: MILLIS_PER_HOUR,
+    [TimeUnit.DAY]: MILLIS_PER_DAY,
+    [TimeUnit.WEEK]: 7 * MILLIS_PER_DAY,
+    [TimeUnit.MONTH]: 30 * MILLIS_PER_DAY,
+    [TimeUnit.YEAR]: 365 * MILLIS_PER_DAY
+};
+
+/**
+ * tick intervals from seconds to months, in increasing duration
+ */
+const INTERVALS: TimeInterval[] = [
+    { unit: TimeUnit.SECOND, step: 1 },
+    { unit: TimeUnit.SECOND, step: 5 },
+    { unit: TimeUnit.SECOND, step: 15 },
+    { unit: TimeUnit.SECOND, step: 30 },
+    { unit: TimeUnit.MINUTE, step: 1 },
+    { unit: TimeUnit.MINUTE, step: 5 },
+    { unit: TimeUnit.MINUTE, step: 15 },
+    { unit: TimeUnit.MINUTE, step: 30 },
+    { unit: TimeUnit.HOUR, step: 1 },
+    { unit: TimeUnit.HOUR, step: 3 },
+    { unit: TimeUnit.HOUR, step: 6 },
+    { unit: TimeUnit.HOUR, step: 12 },
+    { unit: TimeUnit.DAY, step: 1 },
+    { unit: TimeUnit.DAY, step: 2 },
+    { unit: TimeUnit.WEEK, step: 1 },
+    { unit: TimeUnit.MONTH, step: 1 },
+    { unit: TimeUnit.MONTH, step: 3 },
+    { unit: TimeUnit.MONTH, step: 6 }
+];
+
+/**
+ * bound of the iterations done to compute ticks
+ */
+const MAX_ITERATIONS = 10000;
+
+/**
+ * Calendar computations for time scales: epoch milliseconds are split into
+ * local (or UTC) calendar fields, so that ticks stay aligned to calendar
+ * boundaries across daylight saving time changes and months of different
+ * lengths.
+ */
+export namespace TimeScale {
+    /**
+     * Returns the calendar fields of the given time: year, month, day of the
+     * month, hours, minutes, seconds, milliseconds and day of the week.
+     *
+     * @param time
+     * @param utc
+     */
+    export function getFields(time: number, utc: boolean) {
+        const date = new Date(time);
+        if (utc) {
+            return [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds(), date.getUTCDay()];
+        }
+        return [date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds(), date.getDay()];
+    }
+
+    function makeTime(utc: boolean, year: number, month: number, day = 1, hours = 0, minutes = 0, seconds = 0) {
+        if (utc) {
+            return Date.UTC(year, month, day, hours, minutes, seconds);
+        }
+        return new Date(year, month, day, hours, minutes, seconds).getTime();
+    }
+
+    /**
+     * Returns the smallest interval having a duration of at least the given
+     * one, in milliseconds. Millisecond and year intervals use 1, 2 or 5
+     * times a power of ten as step.
+     *
+     * @param duration
+     */
+    export function getInterval(duration: number): TimeInterval {
+        if (duration < MILLIS_PER_SECOND) {
+            return { unit: TimeUnit.MILLISECOND, step: getNiceStep(duration) };
+        }
+        const interval = INTERVALS.find((i) => UNIT_DURATIONS[i.unit] * i.step >= duration);
+        if (interval) {
+            return interval;
+        }
+        return { unit: TimeUnit.YEAR, step: getNiceStep(duration / UNIT_DURATIONS[TimeUnit.YEAR]) };
+    }
+
+    function getNiceStep(value: number) {
+        if (!(value > 1)) {
+            return 1;
+        }
+        const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+        for (const multiple of [1, 2, 5]) {
+            if (multiple * magnitude >= value) {
+                return multiple * magnitude;
+            }
+        }
+        return 10 * magnitude;
+    }
+
+    /**
+     * Returns the unit whose boundaries are labeled on the second level of a
+     * time axis with ticks of the given unit, null if there is none.
+     *
+     * @param unit
+     */
+    export function getParentUnit(unit: TimeUnit) {
+        switch (unit) {
+            case TimeUnit.YEAR:
+                return null;
+            case TimeUnit.MONTH:
+                return TimeUnit.YEAR;
+            case TimeUnit.WEEK:
+            case TimeUnit.DAY:
+                return TimeUnit.MONTH;
+            default:
+                return TimeUnit.DAY;
+        }
+    }
+
+    /**
+     * Returns the start of the given unit containing the given time. Months
+     * and years are floored to a multiple of the given step.
+     *
+     * @param time
+     * @param unit
+     * @param utc
+     * @param firstDayOfWeek first day of the week, 0 being Sunday
+     * @param step
+     */
+    export function floor(time: number, unit: TimeUnit, utc: boolean, firstDayOfWeek = 0, step = 1) {
+        const [year, month, day, hours, minutes, seconds, , weekDay] = getFields(time, utc);
+        switch (unit) {
+            case TimeUnit.MILLISECOND:
+                return Math.floor(time / step) * step;
+            case TimeUnit.SECOND:
+                return makeTime(utc, year, month, day, hours, minutes, seconds);
+            case TimeUnit.MINUTE:
+                return makeTime(utc, year, month, day, hours, minutes);
+            case TimeUnit.HOUR:
+                return makeTime(utc, year, month, day, hours);
+            case TimeUnit.DAY:
+                return makeTime(utc, year, month, day);
+            case TimeUnit.WEEK:
+                return makeTime(utc, year, month, day - ((weekDay - firstDayOfWeek + 7) % 7));
+            case TimeUnit.MONTH:
+                return makeTime(utc, year, Math.floor(month / step) * step);
+            case TimeUnit.YEAR:
+                return makeTime(utc, Math.floor(year / step) * step, 0);
+        }
+    }
+
+    /**
+     * Returns the start of the unit coming the given count of units after
+     * the one starting at the given time. Units shorter than a day are added
+     * as absolute durations, longer ones as calendar fields.
+     *
+     * @param time start of a unit
+     * @param unit
+     * @param count
+     * @param utc
+     */
+    export function offset(time: number, unit: TimeUnit, count: number, utc: boolean) {
+        if (unit < TimeUnit.DAY) {
+            return time + UNIT_DURATIONS[unit] * count;
+        }
+        const [year, month, day] = getFields(time, utc);
+        switch (unit) {
+            case TimeUnit.DAY:
+                return makeTime(utc, year, month, day + count);
+            case TimeUnit.WEEK:
+                return makeTime(utc, year, month, day + 7 * count);
+            case TimeUnit.MONTH:
+                return makeTime(utc, year, month + count);
+            default:
+                return makeTime(utc, year + count, 0);
+        }
+    }
+
+    /**
+     * Returns true if the unit starting at the given time is on a step of
+     * its parent unit, e.g. a 6 hours step keeps 0:00, 6:00, 12:00 and 18:00.
+     */
+    function isOnStep(time: number, unit: TimeUnit, step: number, utc: boolean) {
+        if (step === 1) {
+            return true;
+        }
+        const [, , day, hours, minutes, seconds] = getFields(time, utc);
+        switch (unit) {
+            case TimeUnit.SECOND:
+                return seconds % step === 0;
+            case TimeUnit.MINUTE:
+                return minutes % step === 0;
+            case TimeUnit.HOUR:
+                return hours % step === 0;
+            case TimeUnit.DAY:
+                return (day - 1) % step === 0;
+            default:
+                return true;
+        }
+    }
+
+    /**
+     * Returns the ticks of the given interval between the given times.
+     *
+     * @param min
+     * @param max
+     * @param interval
+     * @param utc
+     * @param firstDayOfWeek first day of the week, 0 being Sunday
+     */
+    export function getTicks(min: number, max: number, interval: TimeInterval, utc: boolean, firstDayOfWeek = 0) {
+        const ticks: number[] = [];
+        if (!(max >= min)) {
+            return ticks;
+        }
+        const { unit, step } = interval;
+        // months, years and milliseconds can be iterated on steps directly,
+        // other units are iterated one by one and filtered
+        const stepped = unit === TimeUnit.MILLISECOND || unit === TimeUnit.MONTH || unit === TimeUnit.YEAR;
+        const count = stepped ? step : 1;
+        let time = floor(min, unit, utc, firstDayOfWeek, stepped ? step : 1);
+        for (let i = 0; time <= max && i < MAX_ITERATIONS; i++) {
+            if (time >= min && (stepped || isOnStep(time, unit, step, utc))) {
+                ticks.push(time);
+            }
+            time = offset(time, unit, count, utc);
+        }
+        return ticks;
+    }
+}
@@ -1,5 +1,6 @@
 import { Matrix, Path, Rect } from '@nativescript-community/ui-canvas';
 import { TypedArray } from '@nativescript-community/arraybuffers';
+import { AxisBase } from '../components/AxisBase';
 import { BubbleDataSet } from '../data/BubbleDataSet';
 import { CandleDataSet } from '../data/CandleDataSet';
 import { CandleEntry } from '../data/CandleEntry';
@@ -32,6 +33,13 @@ export class Transformer {
     protected mValuePointsForGenerateTransformedValues: TypedArray;
     protected mValuePointsForGenerateTransformedValuesBubble: TypedArray;
 
+    /**
+     * axes of the values mapped horizontally and vertically by the matrices,
+     * only kept when their scale is logarithmic or has breaks
+     */
+    protected mScaleAxisX: AxisBase = null;
+    protected mScaleAxisY: AxisBase = null;
+
     private mMBuffer1 = new Matrix();
     private mMBuffer2 = new Matrix();
 
@@ -39,6 +47,95 @@ export class Transformer {
         this.mViewPortHandler = viewPortHandler;
     }
 
+    /**
+     * Sets the axes of the values mapped horizontally and vertically. The
+     * matrices work in the scale of those axes: values of an axis with a
+     * logarithmic scale or breaks are converted to that scale before being
+     * mapped and back after being unmapped.
+     *
+     * @param xAxis
+     * @param yAxis
+     */
+    public setScaleAxes(xAxis: AxisBase, yAxis: AxisBase) {
+        this.mScaleAxisX = xAxis && xAxis.isScaled() ? xAxis : null;
+        this.mScaleAxisY = yAxis && yAxis.isScaled() ? yAxis : null;
+    }
+
+    public isScaled() {
+        return this.mScaleAxisX !== null || this.mScaleAxisY !== null;
+    }
+
+    public valueToScaleX(x: number) {
+        return this.mScaleAxisX ? this.mScaleAxisX.toScale(x) : x;
+    }
+
+    public valueToScaleY(y: number) {
+        return this.mScaleAxisY ? this.mScaleAxisY.toScale(y) : y;
+    }
+
+    /**
+     * Converts the given array of values (x, y, x, y, ...) to the scale of
+     * the axes in place. Paths need to be built from converted values before
+     * being transformed with pathValueToPixel().
+     *
+     * @param pts
+     * @param offset
+     * @param length
+     */
+    public pointValuesToScale(pts: number[] | TypedArray, offset = 0, length = pts.length - offset) {
+        const xAxis = this.mScaleAxisX;
+        const yAxis = this.mScaleAxisY;
+        if (!xAxis && !yAxis) {
+            return;
+        }
+        for (let i = offset; i < offset + length; i += 2) {
+            if (xAxis) {
+                pts[i] = xAxis.toScale(pts[i]);
+            }
+            if (yAxis) {
+                pts[i + 1] = yAxis.toScale(pts[i + 1]);
+            }
+        }
+    }
+
+    /**
+     * Converts the given array of values (x, y, x, y, ...) from the scale
+     * of the axes back to values in place.
+     *
+     * @param pts
+     */
+    public pointScaleToValues(pts: number[] | TypedArray) {
+        const xAxis = this.mScaleAxisX;
+        const yAxis = this.mScaleAxisY;
+        if (!xAxis && !yAxis) {
+            return;
+        }
+        for (let i = 0; i < pts.length; i += 2) {
+            if (xAxis) {
+                pts[i] = xAxis.fromScale(pts[i]);
+            }
+            if (yAxis) {
+                pts[i + 1] = yAxis.fromScale(pts[i + 1]);
+            }
+        }
+    }
+
+    /**
+     * Converts the given rect from values to the scale of the axes in place.
+     *
+     * @param r
+     */
+    protected rectValueToScale(r: Rect) {
+        if (this.mScaleAxisX) {
+            r.left = this.mScaleAxisX.toScale(r.left);
+            r.right = this.mScaleAxisX.toScale(r.right);
+        }
+        if (this.mScaleAxisY) {
+            r.top = this.mScaleAxisY.toScale(r.top);
+            r.bottom = this.mScaleAxisY.toScale(r.bottom);
+        }
+    }
+
     /**
      * Prepares the matrix that transforms values to pixels. Calculates the
      * scale factors from the charts size and offsets.
@@ -109,6 +206,7 @@ export class Transformer {
             }
         }
 
+        this.pointValuesToScale(valuePoints, 0, count);
         const points = Utils.pointsFromBuffer(valuePoints);
         this.mapPoints(this.getValueToPixelMatrix(), points);
 
@@ -142,6 +240,7 @@ export class Transformer {
                 valuePoints[j + 1] = 0;
             }
         }
+        this.pointValuesToScale(valuePoints, 0, count);
         const points = Utils.pointsFromBuffer(valuePoints);
         this.mapPoints(this.getValueToPixelMatrix(), points);
 
@@ -155,7 +254,7 @@ export class Transformer {
      * @param data
      * @return
      */
-    public generateTransformedValues(dataSet: IDataSet<Entry>, phaseX, phaseY, from, to) {
+    public generateTransformedValues(dataSet: IDataSet<Entry>, phaseX, phaseY, from, to, yKey = dataSet.yProperty) {
         const count = Math.ceil((to - from) * phaseX + 1) * 2;
         // let count = (to - from + 1) * 2; //  Math.ceil((to - from) * phaseX) * 2;
 
@@ -165,7 +264,6 @@ export class Transformer {
         // let valuePoints = this.valuePointsForGenerateTransformedValues;
         const valuePoints = this.mValuePointsForGenerateTransformedValues;
 
-        const yKey = dataSet.yProperty;
         for (let j = 0; j < count; j += 2) {
             const index = j / 2 + from;
             const e = dataSet.getEntryForIndex(index);
@@ -178,6 +276,7 @@ export class Transformer {
                 valuePoints[j + 1] = 0;
             }
         }
+        this.pointValuesToScale(valuePoints, 0, count);
         const points = Utils.pointsFromBuffer(valuePoints);
         this.mapPoints(this.getValueToPixelMatrix(), points);
 
@@ -211,6 +310,7 @@ export class Transformer {
                 valuePoints[j + 1] = 0;
             }
         }
+        this.pointValuesToScale(valuePoints, 0, count);
         const points = Utils.pointsFromBuffer(valuePoints);
         this.mapPoints(this.getValueToPixelMatrix(), points);
 
@@ -219,7 +319,8 @@ export class Transformer {
 
     /**
      * transform a path with all the given matrices VERY IMPORTANT: keep order
-     * to value-touch-offset
+     * to value-touch-offset. On logarithmic axes the path needs to be built
+     * from values converted with pointValuesToScale().
      *
      * @param path
      */
@@ -260,6 +361,17 @@ export class Transformer {
         // this.mMatrixValueToPx.mapPoints(pts);
         // this.mViewPortHandler.getMatrixTouch().mapPoints(pts);
         // this.mMatrixOffset.mapPoints(pts);
+        this.pointValuesToScale(pts);
+        this.mapPoints(this.getValueToPixelMatrix(), pts);
+    }
+
+    /**
+     * Transform an array of points already converted to the scale of the
+     * axes with all matrices.
+     *
+     * @param pts
+     */
+    public scaledPointValuesToPixel(pts: number[] | TypedArray) {
         this.mapPoints(this.getValueToPixelMatrix(), pts);
     }
 
@@ -273,6 +385,7 @@ export class Transformer {
         // this.mViewPortHandler.getMatrixTouch().mapRect(r);
         // this.mMatrixOffset.mapRect(r);
 
+        this.rectValueToScale(r);
         const tmp = this.getValueToPixelMatrix();
         tmp.mapRect(r);
     }
@@ -326,7 +439,10 @@ export class Transformer {
     public rectValuesToPixel(rects: Rect[]) {
         const m = this.getValueToPixelMatrix();
 
-        for (let i = 0; i < rects.length; i++) m.mapRect(rects[i]);
+        for (let i = 0; i < rects.length; i++) {
+            this.rectValueToScale(rects[i]);
+            m.mapRect(rects[i]);
+        }
     }
 
     protected mPixelToValueMatrixBuffer = new Matrix();
@@ -340,6 +456,7 @@ export class Transformer {
     public pixelsToValue(pixels) {
         const tmp = this.getPixelToValueMatrix();
         this.mapPoints(tmp, pixels);
+        this.pointScaleToValues(pixels);
     }
 
     /**
@@ -397,7 +514,6 @@ export class Transformer {
         return this.mMatrixOffset;
     }
 
-
     public getValueToPixelMatrix() {
         this.mMBuffer1.set(this.mMatrixValueToPx);
         this.mMBuffer1.postConcat(this.mViewPortHandler.mMatrixTouch);
@@ -405,7 +521,6 @@ export class Transformer {
         return this.mMBuffer1;
     }
 
-
     public getPixelToValueMatrix() {
         this.getValueToPixelMatrix().invert(this.mMBuffer2);
         return this.mMBuffer2;
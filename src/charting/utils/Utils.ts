@@ -184,6 +184,36 @@ export namespace Utils {
         };
     }
 
+    /**
+     * Shortens the given text with an ellipsis so that it fits in the given
+     * width. Returns an empty string if not even the ellipsis fits.
+     *
+     * @param paint
+     * @param text
+     * @param maxWidth
+     */
+    export function ellipsizeText(paint: Paint, text: string, maxWidth: number) {
+        if (!text || paint.measureText(text) <= maxWidth) {
+            return text;
+        }
+        const ellipsis = '…';
+        if (paint.measureText(ellipsis) > maxWidth) {
+            return '';
+        }
+        // binary search of the longest prefix fitting with the ellipsis
+        let low = 0;
+        let high = text.length;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (paint.measureText(text.slice(0, mid) + ellipsis) <= maxWidth) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return text.slice(0, low).trimEnd() + ellipsis;
+    }
+
     export function generateDefaultValueFormatter() {
         return new DefaultValueFormatter(1);
     }
@@ -291,6 +321,20 @@ export namespace Utils {
         return shifted / magnitude;
     }
 
+    /**
+     * Returns the quantile p of the given sorted values, interpolating
+     * linearly between the closest ranks.
+     *
+     * @param sorted
+     * @param p 0 - 1
+     */
+    export function quantile(sorted: number[], p: number) {
+        const pos = (sorted.length - 1) * p;
+        const lower = Math.floor(pos);
+        const upper = Math.ceil(pos);
+        return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+    }
+
     /**
      * Returns the appropriate number of decimals to be used for the provided
      * number.
@@ -0,0 +1,65 @@
+import { Color } from '@nativescript/core/color';
+import { IColorScale } from './IColorScale';
+import { LinearColorScale } from './LinearColorScale';
+
+/**
+ * Color scale diverging from a center value: values below the center go from
+ * the low color to the mid color, values above it from the mid color to the
+ * high color.
+ */
+export class DivergingColorScale implements IColorScale {
+    protected mLowColor: Color;
+    protected mMidColor: Color;
+    protected mHighColor: Color;
+
+    /**
+     * the value mapped to the mid color
+     */
+    protected mCenter: number;
+
+    constructor(lowColor: string | Color = '#B2182B', midColor: string | Color = '#F7F7F7', highColor: string | Color = '#2166AC', center = 0) {
+        this.mLowColor = lowColor instanceof Color ? lowColor : new Color(lowColor);
+        this.mMidColor = midColor instanceof Color ? midColor : new Color(midColor);
+        this.mHighColor = highColor instanceof Color ? highColor : new Color(highColor);
+        this.mCenter = center;
+    }
+
+    /**
+     * Sets the value mapped to the mid color.
+     * Default: 0
+     *
+     * @param center
+     */
+    public setCenter(center: number) {
+        this.mCenter = center;
+    }
+
+    public getCenter() {
+        return this.mCenter;
+    }
+
+    /**
+     * Returns the center clamped to the given domain.
+     */
+    protected getClampedCenter(min: number, max: number) {
+        return Math.max(min, Math.min(max, this.mCenter));
+    }
+
+    public getColor(value: number, min: number, max: number) {
+        const center = this.getClampedCenter(min, max);
+        if (value < center) {
+            return LinearColorScale.interpolate(this.mMidColor, this.mLowColor, (center - value) / (center - min));
+        } else if (value > center) {
+            return LinearColorScale.interpolate(this.mMidColor, this.mHighColor, (value - center) / (max - center));
+        }
+        return this.mMidColor;
+    }
+
+    public getGradientStops(min: number, max: number) {
+        const center = this.getClampedCenter(min, max);
+        return {
+            colors: [this.mLowColor, this.mMidColor, this.mHighColor],
+            positions: [0, max === min ? 0.5 : (center - min) / (max - min), 1]
+        };
+    }
+}
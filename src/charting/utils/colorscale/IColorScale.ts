@@ -0,0 +1,26 @@
+import { Color } from '@nativescript/core/color';
+
+/**
+ * Interface mapping numeric values to colors, e.g. for the cells of a HeatmapChart.
+ */
+export interface IColorScale {
+    /**
+     * Returns the color for the given value.
+     *
+     * @param value the value to map
+     * @param min   the minimum of the value domain
+     * @param max   the maximum of the value domain
+     * @return
+     */
+    getColor(value: number, min: number, max: number): Color;
+
+    /**
+     * Returns the colors and their relative positions (0 to 1) describing the
+     * scale as a gradient, used to draw the legend.
+     *
+     * @param min the minimum of the value domain
+     * @param max the maximum of the value domain
+     * @return
+     */
+    getGradientStops(min: number, max: number): { colors: Color[]; positions: number[] };
+}
@@ -0,0 +1,58 @@
+import { Color } from '@nativescript/core/color';
+import { IColorScale } from './IColorScale';
+
+/**
+ * Continuous color scale interpolating between evenly spaced color stops.
+ */
+export class LinearColorScale implements IColorScale {
+    protected mColors: Color[];
+
+    constructor(colors: (string | Color)[] = ['#E3F2FD', '#0D47A1']) {
+        this.setColors(colors);
+    }
+
+    /**
+     * Linearly interpolates between two colors.
+     *
+     * @param from
+     * @param to
+     * @param fraction 0 returns from, 1 returns to
+     * @return
+     */
+    public static interpolate(from: Color, to: Color, fraction: number) {
+        const f = Math.max(0, Math.min(1, fraction));
+        return new Color(Math.round(from.a + (to.a - from.a) * f), Math.round(from.r + (to.r - from.r) * f), Math.round(from.g + (to.g - from.g) * f), Math.round(from.b + (to.b - from.b) * f));
+    }
+
+    /**
+     * Sets the color stops of the scale. The first one is used for the minimum,
+     * the last one for the maximum.
+     *
+     * @param colors
+     */
+    public setColors(colors: (string | Color)[]) {
+        this.mColors = colors.map((c) => (c instanceof Color ? c : new Color(c)));
+    }
+
+    public getColors() {
+        return this.mColors;
+    }
+
+    public getColor(value: number, min: number, max: number) {
+        const colors = this.mColors;
+        if (colors.length === 1 || max === min) {
+            return colors[0];
+        }
+        const pos = Math.max(0, Math.min(1, (value - min) / (max - min))) * (colors.length - 1);
+        const index = Math.min(Math.floor(pos), colors.length - 2);
+        return LinearColorScale.interpolate(colors[index], colors[index + 1], pos - index);
+    }
+
+    public getGradientStops(min: number, max: number) {
+        const count = this.mColors.length;
+        return {
+            colors: this.mColors,
+            positions: this.mColors.map((c, i) => (count > 1 ? i / (count - 1) : 0))
+        };
+    }
+}
@@ -0,0 +1,59 @@
+import { Color } from '@nativescript/core/color';
+import { IColorScale } from './IColorScale';
+
+/**
+ * Color scale splitting the value domain into as many equal buckets as there
+ * are colors.
+ */
+export class QuantizedColorScale implements IColorScale {
+    protected mColors: Color[];
+
+    constructor(colors: (string | Color)[]) {
+        this.setColors(colors);
+    }
+
+    /**
+     * Sets the colors of the buckets, from the lowest to the highest.
+     *
+     * @param colors
+     */
+    public setColors(colors: (string | Color)[]) {
+        this.mColors = colors.map((c) => (c instanceof Color ? c : new Color(c)));
+    }
+
+    public getColors() {
+        return this.mColors;
+    }
+
+    /**
+     * Returns the bucket index of the given value.
+     *
+     * @param value
+     * @param min
+     * @param max
+     * @return
+     */
+    public getBucketIndex(value: number, min: number, max: number) {
+        const count = this.mColors.length;
+        if (max === min) {
+            return 0;
+        }
+        return Math.max(0, Math.min(count - 1, Math.floor(((value - min) / (max - min)) * count)));
+    }
+
+    public getColor(value: number, min: number, max: number) {
+        return this.mColors[this.getBucketIndex(value, min, max)];
+    }
+
+    public getGradientStops(min: number, max: number) {
+        const count = this.mColors.length;
+        const colors: Color[] = [];
+        const positions: number[] = [];
+        // duplicate each color to get hard edges between buckets
+        for (let i = 0; i < count; i++) {
+            colors.push(this.mColors[i], this.mColors[i]);
+            positions.push(i / count, (i + 1) / count);
+        }
+        return { colors, positions };
+    }
+}